@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+
+vi.mock('../lib/logger.js', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), success: vi.fn(), warning: vi.fn(), error: vi.fn() }
+}));
+
+import { CredentialAgent, queryAgent } from '../lib/agent.js';
+
+const dir = `/tmp/cpa-agent-test-${process.pid}`;
+
+describe('CredentialAgent', () => {
+  beforeAll(() => {
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should hand out the password on an owner-only socket until locked', async () => {
+    const socketPath = path.join(dir, 'lock.sock');
+    const onLocked = vi.fn();
+    const agent = new CredentialAgent('master-secret', { idleTimeoutMs: 60000, socketPath, onLocked });
+    await agent.start();
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+    expect(await queryAgent({ action: 'password' }, socketPath)).toMatchObject({ ok: true, password: 'master-secret' });
+    expect(await queryAgent({ action: 'status' }, socketPath)).toMatchObject({ ok: true, pid: process.pid });
+
+    expect(await queryAgent({ action: 'lock' }, socketPath)).toEqual({ ok: true });
+    await vi.waitFor(() => expect(onLocked).toHaveBeenCalledWith('lock'));
+    expect(fs.existsSync(socketPath)).toBe(false);
+    expect(await queryAgent({ action: 'password' }, socketPath)).toBeUndefined();
+  });
+
+  it('should lock itself after the idle timeout', async () => {
+    const socketPath = path.join(dir, 'idle.sock');
+    const onLocked = vi.fn();
+    const agent = new CredentialAgent('master-secret', { idleTimeoutMs: 100, socketPath, onLocked });
+    await agent.start();
+
+    await vi.waitFor(() => expect(onLocked).toHaveBeenCalledWith('idle'), { timeout: 2000 });
+    expect(await queryAgent({ action: 'password' }, socketPath)).toBeUndefined();
+    await agent.stop();
+  });
+
+  it('should replace a stale socket but refuse to start next to a running agent', async () => {
+    const socketPath = path.join(dir, 'stale.sock');
+    fs.writeFileSync(socketPath, '');
+
+    const agent = new CredentialAgent('first', { idleTimeoutMs: 60000, socketPath });
+    await agent.start();
+    const second = new CredentialAgent('second', { idleTimeoutMs: 60000, socketPath });
+    await expect(second.start()).rejects.toThrow('already listening');
+    expect(await queryAgent({ action: 'password' }, socketPath)).toMatchObject({ password: 'first' });
+
+    await agent.stop();
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { home } from './helpers/temp-home.js';
+import { toolManager, API_KEY_HELPER_CREDENTIAL } from '../lib/tool-manager.js';
+import { configManager } from '../lib/config.js';
+import { secureCredentialManager } from '../lib/secure-credential-manager.js';
+import { handlePrintToken } from '../commands/auth.js';
+import { logger } from '../lib/logger.js';
+
+const API_KEY = 'glm-helper-key-0123456789';
+const PASSWORD = 'test-password';
+const claudeSettings = path.join(home, '.claude', 'settings.json');
+
+function readSettings(): any {
+  return JSON.parse(fs.readFileSync(claudeSettings, 'utf-8'));
+}
+
+describe('Claude Code apiKeyHelper mode', () => {
+  beforeAll(() => {
+    fs.mkdirSync(path.dirname(claudeSettings), { recursive: true });
+    fs.writeFileSync(claudeSettings, JSON.stringify({ theme: 'dark' }));
+    configManager.setApiKey('glm', API_KEY, PASSWORD);
+  });
+
+  it('should write the helper command and only non-secret settings', () => {
+    expect(toolManager.loadPlatformConfig('claude-code', 'glm', { password: PASSWORD, apiKeyHelper: true })).toBe(true);
+    const settings = readSettings();
+    expect(settings.apiKeyHelper).toBe('cpa auth print-token glm');
+    expect(settings.env.ANTHROPIC_BASE_URL).toBeDefined();
+    expect(settings.env.ANTHROPIC_AUTH_TOKEN).toBeUndefined();
+    expect(fs.readFileSync(claudeSettings, 'utf-8')).not.toContain(API_KEY);
+    expect(secureCredentialManager.getCredential('glm', 'claude-code', API_KEY_HELPER_CREDENTIAL)).toBe(API_KEY);
+    expect(toolManager.usesApiKeyHelper('claude-code')).toBe(true);
+  });
+
+  it('should print only the stored key', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await handlePrintToken(['glm']);
+    expect(log.mock.calls).toEqual([[API_KEY]]);
+    log.mockRestore();
+  });
+
+  it('should keep log messages off stdout while printing the key', async () => {
+    const getCredential = secureCredentialManager.getCredential.bind(secureCredentialManager);
+    const lookup = vi.spyOn(secureCredentialManager, 'getCredential').mockImplementation((...args) => {
+      logger.warning('credential helper get failed');
+      return getCredential(...args);
+    });
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await handlePrintToken(['glm']);
+    expect(log.mock.calls).toEqual([[API_KEY]]);
+    expect(error.mock.calls[0][0]).toContain('credential helper get failed');
+
+    // Routing ends with the command
+    logger.warning('after');
+    expect(log).toHaveBeenCalledTimes(2);
+    lookup.mockRestore();
+    log.mockRestore();
+    error.mockRestore();
+  });
+
+  it('should drop the helper when the key is written into the file again', () => {
+    expect(toolManager.loadPlatformConfig('claude-code', 'glm', { password: PASSWORD })).toBe(true);
+    const settings = readSettings();
+    expect(settings.apiKeyHelper).toBeUndefined();
+    expect(settings.env.ANTHROPIC_AUTH_TOKEN).toBe(API_KEY);
+    expect(secureCredentialManager.hasCredential('glm', 'claude-code', API_KEY_HELPER_CREDENTIAL)).toBe(false);
+  });
+
+  it('should restore the original settings and forget the key on unload', () => {
+    toolManager.loadPlatformConfig('claude-code', 'glm', { password: PASSWORD, apiKeyHelper: true });
+    expect(toolManager.unloadPlatformConfig('claude-code', 'glm')).toBe(true);
+    expect(readSettings()).toEqual({ theme: 'dark' });
+    expect(secureCredentialManager.hasCredential('glm', 'claude-code', API_KEY_HELPER_CREDENTIAL)).toBe(false);
+  });
+});
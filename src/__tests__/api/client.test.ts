@@ -52,13 +52,46 @@ vi.mock('../../lib/config.js', () => {
       getPlatformConfig: vi.fn().mockReturnValue({}),
       setPlatformConfig: vi.fn(),
       setApiKey: vi.fn(),
+      verifyMasterPassword: vi.fn().mockReturnValue(true),
       updateConfig: vi.fn()
     }
   };
 });
 
+// Mock the platform manager (provider definitions are read from disk)
+vi.mock('../../lib/platform-manager.js', () => ({
+  platformManager: {
+    getPlatformInfos: vi.fn().mockReturnValue([
+      {
+        id: 'glm',
+        name: 'GLM (Z.AI)',
+        description: 'Zhipu GLM coding plan',
+        apiDocsUrl: 'https://open.bigmodel.cn/dev/api',
+        models: ['glm-coding-plan']
+      },
+      {
+        id: 'minimax',
+        name: 'MiniMax',
+        description: 'MiniMax coding plan',
+        apiDocsUrl: 'https://platform.minimax.io/docs/coding-plan/',
+        models: ['MiniMax-M2.5']
+      }
+    ]),
+    getPlatformIds: vi.fn().mockReturnValue(['glm', 'minimax']),
+    hasPlatform: vi.fn((id: string) => id === 'glm' || id === 'minimax')
+  }
+}));
+
+// Mock the model catalog (live listings are cached in the state dir)
+vi.mock('../../lib/model-catalog.js', () => ({
+  modelCatalog: {
+    getModels: vi.fn((id: string) => id === 'glm' ? ['glm-4.6', 'glm-4.5-air'] : ['MiniMax-M2.5'])
+  }
+}));
+
 // Import after mocking
 import { apiClient } from '../../api/client.js';
+import { configManager } from '../../lib/config.js';
 import type { UnifiedConfig, Language, PlatformId, PlanType } from '../../types/config.js';
 
 describe('API Client', () => {
@@ -93,6 +126,13 @@ describe('API Client', () => {
       expect(apiClient.isReady()).toBe(true);
     });
 
+    it('should reject a wrong master password', () => {
+      vi.mocked(configManager.verifyMasterPassword).mockReturnValueOnce(false);
+
+      expect(() => apiClient.initialize({ masterPassword: 'wrong-password' })).toThrow('Invalid master password');
+      expect(apiClient.isReady()).toBe(false);
+    });
+
     it('should handle config file loading on initialization', () => {
       vi.mocked(fs.existsSync).mockReturnValue(true);
       vi.mocked(fs.readFileSync).mockReturnValue('lang: en_US\nplatform: glm');
@@ -208,6 +248,15 @@ describe('API Client', () => {
         expect(result.data.platforms[0]).toHaveProperty('name');
       }
     });
+
+    it('should report models from the model catalog', () => {
+      const result = apiClient.listPlatforms();
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.platforms[0].models).toEqual(['glm-4.6', 'glm-4.5-air']);
+      }
+    });
   });
 
   describe('API Key Operations', () => {
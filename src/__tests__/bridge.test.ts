@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+vi.mock('../lib/config.js', () => ({
+  configManager: {
+    getNetworkConfig: () => ({})
+  }
+}));
+
+import {
+  openAIToAnthropicRequest,
+  anthropicToOpenAIResponse,
+  anthropicToOpenAIRequest,
+  openAIToAnthropicResponse,
+  AnthropicToOpenAIStream,
+  OpenAIToAnthropicStream
+} from '../lib/protocol-translation.js';
+import { Bridge } from '../lib/bridge.js';
+
+const PROXY_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+// Data payloads of an event stream, with the event name for Anthropic streams
+function parseEvents(stream: string): Array<{ event?: string; data: any }> {
+  return stream.split('\n\n').filter(Boolean).map(block => {
+    const event = /^event: (.*)$/m.exec(block)?.[1];
+    const data = /^data: (.*)$/m.exec(block)![1];
+    return { event, data: data === '[DONE]' ? data : JSON.parse(data) };
+  });
+}
+
+describe('Protocol translation', () => {
+  describe('OpenAI to Anthropic', () => {
+    it('should translate messages, tools and sampling options', () => {
+      const request = openAIToAnthropicRequest({
+        model: 'glm-4.6',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: [{ type: 'text', text: 'Weather?' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+          { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }] },
+          { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+          { role: 'user', content: 'Thanks' }
+        ],
+        tools: [{ type: 'function', function: { name: 'weather', description: 'Look up weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } } }],
+        tool_choice: 'required',
+        stop: 'END',
+        temperature: 0.2,
+        stream: true
+      });
+
+      expect(request).toEqual({
+        model: 'glm-4.6',
+        system: 'Be brief.',
+        max_tokens: 4096,
+        temperature: 0.2,
+        stop_sequences: ['END'],
+        stream: true,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Weather?' },
+              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } }
+            ]
+          },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } }] },
+          // The tool result and the next user turn are merged into one user message
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' },
+              { type: 'text', text: 'Thanks' }
+            ]
+          }
+        ],
+        tools: [{ name: 'weather', description: 'Look up weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+        tool_choice: { type: 'any' }
+      });
+    });
+
+    it('should translate a response with tool calls', () => {
+      const response = anthropicToOpenAIResponse({
+        id: 'msg_1',
+        model: 'glm-4.6',
+        content: [
+          { type: 'thinking', thinking: '...' },
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } }
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+
+      expect(response).toMatchObject({
+        id: 'msg_1',
+        object: 'chat.completion',
+        model: 'glm-4.6',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Checking.',
+            tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }]
+          },
+          finish_reason: 'tool_calls'
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      });
+    });
+
+    it('should translate an event stream into chunks', () => {
+      const stream = new AnthropicToOpenAIStream('glm-4.6', true);
+      const input = [
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"glm-4.6","usage":{"input_tokens":10,"output_tokens":1}}}\n\n',
+        'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n\n',
+        'event: content_block_start\ndata: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_1","name":"weather","input":{}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\\"city\\":"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"\\"Paris\\"}"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"tool_use"},"usage":{"output_tokens":7}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+      ].join('');
+      // Feed in uneven pieces to exercise event buffering
+      let output = '';
+      for (let i = 0; i < input.length; i += 50) {
+        output += stream.push(input.slice(i, i + 50));
+      }
+      output += stream.finish();
+
+      const chunks = parseEvents(output).map(event => event.data);
+      expect(chunks[0].choices[0].delta).toEqual({ role: 'assistant', content: '' });
+      expect(chunks[1].choices[0].delta).toEqual({ content: 'Hi' });
+      expect(chunks[2].choices[0].delta.tool_calls).toEqual([{ index: 0, id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '' } }]);
+      const args = chunks.slice(3, 5).map(chunk => chunk.choices[0].delta.tool_calls[0].function.arguments).join('');
+      expect(JSON.parse(args)).toEqual({ city: 'Paris' });
+      expect(chunks[5].choices[0].finish_reason).toBe('tool_calls');
+      expect(chunks[6]).toMatchObject({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 7, total_tokens: 17 } });
+      expect(chunks[7]).toBe('[DONE]');
+      expect(chunks.every(chunk => chunk === '[DONE]' || chunk.id === 'msg_1')).toBe(true);
+    });
+  });
+
+  describe('Anthropic to OpenAI', () => {
+    it('should translate messages, tool results and tools', () => {
+      const request = anthropicToOpenAIRequest({
+        model: 'glm-4.6',
+        system: [{ type: 'text', text: 'Be brief.' }],
+        max_tokens: 1024,
+        stream: true,
+        messages: [
+          { role: 'user', content: 'Weather?' },
+          { role: 'assistant', content: [{ type: 'text', text: 'Checking.' }, { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Sunny' }] }, { type: 'text', text: 'Thanks' }] }
+        ],
+        tools: [{ name: 'weather', description: 'Look up weather', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'tool', name: 'weather' }
+      });
+
+      expect(request).toEqual({
+        model: 'glm-4.6',
+        max_tokens: 1024,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Weather?' },
+          {
+            role: 'assistant',
+            content: 'Checking.',
+            tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }]
+          },
+          { role: 'tool', tool_call_id: 'toolu_1', content: 'Sunny' },
+          { role: 'user', content: 'Thanks' }
+        ],
+        tools: [{ type: 'function', function: { name: 'weather', description: 'Look up weather', parameters: { type: 'object' } } }],
+        tool_choice: { type: 'function', function: { name: 'weather' } }
+      });
+    });
+
+    it('should translate a completion into a message', () => {
+      expect(openAIToAnthropicResponse({
+        id: 'chatcmpl-1',
+        model: 'glm-4.6',
+        choices: [{
+          message: { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', function: { name: 'weather', arguments: '{"city":"Paris"}' } }] },
+          finish_reason: 'tool_calls'
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 }
+      })).toEqual({
+        id: 'chatcmpl-1',
+        type: 'message',
+        role: 'assistant',
+        model: 'glm-4.6',
+        content: [{ type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } }],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+    });
+
+    it('should translate chunks into an event stream', () => {
+      const stream = new OpenAIToAnthropicStream('glm-4.6');
+      let output = stream.push([
+        'data: {"id":"c1","model":"glm-4.6","choices":[{"index":0,"delta":{"role":"assistant","content":"Hi"}}]}\n\n',
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"id":"call_1","type":"function","function":{"name":"weather","arguments":"{\\"city\\""}}]}}]}\n\n',
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":":\\"Paris\\"}"}}]}}]}\n\n',
+        'data: {"id":"c1","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}\n\n',
+        'data: {"id":"c1","choices":[],"usage":{"prompt_tokens":10,"completion_tokens":7}}\n\n',
+        'data: [DONE]\n\n'
+      ].join(''));
+      output += stream.finish();
+
+      const events = parseEvents(output);
+      expect(events.map(event => event.event)).toEqual([
+        'message_start',
+        'content_block_start', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'message_delta', 'message_stop'
+      ]);
+      expect(events[0].data.message).toMatchObject({ id: 'c1', model: 'glm-4.6', role: 'assistant' });
+      expect(events[2].data.delta).toEqual({ type: 'text_delta', text: 'Hi' });
+      expect(events[4].data).toEqual({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'call_1', name: 'weather', input: {} } });
+      expect(events[5].data.delta.partial_json + events[6].data.delta.partial_json).toBe('{"city":"Paris"}');
+      expect(events[8].data).toEqual({
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { input_tokens: 10, output_tokens: 7 }
+      });
+    });
+  });
+});
+
+describe('Bridge', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  let upstream: http.Server;
+  let upstreamUrl: string;
+  let requests: Array<{ url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+  let reply: (res: http.ServerResponse) => void;
+  let bridge: Bridge;
+  let url: string;
+
+  beforeEach(async () => {
+    for (const name of PROXY_VARS) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    requests = [];
+    upstream = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(Buffer.concat(chunks).toString('utf-8')) });
+        reply(res);
+      });
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', () => resolve()));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+    bridge = new Bridge({
+      port: 0,
+      platform: 'glm',
+      baseUrls: { anthropic: `${upstreamUrl}/api/anthropic`, openai: `${upstreamUrl}/api/paas/v4` },
+      models: ['glm-4.6']
+    });
+    url = `http://127.0.0.1:${await bridge.start()}`;
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+    for (const name of PROXY_VARS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  it('should serve OpenAI clients from the Anthropic endpoint', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ id: 'msg_1', model: 'glm-4.6', content: [{ type: 'text', text: 'Hello' }], stop_reason: 'end_turn', usage: { input_tokens: 3, output_tokens: 1 } }));
+    };
+
+    const response = await fetch(`${url}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer real-key' },
+      body: JSON.stringify({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }] })
+    });
+    const body = await response.json() as any;
+
+    expect(requests[0].url).toBe('/api/anthropic/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('real-key');
+    expect(requests[0].headers['anthropic-version']).toBe('2023-06-01');
+    expect(requests[0].body).toEqual({ model: 'glm-4.6', max_tokens: 4096, messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] });
+    expect(body.choices[0]).toEqual({ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' });
+  });
+
+  it('should stream Anthropic clients from the OpenAI endpoint', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"id":"c1","model":"glm-4.6","choices":[{"index":0,"delta":{"content":"Hel"}}]}\n\n');
+      res.write('data: {"id":"c1","model":"glm-4.6","choices":[{"index":0,"delta":{"content":"lo"},"finish_reason":"stop"}]}\n\n');
+      res.end('data: [DONE]\n\n');
+    };
+
+    const response = await fetch(`${url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'real-key' },
+      body: JSON.stringify({ model: 'glm-4.6', max_tokens: 100, stream: true, messages: [{ role: 'user', content: 'Hi' }] })
+    });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = parseEvents(await response.text());
+
+    expect(requests[0].url).toBe('/api/paas/v4/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer real-key');
+    expect(events.filter(event => event.event === 'content_block_delta').map(event => event.data.delta.text).join('')).toBe('Hello');
+    expect(events[events.length - 1].event).toBe('message_stop');
+  });
+
+  it('should translate upstream errors into the client protocol', async () => {
+    reply = (res) => {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid key' } }));
+    };
+
+    const response = await fetch(`${url}/v1/chat/completions`, {
+      method: 'POST',
+      body: JSON.stringify({ model: 'glm-4.6', messages: [] })
+    });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: { message: 'invalid key', type: 'authentication_error', code: null } });
+  });
+
+  it('should list the platform models for OpenAI clients', async () => {
+    const response = await fetch(`${url}/v1/models`);
+    const body = await response.json() as any;
+    expect(body.data.map((model: { id: string }) => model.id)).toEqual(['glm-4.6']);
+  });
+});
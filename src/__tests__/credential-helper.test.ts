@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { home } from './helpers/temp-home.js';
+import { CredentialHelper, formatCredentialRequest, parseCredentialResponse } from '../lib/credential-helper.js';
+import { configManager } from '../lib/config.js';
+
+// Keeps each secret in a file named after the other request fields
+const HELPER_SCRIPT = `#!/bin/sh
+store="$(dirname "$0")/store"
+mkdir -p "$store"
+id=""
+while IFS= read -r line && [ -n "$line" ]; do
+  case "$line" in
+    secret=*) secret="\${line#secret=}" ;;
+    *) id="$id|$line" ;;
+  esac
+done
+file="$store/$(printf '%s' "$id" | cksum | cut -d' ' -f1)"
+case "$1" in
+  get) if [ -f "$file" ]; then printf 'secret=%s\\n' "$(cat "$file")"; fi ;;
+  store) printf '%s' "$secret" > "$file" ;;
+  erase) rm -f "$file" ;;
+esac
+`;
+
+const helperPath = path.join(home, 'helper.sh');
+const failingHelperPath = path.join(home, 'failing-helper.sh');
+
+describe('Credential helper', () => {
+  beforeAll(() => {
+    fs.mkdirSync(home, { recursive: true });
+    fs.writeFileSync(helperPath, HELPER_SCRIPT, { mode: 0o755 });
+    fs.writeFileSync(failingHelperPath, '#!/bin/sh\ncat > /dev/null\necho "vault locked" >&2\nexit 1\n', { mode: 0o755 });
+  });
+
+  it('should write key=value requests and read key=value replies', () => {
+    expect(formatCredentialRequest({ platform: 'glm', profile: undefined, name: 'api_key' })).toBe('platform=glm\nname=api_key\n\n');
+    expect(() => formatCredentialRequest({ secret: 'a\nb' })).toThrow('line break');
+    expect(parseCredentialResponse('secret=a=b\ninvalid\n\nsecret=ignored\n')).toEqual({ secret: 'a=b' });
+  });
+
+  it('should store, get and erase secrets through the helper', () => {
+    const helper = new CredentialHelper(helperPath);
+    const query = { platform: 'glm', tool: 'claude-code', name: 'ANTHROPIC_AUTH_TOKEN' };
+
+    expect(helper.get(query)).toBeUndefined();
+    expect(helper.store(query, 'helper-secret')).toBe(true);
+    expect(helper.get(query)).toBe('helper-secret');
+    expect(helper.get({ ...query, tool: 'cursor' })).toBeUndefined();
+    expect(helper.erase(query)).toBe(true);
+    expect(helper.get(query)).toBeUndefined();
+  });
+
+  it('should treat a non-zero exit status as failure', () => {
+    const helper = new CredentialHelper(failingHelperPath);
+    expect(helper.get({ platform: 'glm', name: 'api_key' })).toBeUndefined();
+    expect(helper.store({ platform: 'glm', name: 'api_key' }, 'secret')).toBe(false);
+  });
+
+  it('should keep platform keys in the configured helper instead of the config file', () => {
+    configManager.setCredentialStorageExternalProvider(helperPath);
+    configManager.setApiKey('minimax', 'minimax-helper-key', 'master-password');
+
+    expect(configManager.getPlatformConfig('minimax').encrypted_api_key).toBeUndefined();
+    expect(configManager.getApiKey('minimax')).toBe('minimax-helper-key');
+
+    // Falls back to the encrypted key when the helper fails
+    configManager.setCredentialStorageExternalProvider(failingHelperPath);
+    configManager.setApiKey('minimax', 'minimax-local-key', 'master-password');
+    expect(configManager.getPlatformConfig('minimax').encrypted_api_key).toBeDefined();
+    expect(configManager.getApiKey('minimax', 'master-password')).toBe('minimax-local-key');
+  });
+});
@@ -0,0 +1,354 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+vi.mock('../lib/config.js', () => ({
+  configManager: {
+    getNetworkConfig: () => ({})
+  }
+}));
+
+vi.mock('../lib/platform-manager.js', () => ({
+  platformManager: {}
+}));
+
+import { Gateway, mapModel, findRoute, type GatewayUpstream, type GatewayOptions } from '../lib/gateway.js';
+
+const PROXY_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+const TOKEN = 'cpa-gw-test-token';
+
+interface FakeUpstream {
+  url: string;
+  requests: Array<{ url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+  close: () => Promise<void>;
+}
+
+async function startUpstream(handler: (res: http.ServerResponse, body: any) => void): Promise<FakeUpstream> {
+  const requests: FakeUpstream['requests'] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : undefined;
+      requests.push({ url: req.url, headers: req.headers, body });
+      handler(res, body);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+function upstream(platform: string, baseUrl: string, prefix: string): GatewayUpstream {
+  return {
+    platform,
+    baseUrl,
+    apiKey: `${platform}-key`,
+    models: [`${prefix}-large`, `${prefix}-small`],
+    tiers: { opus: `${prefix}-large`, sonnet: `${prefix}-large`, haiku: `${prefix}-small`, subagent: `${prefix}-large` }
+  };
+}
+
+function respond(status: number, body: unknown = { ok: status < 400 }) {
+  return (res: http.ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+}
+
+describe('Gateway', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  let servers: FakeUpstream[];
+  let gateway: Gateway | undefined;
+
+  beforeEach(() => {
+    for (const name of PROXY_VARS) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    servers = [];
+    gateway = undefined;
+  });
+
+  afterEach(async () => {
+    await gateway?.stop();
+    await Promise.all(servers.map(server => server.close()));
+    for (const name of PROXY_VARS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  async function startGateway(upstreams: GatewayUpstream[], options: Partial<GatewayOptions> = {}): Promise<string> {
+    gateway = new Gateway({ port: 0, token: TOKEN, upstreams, ...options });
+    const port = await gateway.start();
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async function track(handler: (res: http.ServerResponse, body: any) => void): Promise<FakeUpstream> {
+    const server = await startUpstream(handler);
+    servers.push(server);
+    return server;
+  }
+
+  function post(url: string, body: unknown): Promise<Response> {
+    return fetch(`${url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': TOKEN, 'anthropic-version': '2023-06-01' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  it('should map models through tiers and Claude family names', () => {
+    const primary = upstream('glm', '', 'glm');
+    const backup = upstream('minimax', '', 'mm');
+
+    expect(mapModel('mm-small', primary, backup)).toBe('mm-small');
+    expect(mapModel('glm-small', primary, backup)).toBe('mm-small');
+    expect(mapModel('claude-3-5-haiku-latest', primary, backup)).toBe('mm-small');
+    expect(mapModel('unknown', primary, backup)).toBe('mm-large');
+    expect(mapModel(undefined, primary, backup)).toBe('mm-large');
+  });
+
+  it('should prefer exact model routes over tier routes', () => {
+    const upstreams = [upstream('glm', '', 'glm'), upstream('minimax', '', 'mm')];
+    const routes = { haiku: { platform: 'minimax' }, 'glm-small': { platform: 'glm' } };
+
+    expect(findRoute('glm-small', routes, upstreams)).toEqual({ match: 'glm-small', target: { platform: 'glm' } });
+    expect(findRoute('mm-small', routes, upstreams)).toEqual({ match: 'haiku', target: { platform: 'minimax' } });
+    expect(findRoute('claude-3-5-haiku-latest', routes, upstreams)?.match).toBe('haiku');
+    expect(findRoute('glm-large', routes, upstreams)).toBeUndefined();
+    expect(findRoute(undefined, routes, upstreams)).toBeUndefined();
+  });
+
+  it('should report its upstreams on /health', async () => {
+    const url = await startGateway([upstream('glm', 'http://127.0.0.1:1', 'glm')]);
+    const response = await fetch(`${url}/health`, { headers: { authorization: `Bearer ${TOKEN}` } });
+    expect(await response.json()).toEqual({ status: 'ok', upstreams: ['glm'], routes: {}, keys: { glm: [{ name: 'default' }] } });
+  });
+
+  it('should replace the client credentials with the upstream key', async () => {
+    const primary = await track(respond(200));
+    const url = await startGateway([upstream('glm', primary.url + '/api/anthropic', 'glm')]);
+
+    const response = await post(url, { model: 'glm-large', messages: [] });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-cpa-upstream')).toBe('glm');
+    expect(primary.requests[0].url).toBe('/api/anthropic/v1/messages');
+    expect(primary.requests[0].headers['x-api-key']).toBe('glm-key');
+    expect(primary.requests[0].headers.authorization).toBe('Bearer glm-key');
+    expect(primary.requests[0].headers['anthropic-version']).toBe('2023-06-01');
+  });
+
+  it.each([429, 503])('should fail over on HTTP %i and map the model', async (status) => {
+    const primary = await track(respond(status));
+    const backup = await track(respond(200, { id: 'msg_1' }));
+    const url = await startGateway([upstream('glm', primary.url, 'glm'), upstream('minimax', backup.url, 'mm')]);
+
+    const response = await post(url, { model: 'glm-small', messages: [] });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 'msg_1' });
+    expect(response.headers.get('x-cpa-upstream')).toBe('minimax');
+    expect(primary.requests).toHaveLength(1);
+    expect(backup.requests[0].body.model).toBe('mm-small');
+    expect(backup.requests[0].headers['x-api-key']).toBe('minimax-key');
+  });
+
+  it('should fail over when a platform is unreachable', async () => {
+    const backup = await track(respond(200));
+    // Nothing listens on port 1
+    const url = await startGateway([upstream('glm', 'http://127.0.0.1:1', 'glm'), upstream('minimax', backup.url, 'mm')]);
+
+    const response = await post(url, { model: 'glm-large', messages: [] });
+    expect(response.status).toBe(200);
+    expect(backup.requests).toHaveLength(1);
+  });
+
+  it('should pass the last upstream error through unchanged', async () => {
+    const primary = await track(respond(503));
+    const backup = await track(respond(429, { type: 'error', error: { type: 'rate_limit_error' } }));
+    const url = await startGateway([upstream('glm', primary.url, 'glm'), upstream('minimax', backup.url, 'mm')]);
+
+    const response = await post(url, { model: 'glm-large', messages: [] });
+    expect(response.status).toBe(429);
+    const body = await response.json() as { error: { type: string } };
+    expect(body.error.type).toBe('rate_limit_error');
+  });
+
+  it('should return an Anthropic-style error when every platform is unreachable', async () => {
+    const url = await startGateway([upstream('glm', 'http://127.0.0.1:1', 'glm')]);
+
+    const response = await post(url, { model: 'glm-large', messages: [] });
+    expect(response.status).toBe(502);
+    expect((await response.json())).toMatchObject({ type: 'error', error: { type: 'api_error' } });
+  });
+
+  it('should not repeat a request on another platform after it timed out', async () => {
+    const primary = await track((res) => setTimeout(() => respond(200)(res), 300));
+    const backup = await track(respond(200));
+    const url = await startGateway([upstream('glm', primary.url, 'glm'), upstream('minimax', backup.url, 'mm')], { timeoutMs: 100 });
+
+    const response = await post(url, { model: 'glm-large', messages: [] });
+    expect(response.status).toBe(504);
+    expect((await response.json())).toMatchObject({ type: 'error', error: { type: 'api_error' } });
+    expect(primary.requests).toHaveLength(1);
+    expect(backup.requests).toHaveLength(0);
+  });
+
+  it('should stream server-sent events through unchanged', async () => {
+    const events = [
+      'event: message_start\ndata: {"type":"message_start"}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":"hi"}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+    ];
+    const primary = await track((res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const event of events) {
+        res.write(event);
+      }
+      res.end();
+    });
+    const url = await startGateway([upstream('glm', primary.url, 'glm')]);
+
+    const response = await post(url, { model: 'glm-large', stream: true, messages: [] });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toBe(events.join(''));
+  });
+
+  it('should send routed requests to their platform and log where they went', async () => {
+    const primary = await track(respond(200));
+    const backup = await track(respond(200));
+    const dispatched: any[] = [];
+    const url = await startGateway([upstream('glm', primary.url, 'glm'), upstream('minimax', backup.url, 'mm')], {
+      routes: { haiku: { platform: 'minimax' }, 'glm-large': { platform: 'minimax', model: 'mm-turbo' } },
+      onDispatch: entry => dispatched.push(entry)
+    });
+
+    const routed = await post(url, { model: 'glm-small', messages: [] });
+    expect(routed.headers.get('x-cpa-upstream')).toBe('minimax');
+    expect(routed.headers.get('x-cpa-route')).toBe('haiku');
+    await post(url, { model: 'glm-large', messages: [] });
+
+    expect(primary.requests).toHaveLength(0);
+    expect(backup.requests.map(request => request.body.model)).toEqual(['mm-small', 'mm-turbo']);
+    expect(dispatched).toMatchObject([
+      { model: 'glm-small', route: 'haiku', platform: 'minimax', upstreamModel: 'mm-small', status: 200, failover: false },
+      { model: 'glm-large', route: 'glm-large', platform: 'minimax', upstreamModel: 'mm-turbo', status: 200, failover: false }
+    ]);
+  });
+
+  it('should fail over from a routed platform to the failover order', async () => {
+    const primary = await track(respond(200));
+    const backup = await track(respond(503));
+    const dispatched: any[] = [];
+    const url = await startGateway([upstream('glm', primary.url, 'glm'), upstream('minimax', backup.url, 'mm')], {
+      routes: { haiku: { platform: 'minimax' }, opus: { platform: 'zai' } },
+      onDispatch: entry => dispatched.push(entry)
+    });
+
+    const response = await post(url, { model: 'glm-small', messages: [] });
+    expect(response.headers.get('x-cpa-upstream')).toBe('glm');
+    expect(response.headers.get('x-cpa-route')).toBeNull();
+    expect(primary.requests[0].body.model).toBe('glm-small');
+    expect(dispatched[0]).toMatchObject({ platform: 'glm', failover: true });
+    expect(dispatched[0].route).toBeUndefined();
+
+    // Routes to platforms without an upstream are ignored
+    await post(url, { model: 'glm-large', messages: [] });
+    expect(primary.requests).toHaveLength(2);
+    expect(backup.requests).toHaveLength(1);
+  });
+
+  it('should rotate pooled keys and rest a rate-limited key', async () => {
+    const limited = new Set(['glm-key']);
+    const server = await track((res) => {
+      const key = server.requests[server.requests.length - 1].headers['x-api-key'] as string;
+      if (limited.has(key)) {
+        res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '120' });
+        res.end(JSON.stringify({ error: { message: 'Rate limit reached' } }));
+      } else {
+        respond(200)(res);
+      }
+    });
+    const pooled = { ...upstream('glm', server.url, 'glm'), pooledKeys: [{ name: 'seat-2', apiKey: 'seat-2-key' }] };
+    const dispatched: any[] = [];
+    const url = await startGateway([pooled], { onDispatch: entry => dispatched.push(entry) });
+
+    const first = await post(url, { model: 'glm-large', messages: [] });
+    expect(first.status).toBe(200);
+    expect(server.requests.map(request => request.headers['x-api-key'])).toEqual(['glm-key', 'seat-2-key']);
+    expect(dispatched[0]).toMatchObject({ platform: 'glm', key: 'seat-2', failover: false });
+
+    // The limited key rests, so the next request goes straight to the other seat
+    await post(url, { model: 'glm-large', messages: [] });
+    expect(server.requests.map(request => request.headers['x-api-key'])).toEqual(['glm-key', 'seat-2-key', 'seat-2-key']);
+
+    const health = await (await fetch(`${url}/health`, { headers: { 'x-api-key': TOKEN } })).json() as { keys: { glm: Array<{ name: string; coolingUntil?: string }> } };
+    expect(health.keys.glm[0].name).toBe('default');
+    expect(health.keys.glm[0].coolingUntil).toBeDefined();
+    expect(health.keys.glm[1]).toEqual({ name: 'seat-2' });
+  });
+
+  it('should fail over once every key of a platform is cooling down', async () => {
+    const primary = await track(respond(429, { error: { message: 'quota exhausted' } }));
+    const backup = await track(respond(200));
+    const url = await startGateway([upstream('glm', primary.url, 'glm'), upstream('minimax', backup.url, 'mm')]);
+
+    await post(url, { model: 'glm-large', messages: [] });
+    await post(url, { model: 'glm-large', messages: [] });
+    expect(primary.requests).toHaveLength(1);
+    expect(backup.requests).toHaveLength(2);
+  });
+
+  it('should reject invalid JSON bodies', async () => {
+    const url = await startGateway([upstream('glm', 'http://127.0.0.1:1', 'glm')]);
+    const response = await fetch(`${url}/v1/messages`, { method: 'POST', headers: { 'x-api-key': TOKEN }, body: '{' });
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject requests without the gateway token', async () => {
+    const primary = await track(respond(200));
+    const url = await startGateway([upstream('glm', primary.url, 'glm')]);
+
+    const missing = await fetch(`${url}/v1/messages`, { method: 'POST', body: '{}' });
+    expect(missing.status).toBe(401);
+    const wrong = await fetch(`${url}/v1/messages`, { method: 'POST', headers: { 'x-api-key': 'cpa-gateway' }, body: '{}' });
+    expect(wrong.status).toBe(401);
+    expect((await fetch(`${url}/health`)).status).toBe(401);
+    expect(primary.requests).toHaveLength(0);
+  });
+
+  it('should reject browser requests', async () => {
+    const primary = await track(respond(200));
+    const url = await startGateway([upstream('glm', primary.url, 'glm')]);
+
+    const response = await fetch(`${url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'x-api-key': TOKEN, 'content-type': 'text/plain', origin: 'https://evil.example' },
+      body: '{}'
+    });
+    expect(response.status).toBe(403);
+    expect(primary.requests).toHaveLength(0);
+  });
+
+  it('should only forward the Messages endpoints', async () => {
+    const primary = await track(respond(200));
+    const url = await startGateway([upstream('glm', primary.url, 'glm')]);
+    const headers = { 'x-api-key': TOKEN };
+
+    expect((await fetch(`${url}/v1/models`, { headers })).status).toBe(404);
+    expect((await fetch(`${url}/v1/files`, { method: 'POST', headers, body: '{}' })).status).toBe(404);
+    expect((await fetch(`${url}/v1/messages`, { method: 'DELETE', headers })).status).toBe(404);
+    expect(primary.requests).toHaveLength(0);
+
+    const counted = await fetch(`${url}/v1/messages/count_tokens?beta=true`, { method: 'POST', headers, body: '{}' });
+    expect(counted.status).toBe(200);
+    expect(primary.requests[0].url).toBe('/v1/messages/count_tokens?beta=true');
+  });
+});
@@ -0,0 +1,43 @@
+import { vi } from 'vitest';
+
+/**
+ * Fake home directory whose files live in memory, for tests of code that keeps
+ * its state under `~/.unified-coding-helper`. Importing this module points
+ * os.homedir() at TEST_HOME and serves file calls below it from `files`;
+ * other paths (locales, provider definitions) are still read from disk. It
+ * must be imported before the modules under test.
+ */
+export const TEST_HOME = '/home/testuser';
+export const files = new Map<string, string>();
+
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = (await importOriginal<{ default: typeof import('node:fs') }>()).default;
+  const isStatePath = (p: string) => p.startsWith(TEST_HOME);
+  const mocked = {
+    ...actual,
+    existsSync: (p: string) => isStatePath(p) ? p.endsWith('.unified-coding-helper') || files.has(p) : actual.existsSync(p),
+    readFileSync: (p: string, encoding: BufferEncoding) => {
+      if (!isStatePath(p)) return actual.readFileSync(p, encoding);
+      if (!files.has(p)) throw new Error(`ENOENT: ${p}`);
+      return files.get(p);
+    },
+    writeFileSync: (p: string, content: string) => {
+      files.set(p, content);
+    },
+    appendFileSync: (p: string, content: string) => {
+      files.set(p, (files.get(p) || '') + content);
+    },
+    renameSync: (from: string, to: string) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    },
+    statSync: (p: string) => isStatePath(p) ? { size: (files.get(p) || '').length } : actual.statSync(p),
+    mkdirSync: () => undefined
+  };
+  return { ...mocked, default: mocked };
+});
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = (await importOriginal<{ default: typeof import('node:os') }>()).default;
+  return { default: { ...actual, homedir: () => TEST_HOME } };
+});
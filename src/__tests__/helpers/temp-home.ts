@@ -0,0 +1,21 @@
+import { afterAll, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Throwaway home directory for tests that read and write files below `~`
+ * (tool configs, the cpa config and the credential store). Importing this
+ * module points os.homedir() at it, so it must be imported before the modules
+ * under test; a test that does not use `home` needs a bare `import` of it,
+ * since unused imports are dropped. The directory is removed after the test file.
+ */
+export const home = fs.mkdtempSync(path.join(process.env.TMPDIR || '/tmp', 'cpa-test-home-'));
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = (await importOriginal<{ default: typeof import('node:os') }>()).default;
+  return { default: { ...actual, homedir: () => home } };
+});
+
+afterAll(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { KeyPool, getCooldownMs, RATE_LIMIT_COOLDOWN_MS, QUOTA_COOLDOWN_MS } from '../lib/key-pool.js';
+
+const KEYS = [
+  { name: 'default', apiKey: 'key-a' },
+  { name: 'key-1', apiKey: 'key-b' },
+  { name: 'key-2', apiKey: 'key-c' }
+];
+
+describe('KeyPool', () => {
+  it('should rotate the starting key round-robin', () => {
+    const pool = new KeyPool(KEYS);
+    expect(pool.candidates().map(key => key.name)).toEqual(['default', 'key-1', 'key-2']);
+    expect(pool.candidates().map(key => key.name)).toEqual(['key-1', 'key-2', 'default']);
+    expect(pool.candidates().map(key => key.name)).toEqual(['key-2', 'default', 'key-1']);
+    expect(pool.candidates()[0].name).toBe('default');
+  });
+
+  it('should skip keys until their cooldown ends', () => {
+    let now = 1000;
+    const pool = new KeyPool(KEYS, () => now);
+    pool.cooldown('key-1', 5000);
+
+    expect(pool.candidates().map(key => key.name)).toEqual(['default', 'key-2']);
+    expect(pool.status()).toEqual([
+      { name: 'default' },
+      { name: 'key-1', coolingUntil: new Date(6000).toISOString() },
+      { name: 'key-2' }
+    ]);
+
+    now = 6000;
+    expect(pool.candidates().map(key => key.name)).toEqual(['key-1', 'key-2', 'default']);
+  });
+
+  it('should only hand out a cooling key when forced', () => {
+    const pool = new KeyPool(KEYS, () => 0);
+    pool.cooldown('default', 3000);
+    pool.cooldown('key-1', 1000);
+    pool.cooldown('key-2', 2000);
+
+    expect(pool.candidates()).toEqual([]);
+    expect(pool.candidates(true).map(key => key.name)).toEqual(['key-1']);
+  });
+
+  it('should reject an empty pool', () => {
+    expect(() => new KeyPool([])).toThrow();
+  });
+});
+
+describe('getCooldownMs', () => {
+  it('should honour Retry-After in seconds or as a date', () => {
+    expect(getCooldownMs('30')).toBe(30000);
+    expect(getCooldownMs(new Date(90000).toUTCString(), '', 60000)).toBe(30000);
+  });
+
+  it('should rest quota errors longer than rate limits', () => {
+    expect(getCooldownMs(null, '{"error":{"message":"Rate limit reached"}}')).toBe(RATE_LIMIT_COOLDOWN_MS);
+    expect(getCooldownMs(null, '{"error":{"message":"Usage limit reached for 5 hour window"}}')).toBe(QUOTA_COOLDOWN_MS);
+    expect(getCooldownMs(undefined, '已达到 5 小时的使用上限')).toBe(QUOTA_COOLDOWN_MS);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import inquirer from 'inquirer';
+import { home } from './helpers/temp-home.js';
+import { toolManager, API_KEY_HELPER_CREDENTIAL } from '../lib/tool-manager.js';
+import { configManager, DEFAULT_KEY_ROTATION_DAYS } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { secureCredentialManager } from '../lib/secure-credential-manager.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+import { handleAuthRotate } from '../commands/auth.js';
+
+const OLD_KEY = 'sk-old-0123456789abcdef';
+const NEW_KEY = 'sk-new-fedcba9876543210';
+const PASSWORD = 'test-password';
+const claudeSettings = path.join(home, '.claude', 'settings.json');
+const continueConfig = path.join(home, '.continue', 'config.json');
+const bashrc = path.join(home, '.bashrc');
+
+describe('Key rotation', () => {
+  beforeAll(() => {
+    fs.mkdirSync(path.dirname(claudeSettings), { recursive: true });
+    fs.mkdirSync(path.dirname(continueConfig), { recursive: true });
+    fs.writeFileSync(claudeSettings, JSON.stringify({
+      theme: 'dark',
+      env: { ANTHROPIC_AUTH_TOKEN: OLD_KEY, ANTHROPIC_BASE_URL: 'http://127.0.0.1:8788/claude-code/anthropic' }
+    }));
+    fs.writeFileSync(continueConfig, JSON.stringify({ models: [{ title: 'other', apiKey: 'sk-unrelated' }] }));
+  });
+
+  it('should replace the old key in every file and stored credential that holds it', async () => {
+    const vscodeSettings = toolManager.getVSCodeSettingsPath()!;
+    fs.mkdirSync(path.dirname(vscodeSettings), { recursive: true });
+    fs.writeFileSync(vscodeSettings, JSON.stringify({ 'cline.apiKey': OLD_KEY }));
+    fs.writeFileSync(bashrc, `alias ll='ls -l'\nexport GLM_KEY='${OLD_KEY}'\n`);
+    configManager.setApiKey('glm', OLD_KEY, PASSWORD);
+    secureCredentialManager.setCredential('glm', 'claude-code', API_KEY_HELPER_CREDENTIAL, OLD_KEY, 'env');
+
+    const prompt = vi.spyOn(wizard, 'promptMasterPassword').mockResolvedValue(PASSWORD);
+    const input = vi.spyOn(inquirer, 'prompt').mockResolvedValue({ apiKey: NEW_KEY });
+    const validate = vi.spyOn(platformManager, 'validateApiKey').mockResolvedValue({ status: 'valid', valid: true, plan: 'global', latencyMs: 1 } as any);
+    const success = vi.spyOn(logger, 'success').mockImplementation(() => {});
+    await handleAuthRotate(['glm']);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(configManager.getApiKey('glm', PASSWORD)).toBe(NEW_KEY);
+    expect(JSON.parse(fs.readFileSync(claudeSettings, 'utf-8'))).toEqual({
+      theme: 'dark',
+      env: { ANTHROPIC_AUTH_TOKEN: NEW_KEY, ANTHROPIC_BASE_URL: 'http://127.0.0.1:8788/claude-code/anthropic' }
+    });
+    expect(JSON.parse(fs.readFileSync(vscodeSettings, 'utf-8'))).toEqual({ 'cline.apiKey': NEW_KEY });
+    expect(fs.readFileSync(bashrc, 'utf-8')).toBe(`alias ll='ls -l'\nexport GLM_KEY='${NEW_KEY}'\n`);
+    expect(secureCredentialManager.getCredential('glm', 'claude-code', API_KEY_HELPER_CREDENTIAL)).toBe(NEW_KEY);
+    // A config without the key is left as it was
+    expect(JSON.parse(fs.readFileSync(continueConfig, 'utf-8'))).toEqual({ models: [{ title: 'other', apiKey: 'sk-unrelated' }] });
+    prompt.mockRestore();
+    input.mockRestore();
+    validate.mockRestore();
+    success.mockRestore();
+  });
+
+  it('should record when a platform key was stored', () => {
+    configManager.setApiKey('glm', NEW_KEY, 'test-password');
+    const now = Date.now();
+    expect(configManager.getApiKeyAgeDays('glm', now)).toBe(0);
+    expect(configManager.getApiKeyAgeDays('glm', now + 100 * 24 * 60 * 60 * 1000)).toBe(100);
+    expect(configManager.getApiKey('glm', 'test-password')).toBe(NEW_KEY);
+    expect(configManager.getAuthConfig().keyRotationDays).toBe(DEFAULT_KEY_ROTATION_DAYS);
+  });
+
+  it('should not rotate without a master password', async () => {
+    const prompt = vi.spyOn(wizard, 'promptMasterPassword').mockResolvedValue(undefined);
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    await handleAuthRotate(['glm']);
+    expect(error).toHaveBeenCalledWith(i18n.t('auth.password_required'));
+    expect(process.exitCode).toBe(1);
+    expect(configManager.getApiKey('glm', 'test-password')).toBe(NEW_KEY);
+    process.exitCode = undefined;
+    prompt.mockRestore();
+    error.mockRestore();
+  });
+});
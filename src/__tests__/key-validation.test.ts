@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import './helpers/temp-home.js';
+import { classifyProbeResponse, classifyNetworkError, describeKeyValidation } from '../lib/key-validation.js';
+import { platformManager } from '../lib/platform-manager.js';
+
+function fetchError(code: string, message = 'fetch failed'): Error {
+  return Object.assign(new TypeError(message), { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe('Key Validation', () => {
+  describe('classifyProbeResponse', () => {
+    it('should treat 2xx as valid', () => {
+      expect(classifyProbeResponse(200, '')).toBe('valid');
+      expect(classifyProbeResponse(204, '')).toBe('valid');
+    });
+
+    it('should distinguish a rejected key from an empty balance', () => {
+      expect(classifyProbeResponse(401, '{"error":"invalid api key"}')).toBe('unauthorized');
+      expect(classifyProbeResponse(403, '{"error":"Insufficient balance"}')).toBe('insufficient_balance');
+      expect(classifyProbeResponse(402, '')).toBe('insufficient_balance');
+      expect(classifyProbeResponse(429, '余额不足或无可用资源包')).toBe('insufficient_balance');
+    });
+
+    it('should report rate limits and other statuses', () => {
+      expect(classifyProbeResponse(429, 'Too many requests')).toBe('rate_limited');
+      expect(classifyProbeResponse(500, '')).toBe('http_error');
+      expect(classifyProbeResponse(404, '')).toBe('http_error');
+    });
+  });
+
+  describe('classifyNetworkError', () => {
+    it('should detect certificate problems', () => {
+      const result = classifyNetworkError(fetchError('SELF_SIGNED_CERT_IN_CHAIN'));
+      expect(result.status).toBe('tls_error');
+      expect(result.message).toContain('SELF_SIGNED_CERT_IN_CHAIN');
+    });
+
+    it('should report timeouts and connection failures as network errors', () => {
+      const timeout = Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+      expect(classifyNetworkError(timeout)).toEqual({ status: 'network_error', message: 'request timed out' });
+      expect(classifyNetworkError(fetchError('ENOTFOUND')).status).toBe('network_error');
+    });
+  });
+
+  describe('unknown platforms', () => {
+    it('should not report a missing platform as an HTTP error', async () => {
+      const result = await platformManager.validateApiKey('no-such-platform', 'sk-test');
+      expect(result.status).toBe('unknown_platform');
+      expect(describeKeyValidation(result)).toContain('no-such-platform');
+    });
+  });
+});
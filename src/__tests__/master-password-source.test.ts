@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { MASTER_PASSWORD_ENV, readPasswordFile, readPasswordStdin, readProvidedMasterPassword } from '../lib/master-password.js';
+import { AppError, ErrorCode, ValidationError } from '../lib/errors.js';
+
+const dir = `/tmp/cpa-master-password-source-test-${process.pid}`;
+const passwordFile = path.join(dir, 'password');
+
+describe('Master password sources', () => {
+  beforeAll(() => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(passwordFile, 'from-file\nignored\n', { mode: 0o600 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read the first line of a password file', () => {
+    expect(readPasswordFile(passwordFile)).toBe('from-file');
+  });
+
+  it('should report a missing password file as a read failure', () => {
+    expect(() => readPasswordFile(path.join(dir, 'missing'))).toThrow(AppError);
+    try {
+      readPasswordFile(path.join(dir, 'missing'));
+    } catch (error) {
+      expect((error as AppError).code).toBe(ErrorCode.FILE_READ_FAILED);
+    }
+  });
+
+  it('should strip one trailing newline from stdin', async () => {
+    await expect(readPasswordStdin(Readable.from(['pass word\n']))).resolves.toBe('pass word');
+  });
+
+  it('should prefer the password file over the argument and the environment', async () => {
+    const provided = await readProvidedMasterPassword(
+      { passwordFile, password: 'from-argument' },
+      { [MASTER_PASSWORD_ENV]: 'from-env' }
+    );
+    expect(provided).toEqual({ password: 'from-file', source: 'file' });
+  });
+
+  it('should prefer the argument over the environment', async () => {
+    const provided = await readProvidedMasterPassword({ password: 'from-argument' }, { [MASTER_PASSWORD_ENV]: 'from-env' });
+    expect(provided).toEqual({ password: 'from-argument', source: 'argument' });
+  });
+
+  it('should fall back to the environment and then to nothing', async () => {
+    await expect(readProvidedMasterPassword({}, { [MASTER_PASSWORD_ENV]: 'from-env' })).resolves.toEqual({ password: 'from-env', source: 'env' });
+    await expect(readProvidedMasterPassword({}, {})).resolves.toBeUndefined();
+  });
+
+  it('should reject --password-stdin together with --password-file', async () => {
+    await expect(readProvidedMasterPassword({ passwordStdin: true, passwordFile }, {})).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { files, TEST_HOME } from './helpers/memory-home.js';
+
+import { configManager } from '../lib/config.js';
+import { encrypt } from '../lib/crypto.js';
+import { AuthError } from '../lib/errors.js';
+
+const CONFIG_FILE = `${TEST_HOME}/.unified-coding-helper/config.yaml`;
+
+function loadConfig(yaml: string): void {
+  files.clear();
+  files.set(CONFIG_FILE, yaml);
+  configManager.loadConfig();
+}
+
+describe('Master Password', () => {
+  beforeEach(() => {
+    loadConfig('lang: en_US\nglm: {}\nminimax: {}\n');
+  });
+
+  it('should let the first stored key set the master password', () => {
+    expect(configManager.hasMasterPassword()).toBe(false);
+    expect(configManager.verifyMasterPassword('anything')).toBe(true);
+    expect(configManager.verifyMasterPassword('')).toBe(false);
+
+    configManager.setApiKey('glm', 'glm-key', 'secret');
+
+    expect(configManager.hasMasterPassword()).toBe(true);
+    expect(configManager.getConfig().master_password_hash).toBeDefined();
+    expect(files.get(CONFIG_FILE)).not.toContain('secret');
+    expect(configManager.verifyMasterPassword('secret')).toBe(true);
+    expect(configManager.verifyMasterPassword('anything')).toBe(false);
+  });
+
+  it('should reject a wrong password before encrypting or decrypting', () => {
+    configManager.setMasterPassword('secret');
+    configManager.setApiKey('glm', 'glm-key', 'secret');
+
+    expect(() => configManager.setApiKey('minimax', 'minimax-key', 'wrong')).toThrow(AuthError);
+    expect(() => configManager.addPooledKey('glm', 'key-1', 'pooled-key', 'wrong')).toThrow(AuthError);
+    expect(configManager.getPlatformConfig('minimax').encrypted_api_key).toBeUndefined();
+    expect(configManager.getKeyPool('glm')).toEqual([]);
+
+    expect(configManager.getApiKey('glm', 'wrong')).toBeUndefined();
+    expect(configManager.getApiKey('glm', 'secret')).toBe('glm-key');
+  });
+
+  it('should check configs without a verifier against an existing key and add one', () => {
+    loadConfig(`lang: en_US\nglm:\n  encrypted_api_key: ${encrypt('glm-key', 'secret')}\nminimax: {}\n`);
+
+    expect(configManager.hasMasterPassword()).toBe(true);
+    expect(configManager.verifyMasterPassword('wrong')).toBe(false);
+    expect(configManager.getConfig().master_password_hash).toBeUndefined();
+
+    expect(configManager.verifyMasterPassword('secret')).toBe(true);
+    expect(configManager.getConfig().master_password_hash).toBeDefined();
+    expect(files.get(CONFIG_FILE)).toContain('master_password_hash');
+  });
+
+  it('should re-encrypt every stored key with a new password', () => {
+    configManager.setApiKey('glm', 'glm-key', 'old-secret');
+    configManager.addPooledKey('glm', 'key-1', 'pooled-key', 'old-secret');
+    configManager.setProfile('work', { platform: 'minimax', plan: 'global' });
+    configManager.setProfileApiKey('work', 'work-key', 'old-secret');
+
+    expect(configManager.changeMasterPassword('old-secret', 'new-secret')).toBe(3);
+
+    expect(configManager.verifyMasterPassword('old-secret')).toBe(false);
+    expect(configManager.verifyMasterPassword('new-secret')).toBe(true);
+    expect(configManager.getApiKey('glm', 'new-secret')).toBe('glm-key');
+    expect(configManager.decryptKeyPool('glm', 'new-secret')).toEqual([{ name: 'key-1', apiKey: 'pooled-key' }]);
+    expect(configManager.decryptCredentials(configManager.resolveCredentials(undefined, 'work'), 'new-secret')).toBe('work-key');
+
+    // The new ciphertexts are on disk, and no temporary file is left behind
+    loadConfig(files.get(CONFIG_FILE)!);
+    expect(configManager.getApiKey('glm', 'new-secret')).toBe('glm-key');
+    expect([...files.keys()]).toEqual([CONFIG_FILE]);
+  });
+
+  it('should change nothing when a key does not decrypt or the old password is wrong', () => {
+    loadConfig(`lang: en_US\nglm:\n  encrypted_api_key: ${encrypt('glm-key', 'secret')}\nminimax:\n  encrypted_api_key: ${encrypt('minimax-key', 'other')}\n`);
+
+    expect(() => configManager.changeMasterPassword('wrong', 'new-secret')).toThrow(AuthError);
+    expect(() => configManager.changeMasterPassword('secret', 'new-secret')).toThrow('minimax API key');
+
+    loadConfig(files.get(CONFIG_FILE)!);
+    expect(configManager.verifyMasterPassword('secret')).toBe(true);
+    expect(configManager.getApiKey('glm', 'secret')).toBe('glm-key');
+    expect(configManager.getApiKey('glm', 'new-secret')).toBeUndefined();
+  });
+});
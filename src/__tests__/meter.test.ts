@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { files, TEST_HOME } from './helpers/memory-home.js';
+
+vi.mock('../lib/config.js', () => ({
+  configManager: {
+    getNetworkConfig: () => ({})
+  }
+}));
+
+import { Meter, UsageParser } from '../lib/meter.js';
+import { usageStore, type UsageRecord } from '../lib/usage-store.js';
+import type { BudgetConfig } from '../types/config.js';
+
+const USAGE_FILE = `${TEST_HOME}/.unified-coding-helper/usage.jsonl`;
+const PROXY_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    tool: 'claude-code',
+    platform: 'glm',
+    protocol: 'anthropic',
+    model: 'glm-4.6',
+    status: 200,
+    stream: false,
+    durationMs: 100,
+    inputTokens: 0,
+    outputTokens: 0,
+    ...overrides
+  };
+}
+
+describe('UsageParser', () => {
+  it('should read usage from Anthropic events split across chunks', () => {
+    const parser = new UsageParser(true);
+    const stream = [
+      'event: message_start\ndata: {"type":"message_start","message":{"model":"glm-4.6","usage":{"input_tokens":120,"cache_read_input_tokens":80,"output_tokens":1}}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":"hi"}}\n\n',
+      'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":42}}\n\n'
+    ].join('');
+    for (let i = 0; i < stream.length; i += 37) {
+      parser.push(encode(stream.slice(i, i + 37)));
+    }
+
+    expect(parser.finish()).toEqual({ model: 'glm-4.6', inputTokens: 120, outputTokens: 42, cacheReadTokens: 80, cacheWriteTokens: 0 });
+  });
+
+  it('should read usage from OpenAI streams and JSON bodies', () => {
+    const stream = new UsageParser(true);
+    stream.push(encode('data: {"model":"glm-4.6","choices":[{"delta":{"content":"hi"}}]}\n\n'));
+    stream.push(encode('data: {"model":"glm-4.6","choices":[],"usage":{"prompt_tokens":30,"completion_tokens":7,"prompt_tokens_details":{"cached_tokens":10}}}\n\ndata: [DONE]\n\n'));
+    expect(stream.finish()).toMatchObject({ model: 'glm-4.6', inputTokens: 30, outputTokens: 7, cacheReadTokens: 10 });
+
+    const json = new UsageParser(false);
+    json.push(encode('{"model":"MiniMax-M2","usage":'));
+    json.push(encode('{"input_tokens":5,"output_tokens":3}}'));
+    expect(json.finish()).toMatchObject({ model: 'MiniMax-M2', inputTokens: 5, outputTokens: 3 });
+  });
+});
+
+describe('UsageStore', () => {
+  beforeEach(() => {
+    files.clear();
+  });
+
+  it('should group records by tool, model and day', () => {
+    const records = [
+      record({ tool: 'claude-code', model: 'a', inputTokens: 10, outputTokens: 5, timestamp: '2026-03-02T12:00:00' }),
+      record({ tool: 'opencode', model: 'a', inputTokens: 100, outputTokens: 50, timestamp: '2026-03-01T12:00:00' }),
+      record({ tool: 'claude-code', model: 'b', inputTokens: 1, outputTokens: 1, timestamp: '2026-03-01T13:00:00' })
+    ];
+
+    expect(usageStore.summarize(records, 'tool').map(row => [row.key, row.requests, row.totalTokens])).toEqual([
+      ['opencode', 1, 150],
+      ['claude-code', 2, 17]
+    ]);
+    expect(usageStore.summarize(records, 'model')[0]).toEqual({ key: 'a', requests: 2, inputTokens: 110, outputTokens: 55, totalTokens: 165 });
+    expect(usageStore.summarize(records, 'day').map(row => row.key)).toEqual(['2026-03-01', '2026-03-02']);
+  });
+
+  it('should count only today against budgets and notice other writers', () => {
+    usageStore.append(record({ inputTokens: 600, outputTokens: 100 }));
+    usageStore.append(record({ tool: 'opencode', inputTokens: 200, outputTokens: 0 }));
+    usageStore.append(record({ timestamp: '2020-01-01T00:00:00Z', inputTokens: 5000 }));
+    const budget: BudgetConfig = { dailyTokens: 1000, tools: { 'claude-code': 700 } };
+
+    expect(usageStore.getBudgetStatus(budget)).toEqual([
+      { scope: 'all', limit: 1000, used: 900, exceeded: false },
+      { scope: 'claude-code', limit: 700, used: 700, exceeded: true }
+    ]);
+
+    // Another meter process appends to the same log
+    files.set(USAGE_FILE, files.get(USAGE_FILE) + JSON.stringify(record({ tool: 'opencode', inputTokens: 100 })) + '\n');
+    expect(usageStore.getBudgetStatus(budget, 'opencode')).toEqual([
+      { scope: 'all', limit: 1000, used: 1000, exceeded: true }
+    ]);
+  });
+});
+
+describe('Meter', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  let upstream: http.Server;
+  let upstreamUrl: string;
+  let requests: Array<{ url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+  let reply: (res: http.ServerResponse, body: any) => void;
+  let meter: Meter | undefined;
+
+  beforeEach(async () => {
+    files.clear();
+    for (const name of PROXY_VARS) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    requests = [];
+    upstream = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : undefined;
+        requests.push({ url: req.url, headers: req.headers, body });
+        reply(res, body);
+      });
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', () => resolve()));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await meter?.stop();
+    meter = undefined;
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+    for (const name of PROXY_VARS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  async function startMeter(budget?: BudgetConfig): Promise<string> {
+    meter = new Meter({
+      port: 0,
+      platform: 'glm',
+      baseUrls: { anthropic: `${upstreamUrl}/api/anthropic`, openai: `${upstreamUrl}/api/paas/v4` },
+      project: 'default-project',
+      budget
+    });
+    return `http://127.0.0.1:${await meter.start()}`;
+  }
+
+  function storedRecords(): UsageRecord[] {
+    return usageStore.readRecords();
+  }
+
+  it('should forward Anthropic requests with their credentials and record usage', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ model: 'glm-4.6', usage: { input_tokens: 12, output_tokens: 8 } }));
+    };
+    const url = await startMeter();
+
+    const response = await fetch(`${url}/claude-code/anthropic/v1/messages?beta=true`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'real-key', 'x-cpa-project': 'webapp' },
+      body: JSON.stringify({ model: 'glm-4.6', messages: [] })
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ usage: { input_tokens: 12 } });
+
+    expect(requests[0].url).toBe('/api/anthropic/v1/messages?beta=true');
+    expect(requests[0].headers['x-api-key']).toBe('real-key');
+    expect(requests[0].headers['x-cpa-project']).toBeUndefined();
+    expect(storedRecords()).toMatchObject([
+      { tool: 'claude-code', platform: 'glm', protocol: 'anthropic', model: 'glm-4.6', project: 'webapp', inputTokens: 12, outputTokens: 8, stream: false }
+    ]);
+  });
+
+  it('should ask OpenAI streams for usage and record it', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"model":"glm-4.6","choices":[{"delta":{"content":"hi"}}]}\n\n');
+      res.write('data: {"model":"glm-4.6","choices":[],"usage":{"prompt_tokens":30,"completion_tokens":7}}\n\n');
+      res.end('data: [DONE]\n\n');
+    };
+    const url = await startMeter();
+
+    const response = await fetch(`${url}/opencode/openai/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer real-key' },
+      body: JSON.stringify({ model: 'glm-4.6', stream: true, messages: [] })
+    });
+    expect(await response.text()).toContain('[DONE]');
+
+    expect(requests[0].url).toBe('/api/paas/v4/chat/completions');
+    expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+    expect(storedRecords()).toMatchObject([
+      { tool: 'opencode', protocol: 'openai', project: 'default-project', inputTokens: 30, outputTokens: 7, stream: true }
+    ]);
+  });
+
+  it('should not record failed requests', async () => {
+    reply = (res) => {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'bad key' } }));
+    };
+    const url = await startMeter();
+
+    const response = await fetch(`${url}/claude-code/anthropic/v1/messages`, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(401);
+    expect(storedRecords()).toEqual([]);
+  });
+
+  it('should block requests once a budget is spent when configured to', async () => {
+    usageStore.append(record({ tool: 'claude-code', inputTokens: 1000 }));
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    };
+
+    let url = await startMeter({ tools: { 'claude-code': 500 }, action: 'block' });
+    const blocked = await fetch(`${url}/claude-code/anthropic/v1/messages`, { method: 'POST', body: '{}' });
+    expect(blocked.status).toBe(429);
+    expect((await blocked.json() as { error: { type: string } }).error.type).toBe('rate_limit_error');
+    expect(requests).toHaveLength(0);
+
+    // Other tools are not limited by this budget
+    const other = await fetch(`${url}/opencode/openai/chat/completions`, { method: 'POST', body: '{}' });
+    expect(other.status).toBe(200);
+
+    await meter!.stop();
+    url = await startMeter({ tools: { 'claude-code': 500 }, action: 'warn' });
+    const warned = await fetch(`${url}/claude-code/anthropic/v1/messages`, { method: 'POST', body: '{}' });
+    expect(warned.status).toBe(200);
+  });
+
+  it('should reject paths without a tool and protocol', async () => {
+    const url = await startMeter();
+    const response = await fetch(`${url}/v1/messages`, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(404);
+  });
+});
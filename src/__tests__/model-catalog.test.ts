@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { files } from './helpers/memory-home.js';
+
+const { fetchModels } = vi.hoisted(() => ({ fetchModels: vi.fn() }));
+
+vi.mock('../lib/platform-manager.js', () => {
+  const acme = {
+    id: 'acme',
+    models: ['acme-coder', 'acme-coder-fast'],
+    defaultModel: 'acme-coder',
+    fetchModels,
+    getModelInfo: (model: string) => model === 'acme-coder' ? { contextLength: 200000, maxOutputTokens: 64000 } : undefined
+  };
+  return {
+    platformManager: {
+      getPlatform: (id: string) => id === 'acme' ? acme : undefined,
+      getAllPlatforms: () => [acme]
+    }
+  };
+});
+
+import { modelCatalog } from '../lib/model-catalog.js';
+
+describe('Model Catalog', () => {
+  beforeEach(() => {
+    files.clear();
+    fetchModels.mockReset();
+  });
+
+  it('should use the built-in list when nothing is cached', () => {
+    const entry = modelCatalog.getEntry('acme');
+    expect(entry.source).toBe('builtin');
+    expect(entry.models).toEqual(['acme-coder', 'acme-coder-fast']);
+  });
+
+  it('should cache a live listing with a timestamp', async () => {
+    fetchModels.mockResolvedValue(['acme-coder-2', 'acme-coder-2-fast']);
+
+    const refreshed = await modelCatalog.refresh('acme', 'global', 'key');
+    expect(refreshed.source).toBe('live');
+    expect(refreshed.fetchedAt).toBeDefined();
+
+    const cached = modelCatalog.getEntry('acme');
+    expect(cached.source).toBe('cache');
+    expect(cached.fetchedAt).toBe(refreshed.fetchedAt);
+    expect(cached.models).toEqual(['acme-coder-2', 'acme-coder-2-fast']);
+  });
+
+  it('should fall back to the built-in list when offline', async () => {
+    fetchModels.mockRejectedValue(new Error('fetch failed'));
+
+    const entry = await modelCatalog.refresh('acme', 'global', 'key');
+    expect(entry.source).toBe('builtin');
+    expect(entry.error).toBe('fetch failed');
+    expect(entry.models).toEqual(['acme-coder', 'acme-coder-fast']);
+  });
+
+  it('should keep the previous cache when a refresh fails', async () => {
+    fetchModels.mockResolvedValueOnce(['acme-coder-2']);
+    await modelCatalog.refresh('acme', 'global', 'key');
+
+    fetchModels.mockRejectedValueOnce(new Error('HTTP 503 - Service Unavailable'));
+    const entry = await modelCatalog.refresh('acme', 'global', 'key');
+    expect(entry.source).toBe('cache');
+    expect(entry.models).toEqual(['acme-coder-2']);
+  });
+
+  it('should report tier models missing from the catalog', () => {
+    expect(modelCatalog.getUnknownModels('acme', { opus: 'acme-coder', haiku: 'acme-legacy' })).toEqual(['acme-legacy']);
+    expect(modelCatalog.isKnownModel('acme', 'acme-coder-fast')).toBe(true);
+  });
+
+  it('should find model metadata across platforms', () => {
+    expect(modelCatalog.findModel('acme-coder')).toEqual([
+      { platform: 'acme', model: 'acme-coder', info: { contextLength: 200000, maxOutputTokens: 64000 } }
+    ]);
+    // Listed models without metadata are still found
+    expect(modelCatalog.findModel('acme-coder-fast')).toEqual([{ platform: 'acme', model: 'acme-coder-fast', info: undefined }]);
+    expect(modelCatalog.findModel('other')).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/logger.js', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), success: vi.fn(), warning: vi.fn(), error: vi.fn() }
+}));
+
+import { runWithEnvironment } from '../lib/process-runner.js';
+
+describe('runWithEnvironment', () => {
+  it('passes the variables to the child and returns its exit code', async () => {
+    const code = await runWithEnvironment('sh', ['-c', 'test "$CPA_RUN_TEST" = "a b" && exit 7'], { CPA_RUN_TEST: 'a b' });
+    expect(code).toBe(7);
+    expect(process.env.CPA_RUN_TEST).toBeUndefined();
+  });
+
+  it('re-raises the signal that killed the child', async () => {
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    expect(await runWithEnvironment('sh', ['-c', 'kill -TERM $$'], {})).toBe(143);
+    expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    kill.mockRestore();
+  });
+
+  it('outlives a Ctrl+C meant for the child', async () => {
+    const listeners = process.listenerCount('SIGINT');
+    const run = runWithEnvironment('sh', ['-c', 'sleep 0.3; exit 5'], {});
+    process.kill(process.pid, 'SIGINT');
+    expect(await run).toBe(5);
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+
+  it('returns 127 when the command does not exist', async () => {
+    expect(await runWithEnvironment('cpa-no-such-command', [], {})).toBe(127);
+  });
+});
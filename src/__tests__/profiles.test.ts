@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { files } from './helpers/memory-home.js';
+
+import { configManager } from '../lib/config.js';
+
+describe('Credential Profiles', () => {
+  beforeEach(() => {
+    files.clear();
+    configManager.loadConfig();
+    configManager.setPlatform('glm');
+    configManager.setPlan('global');
+  });
+
+  it('should store the profile key encrypted', () => {
+    configManager.setProfile('work', { platform: 'glm', plan: 'china', models: { haiku: 'glm-4.5-air' } });
+    configManager.setProfileApiKey('work', 'work-key', 'secret');
+
+    const saved = configManager.getProfile('work');
+    expect(saved?.encrypted_api_key).toBeDefined();
+    expect(JSON.stringify(saved)).not.toContain('work-key');
+
+    const credentials = configManager.resolveCredentials('glm', 'work');
+    expect(configManager.decryptCredentials(credentials, 'secret')).toBe('work-key');
+    expect(configManager.decryptCredentials(credentials, 'wrong')).toBeUndefined();
+  });
+
+  it('should resolve an explicit profile regardless of the platform argument', () => {
+    configManager.setProfile('personal', { platform: 'minimax', plan: 'global', endpoint: 'https://proxy.example' });
+
+    expect(configManager.resolveCredentials('glm', 'personal')).toMatchObject({
+      profile: 'personal',
+      platform: 'minimax',
+      endpoint: 'https://proxy.example'
+    });
+  });
+
+  it('should use the active profile only for its own platform', () => {
+    configManager.setProfile('work', { platform: 'glm', plan: 'china' });
+    configManager.useProfile('work');
+
+    expect(configManager.getActivePlatform()).toBe('glm');
+    expect(configManager.getPlan()).toBe('china');
+    expect(configManager.resolveCredentials('glm').profile).toBe('work');
+    const minimax = configManager.resolveCredentials('minimax');
+    expect(minimax.profile).toBeUndefined();
+    expect(minimax.platform).toBe('minimax');
+  });
+
+  it('should keep getApiKey on the platform section while a profile is active', () => {
+    configManager.setApiKey('glm', 'platform-key', 'secret');
+    configManager.setProfile('work', { platform: 'glm', plan: 'china' });
+    configManager.setProfileApiKey('work', 'work-key', 'secret');
+    configManager.useProfile('work');
+
+    expect(configManager.getApiKey('glm', 'secret')).toBe('platform-key');
+    expect(configManager.decryptCredentials(configManager.resolveCredentials('glm'), 'secret')).toBe('work-key');
+  });
+
+  it('should reject unknown profiles', () => {
+    expect(() => configManager.resolveCredentials('glm', 'missing')).toThrow('Profile not found: missing');
+    expect(() => configManager.useProfile('missing')).toThrow('Profile not found');
+  });
+
+  it('should clear the active profile when it is removed', () => {
+    configManager.setProfile('work', { platform: 'glm', plan: 'global' });
+    configManager.useProfile('work');
+    configManager.removeProfile('work');
+
+    expect(configManager.getActiveProfileName()).toBeUndefined();
+    expect(configManager.getProfiles()).toEqual({});
+    expect(configManager.resolveCredentials('glm').profile).toBeUndefined();
+  });
+});
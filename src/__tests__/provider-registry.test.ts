@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { renderTemplate, validateProviderDefinition } from '../lib/provider-registry.js';
+import { ProviderPlatform } from '../lib/platform-manager.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const BUILTIN_DIR = path.join(__dirname, '..', 'providers');
+
+function minimalDefinition(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'acme',
+    name: 'Acme',
+    apiDocsUrl: 'https://acme.example/docs',
+    regions: {
+      global: { anthropic: 'https://api.acme.example/anthropic' }
+    },
+    protocols: ['anthropic'],
+    models: ['acme-coder'],
+    defaultModel: 'acme-coder',
+    env: {
+      ANTHROPIC_BASE_URL: '{{anthropicBaseUrl}}',
+      ANTHROPIC_AUTH_TOKEN: '{{apiKey}}'
+    },
+    validation: {
+      url: '{{anthropicBaseUrl}}/v1/models',
+      headers: { Authorization: 'Bearer {{apiKey}}' }
+    },
+    ...overrides
+  };
+}
+
+describe('Provider Registry', () => {
+  describe('renderTemplate', () => {
+    it('should replace known placeholders', () => {
+      expect(renderTemplate('{{baseUrl}}/models', { baseUrl: 'https://x' })).toBe('https://x/models');
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+      expect(renderTemplate('Bearer {{token}}', { apiKey: 'k' })).toBe('Bearer {{token}}');
+    });
+  });
+
+  describe('validateProviderDefinition', () => {
+    it('should accept a minimal definition', () => {
+      const def = validateProviderDefinition(minimalDefinition());
+      expect(def.id).toBe('acme');
+      expect(def.regions.global?.anthropic).toBe('https://api.acme.example/anthropic');
+    });
+
+    it('should reject a missing id', () => {
+      expect(() => validateProviderDefinition(minimalDefinition({ id: undefined }))).toThrow("'id'");
+    });
+
+    it('should reject ids that collide with config keys', () => {
+      expect(() => validateProviderDefinition(minimalDefinition({ id: 'lang' }))).toThrow('reserved');
+      expect(() => validateProviderDefinition(minimalDefinition({ id: 'gateway' }))).toThrow('reserved');
+      expect(() => validateProviderDefinition(minimalDefinition({ id: 'auth' }))).toThrow('reserved');
+    });
+
+    it('should reject a definition without a global region', () => {
+      const def = minimalDefinition({ regions: { china: { anthropic: 'https://cn.acme.example' } } });
+      expect(() => validateProviderDefinition(def)).toThrow("'global'");
+    });
+
+    it('should reject endpoints for undeclared protocols', () => {
+      const def = minimalDefinition({
+        regions: { global: { anthropic: 'https://api.acme.example/anthropic', openai: 'https://api.acme.example/v1' } }
+      });
+      expect(() => validateProviderDefinition(def)).toThrow("undeclared protocol 'openai'");
+    });
+
+    it('should require a global endpoint for every declared protocol', () => {
+      const def = minimalDefinition({ protocols: ['anthropic', 'openai'] });
+      expect(() => validateProviderDefinition(def)).toThrow("no endpoint for protocol 'openai'");
+    });
+
+    it('should reject unknown protocols', () => {
+      expect(() => validateProviderDefinition(minimalDefinition({ protocols: ['grpc'] }))).toThrow('protocols');
+    });
+
+    it('should coerce YAML string values in model metadata', () => {
+      const def = validateProviderDefinition(minimalDefinition({
+        modelInfo: {
+          'acme-coder': { contextLength: '200000', maxOutputTokens: '64000', modalities: ['text', 'image'], deprecated: 'true' }
+        }
+      }));
+      expect(def.modelInfo?.['acme-coder']).toMatchObject({
+        contextLength: 200000,
+        maxOutputTokens: 64000,
+        modalities: ['text', 'image'],
+        deprecated: true
+      });
+    });
+
+    it('should reject malformed model metadata', () => {
+      const badLimit = minimalDefinition({ modelInfo: { 'acme-coder': { contextLength: 'large' } } });
+      expect(() => validateProviderDefinition(badLimit)).toThrow('contextLength');
+      const badSpeed = minimalDefinition({ modelInfo: { 'acme-coder': { speed: 'turbo' } } });
+      expect(() => validateProviderDefinition(badSpeed)).toThrow('speed');
+    });
+
+    it('should reject usage endpoints without a response mapping', () => {
+      const noMapping = minimalDefinition({ usage: { url: '{{anthropicOrigin}}/usage' } });
+      expect(() => validateProviderDefinition(noMapping)).toThrow("'windows' or 'balance'");
+      const badWindows = minimalDefinition({ usage: { url: '{{anthropicOrigin}}/usage', windows: { path: 'data' } } });
+      expect(() => validateProviderDefinition(badWindows)).toThrow("'usage.windows'");
+    });
+
+    it('should reject incomplete MCP services', () => {
+      const service = { id: 'acme-usage', name: 'Acme Usage', description: 'Query Acme usage', skill: 'acme-usage' };
+      expect(validateProviderDefinition(minimalDefinition({ mcp: [service] })).mcp).toEqual([service]);
+      expect(() => validateProviderDefinition(minimalDefinition({ mcp: [{ ...service, skill: undefined }] }))).toThrow("'mcp'");
+      expect(() => validateProviderDefinition(minimalDefinition({ mcp: [{ ...service, skill: '../x' }] }))).toThrow('skill');
+    });
+
+    it('should reject a default model that is not listed', () => {
+      expect(() => validateProviderDefinition(minimalDefinition({ defaultModel: 'other' }))).toThrow('defaultModel');
+    });
+  });
+
+  describe('protocol-aware endpoints', () => {
+    const platform = new ProviderPlatform(validateProviderDefinition(minimalDefinition({
+      regions: {
+        global: { anthropic: 'https://api.acme.example/anthropic', openai: 'https://api.acme.example/v1' },
+        china: { anthropic: 'https://api.acme.cn/anthropic' }
+      },
+      protocols: ['anthropic', 'openai'],
+      env: {
+        ANTHROPIC_BASE_URL: '{{anthropicBaseUrl}}',
+        OPENAI_BASE_URL: '{{openAiBaseUrl}}'
+      }
+    })));
+
+    it('should resolve endpoints per region and protocol', () => {
+      expect(platform.getEndpoint('china', 'anthropic')).toBe('https://api.acme.cn/anthropic');
+      // Protocols missing from a region fall back to the global endpoint
+      expect(platform.getEndpoint('china', 'openai')).toBe('https://api.acme.example/v1');
+    });
+
+    it('should use the endpoint of the requested protocol as baseUrl', () => {
+      const config = platform.getToolConfig('global', 'key', '', 'openai');
+      expect(config.protocol).toBe('openai');
+      expect(config.baseUrl).toBe('https://api.acme.example/v1');
+      expect(config.env?.ANTHROPIC_BASE_URL).toBe('https://api.acme.example/anthropic');
+    });
+
+    it('should apply an endpoint override to the Anthropic protocol only', () => {
+      const config = platform.getToolConfig('global', 'key', 'https://proxy.example', 'anthropic');
+      expect(config.baseUrl).toBe('https://proxy.example');
+      expect(config.env?.OPENAI_BASE_URL).toBe('https://api.acme.example/v1');
+    });
+
+    it('should reject protocols the provider does not speak', () => {
+      const anthropicOnly = new ProviderPlatform(validateProviderDefinition(minimalDefinition()));
+      expect(anthropicOnly.getEndpoint('global', 'openai')).toBeUndefined();
+      expect(() => anthropicOnly.getToolConfig('global', 'key', '', 'openai')).toThrow('openai');
+    });
+
+    it('should default to the first protocol the provider speaks', () => {
+      const openAiOnly = new ProviderPlatform(validateProviderDefinition(minimalDefinition({
+        regions: { global: { openai: 'https://api.acme.example/v1' } },
+        protocols: ['openai'],
+        env: { OPENAI_BASE_URL: '{{openAiBaseUrl}}', OPENAI_API_KEY: '{{apiKey}}' },
+        validation: { url: '{{openAiBaseUrl}}/models', headers: { Authorization: 'Bearer {{apiKey}}' } }
+      })));
+      const config = openAiOnly.getToolConfig('global', 'key', '');
+      expect(config.protocol).toBe('openai');
+      expect(config.baseUrl).toBe('https://api.acme.example/v1');
+    });
+
+    it('should serve a missing protocol from a local base URL such as the bridge', () => {
+      const anthropicOnly = new ProviderPlatform(validateProviderDefinition(minimalDefinition({
+        env: { ANTHROPIC_BASE_URL: '{{anthropicBaseUrl}}', OPENAI_BASE_URL: '{{openAiBaseUrl}}' }
+      })));
+      const config = anthropicOnly.getToolConfig('global', 'key', '', 'openai', undefined, { openai: 'http://127.0.0.1:8789/v1' });
+      expect(config.baseUrl).toBe('http://127.0.0.1:8789/v1');
+      expect(config.env).toEqual({
+        ANTHROPIC_BASE_URL: 'https://api.acme.example/anthropic',
+        OPENAI_BASE_URL: 'http://127.0.0.1:8789/v1'
+      });
+    });
+  });
+
+  describe('model tiers', () => {
+    const platform = new ProviderPlatform(validateProviderDefinition(minimalDefinition({
+      models: ['acme-coder', 'acme-coder-fast'],
+      env: {
+        ANTHROPIC_MODEL: '{{model}}',
+        ANTHROPIC_DEFAULT_OPUS_MODEL: '{{opusModel}}',
+        ANTHROPIC_DEFAULT_HAIKU_MODEL: '{{haikuModel}}',
+        CLAUDE_CODE_SUBAGENT_MODEL: '{{subagentModel}}'
+      }
+    })));
+
+    it('should fall back to the default model for unset tiers', () => {
+      expect(platform.resolveModelTiers({ haiku: 'acme-coder-fast' })).toEqual({
+        opus: 'acme-coder',
+        sonnet: 'acme-coder',
+        haiku: 'acme-coder-fast',
+        subagent: 'acme-coder'
+      });
+    });
+
+    it('should write each tier into its env slot', () => {
+      const config = platform.getToolConfig('global', 'key', '', 'anthropic', {
+        sonnet: 'acme-coder-fast',
+        subagent: 'acme-coder-fast'
+      });
+      expect(config.model).toBe('acme-coder-fast');
+      expect(config.env).toEqual({
+        ANTHROPIC_MODEL: 'acme-coder-fast',
+        ANTHROPIC_DEFAULT_OPUS_MODEL: 'acme-coder',
+        ANTHROPIC_DEFAULT_HAIKU_MODEL: 'acme-coder',
+        CLAUDE_CODE_SUBAGENT_MODEL: 'acme-coder-fast'
+      });
+    });
+  });
+
+  describe('built-in definitions', () => {
+    const files = fs.readdirSync(BUILTIN_DIR).filter(f => f.endsWith('.json'));
+
+    it('should ship GLM and MiniMax', () => {
+      expect(files).toContain('glm.json');
+      expect(files).toContain('minimax.json');
+    });
+
+    it.each(files)('%s should be a valid provider definition', (file) => {
+      const raw = JSON.parse(fs.readFileSync(path.join(BUILTIN_DIR, file), 'utf-8'));
+      const def = validateProviderDefinition(raw);
+      expect(`${def.id}.json`).toBe(file);
+    });
+
+    it('should point GLM Anthropic-protocol tools at the Anthropic-compatible endpoint', () => {
+      const raw = JSON.parse(fs.readFileSync(path.join(BUILTIN_DIR, 'glm.json'), 'utf-8'));
+      const glm = new ProviderPlatform(validateProviderDefinition(raw));
+      expect(glm.getToolConfig('global', 'key', '').env?.ANTHROPIC_BASE_URL).toBe('https://api.z.ai/api/anthropic');
+      expect(glm.getToolConfig('china', 'key', '').env?.ANTHROPIC_BASE_URL).toBe('https://open.bigmodel.cn/api/anthropic');
+    });
+  });
+});
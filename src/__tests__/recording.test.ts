@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+// Recordings are written below the throwaway home directory
+import './helpers/temp-home.js';
+
+vi.mock('../lib/config.js', () => ({
+  configManager: {
+    getNetworkConfig: () => ({})
+  }
+}));
+
+import { Recorder, Replayer, loadRecording, listRecordings, redactHeaders, redactSecrets } from '../lib/recording.js';
+
+const PROXY_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+const API_KEY = 'glm-secret-key-0123456789';
+
+const SSE_EVENTS = [
+  'event: message_start\ndata: {"type":"message_start"}\n\n',
+  'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":"hi"}}\n\n',
+  'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+];
+
+describe('Recording', () => {
+  it('should redact credentials in headers and bodies', () => {
+    expect(redactHeaders({
+      Authorization: 'Bearer abc',
+      'X-Api-Key': 'abc',
+      'Content-Length': '12',
+      'anthropic-version': '2023-06-01'
+    })).toEqual({ authorization: '[REDACTED]', 'x-api-key': '[REDACTED]', 'anthropic-version': '2023-06-01' });
+
+    expect(redactSecrets(`key ${API_KEY} and sk-ant-REDACTED`, [API_KEY])).toBe('key [REDACTED] and [REDACTED]');
+  });
+
+  describe('record and replay', () => {
+    const savedEnv: Record<string, string | undefined> = {};
+    let upstream: http.Server;
+    let upstreamUrl: string;
+    const servers: Array<{ stop: () => Promise<void> }> = [];
+
+    beforeEach(async () => {
+      for (const name of PROXY_VARS) {
+        savedEnv[name] = process.env[name];
+        delete process.env[name];
+      }
+      upstream = http.createServer((req, res) => {
+        req.resume();
+        req.on('end', () => {
+          if (req.url === '/api/anthropic/v1/messages?beta=true') {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Set-Cookie': 'session=abc' });
+            for (const event of SSE_EVENTS) {
+              res.write(event);
+            }
+            res.end();
+          } else {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { message: `bad key ${API_KEY}` } }));
+          }
+        });
+      });
+      await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', () => resolve()));
+      upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/api/anthropic`;
+    });
+
+    afterEach(async () => {
+      await Promise.all(servers.splice(0).map(server => server.stop()));
+      await new Promise<void>(resolve => upstream.close(() => resolve()));
+      for (const name of PROXY_VARS) {
+        if (savedEnv[name] === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = savedEnv[name];
+        }
+      }
+    });
+
+    async function record(): Promise<Recorder> {
+      const recorder = new Recorder({ port: 0, tool: 'claude-code', platform: 'minimax', protocol: 'anthropic', baseUrl: upstreamUrl });
+      servers.push(recorder);
+      const url = `http://127.0.0.1:${await recorder.start()}`;
+
+      const streamed = await fetch(`${url}/v1/messages?beta=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-api-key': API_KEY },
+        body: JSON.stringify({ model: 'MiniMax-M2', stream: true, messages: [{ role: 'user', content: `my key is ${API_KEY}` }] })
+      });
+      expect(await streamed.text()).toBe(SSE_EVENTS.join(''));
+
+      const failed = await fetch(`${url}/v1/messages/count_tokens`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${API_KEY}` },
+        body: '{}'
+      });
+      expect(failed.status).toBe(400);
+      return recorder;
+    }
+
+    it('should write redacted exchanges with one frame per event', async () => {
+      const recorder = await record();
+      await recorder.stop();
+
+      const files = fs.readdirSync(recorder.dir).sort();
+      expect(files).toEqual(['0001.json', '0002.json', 'session.json']);
+      for (const file of files) {
+        expect(fs.readFileSync(path.join(recorder.dir, file), 'utf-8')).not.toContain(API_KEY);
+      }
+      expect((fs.statSync(path.join(recorder.dir, '0001.json')).mode & 0o777)).toBe(0o600);
+
+      const { session, exchanges } = loadRecording(recorder.session.id);
+      expect(session).toMatchObject({ tool: 'claude-code', platform: 'minimax', baseUrl: upstreamUrl });
+      expect(exchanges[0].request).toMatchObject({
+        method: 'POST',
+        path: '/v1/messages?beta=true',
+        headers: { 'x-api-key': '[REDACTED]' },
+        body: { model: 'MiniMax-M2', messages: [{ content: 'my key is [REDACTED]' }] }
+      });
+      expect(exchanges[0].response.headers['set-cookie']).toBe('[REDACTED]');
+      expect(exchanges[0].response.frames!.map(frame => frame.data)).toEqual(SSE_EVENTS);
+      expect(exchanges[1].response).toMatchObject({ status: 400, body: { error: { message: 'bad key [REDACTED]' } } });
+
+      expect(listRecordings().map(entry => [entry.id, entry.exchanges])).toContainEqual([recorder.session.id, 2]);
+    });
+
+    it('should serve recordings back as a fake upstream', async () => {
+      const recorder = await record();
+      await recorder.stop();
+
+      const replayer = new Replayer({ port: 0, exchanges: loadRecording(recorder.dir).exchanges });
+      servers.push(replayer);
+      const url = `http://127.0.0.1:${await replayer.start()}`;
+
+      const streamed = await fetch(`${url}/v1/messages?beta=true`, { method: 'POST', body: '{}' });
+      expect(streamed.headers.get('content-type')).toBe('text/event-stream');
+      expect(await streamed.text()).toBe(SSE_EVENTS.join(''));
+
+      // Used-up paths repeat their last response
+      const again = await fetch(`${url}/v1/messages?beta=true`, { method: 'POST', body: '{}' });
+      expect(await again.text()).toBe(SSE_EVENTS.join(''));
+
+      const failed = await fetch(`${url}/v1/messages/count_tokens`, { method: 'POST', body: '{}' });
+      expect(failed.status).toBe(400);
+      expect(await failed.json()).toEqual({ error: { message: 'bad key [REDACTED]' } });
+
+      const unknown = await fetch(`${url}/v1/models`);
+      expect(unknown.status).toBe(404);
+    });
+  });
+});
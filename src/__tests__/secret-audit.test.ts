@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { home } from './helpers/temp-home.js';
+import { auditSecrets, convertFinding, findEnvFiles, getConversionForm, maskSecret, scanContent, type AuditTarget } from '../lib/secret-audit.js';
+import { API_KEY_HELPER_CREDENTIAL } from '../lib/tool-manager.js';
+import { secureCredentialManager } from '../lib/secure-credential-manager.js';
+
+const STORED_KEY = 'stored-key-0123456789';
+const VENDOR_KEY = 'sk-ant-REDACTED';
+
+describe('Secret audit', () => {
+  beforeAll(() => {
+    fs.mkdirSync(path.join(home, 'repo', 'app'), { recursive: true });
+    fs.mkdirSync(path.join(home, 'repo', 'node_modules', 'dep'), { recursive: true });
+    fs.writeFileSync(path.join(home, 'repo', 'app', '.env.local'), `OPENAI_API_KEY=${VENDOR_KEY}\n`);
+    fs.writeFileSync(path.join(home, 'repo', 'node_modules', 'dep', '.env'), `KEY=${VENDOR_KEY}\n`);
+  });
+
+  it('should report stored keys and vendor key shapes once per line', () => {
+    const text = `{\n  "env": {\n    "ANTHROPIC_AUTH_TOKEN": "${STORED_KEY}",\n    "OTHER": "${VENDOR_KEY}"\n  }\n}`;
+    const findings = scanContent(text, [{ label: 'glm API key', platform: 'glm', value: STORED_KEY }], 'tool');
+    expect(findings).toEqual([
+      { line: 3, value: STORED_KEY, source: 'glm API key', known: true, platform: 'glm', variable: 'ANTHROPIC_AUTH_TOKEN' },
+      { line: 4, value: VENDOR_KEY, source: 'Anthropic API key', known: false, platform: undefined, variable: 'OTHER' }
+    ]);
+  });
+
+  it('should find .env files outside dependency directories', () => {
+    expect(findEnvFiles(path.join(home, 'repo'))).toEqual([path.join(home, 'repo', 'app', '.env.local')]);
+  });
+
+  it('should mask keys for printing', () => {
+    expect(maskSecret(VENDOR_KEY)).toBe('sk-ant…wxyz');
+    expect(maskSecret('short')).toBe('****');
+  });
+
+  it('should move a key from a shell startup file into the credential store', () => {
+    const bashrc = path.join(home, '.bashrc');
+    fs.writeFileSync(bashrc, `alias ll='ls -l'\nexport ANTHROPIC_API_KEY='${STORED_KEY}'\n`, { mode: 0o644 });
+    const target: AuditTarget = { path: bashrc, kind: 'shell', shell: 'bash' };
+    const [finding] = auditSecrets([target], [{ label: 'glm API key', platform: 'glm', value: STORED_KEY }]);
+    expect(finding).toMatchObject({ line: 2, mode: expect.any(Number), variable: 'ANTHROPIC_API_KEY' });
+
+    expect(convertFinding(finding)).toBe('export ANTHROPIC_API_KEY="$CPA_GLM_SHELL_ANTHROPIC_API_KEY"');
+    expect(fs.readFileSync(bashrc, 'utf-8')).toBe(
+      `alias ll='ls -l'\neval "$(cpa env export glm shell --shell bash)"\nexport ANTHROPIC_API_KEY="$CPA_GLM_SHELL_ANTHROPIC_API_KEY"\n`
+    );
+    expect(secureCredentialManager.getCredential('glm', 'shell', 'ANTHROPIC_API_KEY')).toBe(STORED_KEY);
+    expect(auditSecrets([target], [{ label: 'glm API key', platform: 'glm', value: STORED_KEY }])).toEqual([]);
+  });
+
+  it('should move a stored key in Claude Code settings behind the apiKeyHelper', () => {
+    const settings = path.join(home, '.claude', 'settings.json');
+    fs.mkdirSync(path.dirname(settings), { recursive: true });
+    fs.writeFileSync(settings, JSON.stringify({ theme: 'dark', env: { ANTHROPIC_AUTH_TOKEN: STORED_KEY, ANTHROPIC_MODEL: 'glm-4.6' } }, null, 2));
+    const [finding] = auditSecrets([{ path: settings, kind: 'tool', toolId: 'claude-code' }], [{ label: 'glm API key', platform: 'glm', value: STORED_KEY }]);
+    expect(getConversionForm(finding)).toBe('api-key-helper');
+
+    expect(convertFinding(finding)).toBe('"apiKeyHelper": "cpa auth print-token glm"');
+    expect(JSON.parse(fs.readFileSync(settings, 'utf-8'))).toEqual({
+      theme: 'dark',
+      env: { ANTHROPIC_MODEL: 'glm-4.6' },
+      apiKeyHelper: 'cpa auth print-token glm'
+    });
+    expect(secureCredentialManager.getCredential('glm', 'claude-code', API_KEY_HELPER_CREDENTIAL)).toBe(STORED_KEY);
+  });
+
+  it('should only report keys in files that do not expand references', () => {
+    const settings = path.join(home, '.claude', 'settings.json');
+    const backups = path.join(home, '.unified-coding-helper', 'tool-backups.json');
+    fs.mkdirSync(path.dirname(backups), { recursive: true });
+    fs.writeFileSync(settings, JSON.stringify({ env: { ANTHROPIC_AUTH_TOKEN: VENDOR_KEY } }, null, 2));
+    fs.writeFileSync(backups, JSON.stringify({ 'claude-code': { env: { ANTHROPIC_AUTH_TOKEN: VENDOR_KEY } } }, null, 2));
+    const targets: AuditTarget[] = [
+      // A key of no known platform cannot be served by `cpa auth print-token`
+      { path: settings, kind: 'tool', toolId: 'claude-code' },
+      { path: backups, kind: 'backup' },
+      { path: path.join(home, 'repo', 'app', '.env.local'), kind: 'dotenv' }
+    ];
+
+    const findings = auditSecrets(targets, []);
+    expect(findings).toHaveLength(3);
+    for (const finding of findings) {
+      const before = fs.readFileSync(finding.target.path, 'utf-8');
+      expect(getConversionForm(finding)).toBeUndefined();
+      expect(convertFinding(finding)).toBeUndefined();
+      expect(fs.readFileSync(finding.target.path, 'utf-8')).toBe(before);
+    }
+  });
+});
@@ -269,6 +269,14 @@ describe('SecureCredentialManager', () => {
       expect(process.env['CPA_GLM_WRAPPER_API_KEY']).toBeUndefined();
     });
 
+    it('should export credentials quoted for the requested shell', () => {
+      manager.setCredential('glm', 'aider', 'api_key', `it's $secret`);
+
+      expect(manager.getCredentialEnvironment('glm', 'aider')).toEqual({ CPA_GLM_AIDER_API_KEY: `it's $secret` });
+      expect(manager.exportCredentialsForSourcing('glm', 'aider')).toBe(`export CPA_GLM_AIDER_API_KEY='it'\\''s $secret'`);
+      expect(manager.exportCredentialsForSourcing('glm', 'aider', 'fish')).toBe(`set -gx CPA_GLM_AIDER_API_KEY 'it\\'s $secret'`);
+    });
+
     it('should create wrapper script when storage type is wrapper', () => {
       manager.setCredential('glm', 'cursor', 'api_key', 'wrapper-key', 'wrapper');
 
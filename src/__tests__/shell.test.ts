@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { detectShell, formatExport, formatSourceCommand, quoteShellValue } from '../lib/shell.js';
+
+const TRICKY_VALUE = `sk-'quoted' "double" $HOME \`id\` \\n $(whoami) *`;
+
+describe('shell quoting', () => {
+  it('round-trips values through a POSIX shell unchanged', () => {
+    const script = `${formatExport('CPA_TEST_VALUE', TRICKY_VALUE, 'sh')}\nprintf '%s' "$CPA_TEST_VALUE"`;
+    expect(execFileSync('sh', ['-c', script], { encoding: 'utf-8' })).toBe(TRICKY_VALUE);
+  });
+
+  it('escapes only backslashes and single quotes for fish', () => {
+    expect(quoteShellValue(`a'b\\c $d`, 'fish')).toBe(`'a\\'b\\\\c $d'`);
+    expect(formatExport('KEY', 'v', 'fish')).toBe(`set -gx KEY 'v'`);
+    expect(formatExport('KEY', `it's`, 'zsh')).toBe(`export KEY='it'\\''s'`);
+  });
+
+  it('rejects variable names the shell would not parse', () => {
+    expect(() => formatExport('BAD-NAME', 'v', 'bash')).toThrow('Invalid environment variable name');
+  });
+
+  it('detects the shell from $SHELL and evaluates exports per shell', () => {
+    expect(detectShell('/usr/bin/zsh')).toBe('zsh');
+    expect(detectShell('/usr/local/bin/fish')).toBe('fish');
+    expect(detectShell('/bin/tcsh')).toBe('sh');
+    expect(detectShell('')).toBe('sh');
+    expect(formatSourceCommand('cpa env export glm aider', 'bash')).toBe('eval "$(cpa env export glm aider)"');
+    expect(formatSourceCommand('cpa env export glm aider', 'fish')).toBe('cpa env export glm aider | source');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import { home } from './helpers/temp-home.js';
+import { toolManager } from '../lib/tool-manager.js';
+import { configManager } from '../lib/config.js';
+
+const PASSWORD = 'test-password';
+const zedSettings = path.join(home, '.config', 'zed', 'settings.json');
+const continueConfig = path.join(home, '.continue', 'config.json');
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+describe('Tool unload', () => {
+  beforeAll(() => {
+    fs.mkdirSync(path.dirname(zedSettings), { recursive: true });
+    fs.mkdirSync(path.dirname(continueConfig), { recursive: true });
+    configManager.setApiKey('glm', 'glm-unload-key-0123456789', PASSWORD);
+  });
+
+  it('should remove only the Zed provider and keep later edits', () => {
+    fs.writeFileSync(zedSettings, JSON.stringify({ theme: 'One Dark', language_models: { ollama: { api_url: 'http://localhost:11434' } } }));
+    expect(toolManager.loadPlatformConfig('zed-ai', 'glm', { password: PASSWORD })).toBe(true);
+    fs.writeFileSync(zedSettings, JSON.stringify({ ...readJson(zedSettings), vim_mode: true }));
+
+    expect(toolManager.unloadPlatformConfig('zed-ai', 'glm')).toBe(true);
+    expect(readJson(zedSettings)).toEqual({
+      theme: 'One Dark',
+      language_models: { ollama: { api_url: 'http://localhost:11434' } },
+      vim_mode: true
+    });
+  });
+
+  it('should keep the user\'s own fields and models of the Zed provider', () => {
+    const own = { name: 'claude-sonnet-4', display_name: 'Sonnet', max_tokens: 200000 };
+    fs.writeFileSync(zedSettings, JSON.stringify({ language_models: { anthropic: { version: '1', available_models: [own] } } }));
+    expect(toolManager.loadPlatformConfig('zed-ai', 'glm', { password: PASSWORD })).toBe(true);
+    const loaded = readJson(zedSettings).language_models.anthropic;
+    expect(loaded.available_models[0]).toEqual(own);
+    expect(loaded.available_models.length).toBeGreaterThan(1);
+
+    expect(toolManager.unloadPlatformConfig('zed-ai', 'glm')).toBe(true);
+    expect(readJson(zedSettings)).toEqual({ language_models: { anthropic: { version: '1', available_models: [own] } } });
+  });
+
+  it('should remove only the Continue models of the platform', () => {
+    const own = { title: 'Local llama', provider: 'ollama', model: 'llama3' };
+    fs.writeFileSync(continueConfig, JSON.stringify({ models: [own], tabAutocompleteModel: own }));
+    expect(toolManager.loadPlatformConfig('continue', 'glm', { password: PASSWORD })).toBe(true);
+    expect(readJson(continueConfig).models.length).toBeGreaterThan(1);
+
+    expect(toolManager.unloadPlatformConfig('continue', 'glm')).toBe(true);
+    expect(readJson(continueConfig)).toEqual({ models: [own], tabAutocompleteModel: own });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { request } = vi.hoisted(() => ({ request: vi.fn() }));
+
+vi.mock('../lib/http-client.js', () => ({
+  httpClient: { request }
+}));
+
+import './helpers/temp-home.js';
+import { mapUsageResponse } from '../lib/usage-providers.js';
+import { platformManager, ProviderPlatform } from '../lib/platform-manager.js';
+import { validateProviderDefinition } from '../lib/provider-registry.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('Usage Providers', () => {
+  beforeEach(() => {
+    request.mockReset();
+  });
+
+  it('should only cover platforms that declare a usage endpoint', async () => {
+    expect(platformManager.getPlatform('glm')!.hasUsageEndpoint()).toBe(true);
+    expect(platformManager.getPlatform('minimax')!.hasUsageEndpoint()).toBe(true);
+
+    const acme = new ProviderPlatform(validateProviderDefinition({
+      id: 'acme',
+      name: 'Acme',
+      apiDocsUrl: 'https://acme.example/docs',
+      regions: { global: { openai: 'https://api.acme.example/v1' } },
+      protocols: ['openai'],
+      models: ['acme-coder'],
+      defaultModel: 'acme-coder',
+      env: {},
+      validation: { url: '{{openAiBaseUrl}}/models' }
+    }));
+    expect(acme.hasUsageEndpoint()).toBe(false);
+    expect(await acme.fetchUsage('global', 'key')).toBeUndefined();
+  });
+
+  describe('GLM', () => {
+    it('should map quota limits to usage windows', async () => {
+      const reset = Date.UTC(2026, 0, 1, 5);
+      request.mockResolvedValue(jsonResponse({
+        code: 200,
+        success: true,
+        data: {
+          limits: [
+            { type: 'TOKENS_LIMIT', usage: 1000000, currentValue: 250000, remaining: 750000, nextResetTime: reset },
+            { type: 'TIME_LIMIT', usage: 100, currentValue: 10 }
+          ]
+        }
+      }));
+
+      const report = await platformManager.getUsage('glm', 'china', 'key');
+      expect(request.mock.calls[0][0]).toBe('https://open.bigmodel.cn/api/monitor/usage/quota/limit');
+      expect(report.platform).toBe('glm');
+      expect(report.plan).toBe('china');
+      expect(report.windows).toEqual([
+        { name: 'tokens', unit: 'tokens', used: 250000, limit: 1000000, remaining: 750000, resetsAt: new Date(reset).toISOString() },
+        // Remaining is derived when the endpoint leaves it out
+        { name: 'tool calls', unit: 'calls', used: 10, limit: 100, remaining: 90, resetsAt: undefined }
+      ]);
+    });
+
+    it('should surface API errors reported in the body', async () => {
+      request.mockResolvedValue(jsonResponse({ code: 1001, success: false, msg: 'Authorization failed' }));
+      await expect(platformManager.getUsage('glm', 'global', 'key')).rejects.toThrow('Authorization failed');
+    });
+
+    it('should query the configured endpoint override', async () => {
+      request.mockResolvedValue(jsonResponse({ code: 200, data: { limits: [] } }));
+      await platformManager.getUsage('glm', 'global', 'key', 'https://glm.proxy.example/api/anthropic');
+      expect(request.mock.calls[0][0]).toBe('https://glm.proxy.example/api/monitor/usage/quota/limit');
+    });
+  });
+
+  describe('MiniMax', () => {
+    it('should report prompts per model window', async () => {
+      request.mockResolvedValue(jsonResponse({
+        model_remains: [
+          { model_name: 'MiniMax-M2', current_interval_total_count: '1500', current_interval_usage_count: '300', end_time: 1767243600000 }
+        ],
+        base_resp: { status_code: 0, status_msg: 'success' }
+      }));
+
+      const report = await platformManager.getUsage('minimax', 'global', 'key');
+      expect(request.mock.calls[0][0]).toBe('https://api.minimax.io/v1/api/openplatform/coding_plan/remains');
+      expect(report.windows).toEqual([
+        { name: 'MiniMax-M2', unit: 'prompts', used: 300, limit: 1500, remaining: 1200, resetsAt: new Date(1767243600000).toISOString() }
+      ]);
+    });
+
+    it('should reject HTTP errors', async () => {
+      request.mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' }));
+      await expect(platformManager.getUsage('minimax', 'global', 'key')).rejects.toThrow('HTTP 401');
+    });
+  });
+
+  describe('mapUsageResponse', () => {
+    it('should read a declared balance', () => {
+      const source = {
+        url: '{{openAiOrigin}}/user/balance',
+        balance: { amount: 'balance_infos.0.total_balance', currency: 'balance_infos.0.currency' }
+      };
+      const report = mapUsageResponse(source, { balance_infos: [{ currency: 'CNY', total_balance: '110.00' }] });
+      expect(report).toEqual({ windows: [], balance: { amount: 110, currency: 'CNY' } });
+    });
+
+    it('should fall back to the default currency', () => {
+      const source = { url: 'https://x', balance: { amount: 'credits', defaultCurrency: 'USD' } };
+      expect(mapUsageResponse(source, { credits: 5 }).balance).toEqual({ amount: 5, currency: 'USD' });
+    });
+  });
+});
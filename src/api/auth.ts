@@ -6,11 +6,11 @@
 import { configManager } from '../lib/config.js';
 import { toolManager } from '../lib/tool-manager.js';
 import { toolRegistry } from '../lib/tool-registry.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { MASTER_PASSWORD_ENV } from '../lib/master-password.js';
 import type { PlatformId } from '../types/config.js';
 import type { ApiResult, GetApiKeyResult, SetApiKeyParams, SetApiKeyResult, ReloadAuthResult } from './types.js';
 
-const VALID_PLATFORMS: PlatformId[] = ['glm', 'minimax'];
-
 /**
  * Get API key status for a platform
  * @param params - Optional parameters including the platform
@@ -20,10 +20,10 @@ export function getApiKey(params?: { platform?: PlatformId }): ApiResult<GetApiK
     const platform = params?.platform || configManager.getActivePlatform();
 
     // Validate platform
-    if (!VALID_PLATFORMS.includes(platform)) {
+    if (!platformManager.hasPlatform(platform)) {
       return {
         success: false,
-        error: `Invalid platform: ${platform}. Valid options: ${VALID_PLATFORMS.join(', ')}`,
+        error: `Invalid platform: ${platform}. Valid options: ${platformManager.getPlatformIds().join(', ')}`,
         code: 'INVALID_PLATFORM'
       };
     }
@@ -53,12 +53,13 @@ export function getApiKey(params?: { platform?: PlatformId }): ApiResult<GetApiK
 export function setApiKey(params: SetApiKeyParams): ApiResult<SetApiKeyResult> {
   try {
     const { platform, apiKey, encrypt } = params;
+    const masterPassword = params.masterPassword ?? process.env[MASTER_PASSWORD_ENV];
 
     // Validate platform
-    if (!VALID_PLATFORMS.includes(platform)) {
+    if (!platformManager.hasPlatform(platform)) {
       return {
         success: false,
-        error: `Invalid platform: ${platform}. Valid options: ${VALID_PLATFORMS.join(', ')}`,
+        error: `Invalid platform: ${platform}. Valid options: ${platformManager.getPlatformIds().join(', ')}`,
         code: 'INVALID_PLATFORM'
       };
     }
@@ -72,14 +73,28 @@ export function setApiKey(params: SetApiKeyParams): ApiResult<SetApiKeyResult> {
       };
     }
 
+    if (encrypt && !masterPassword) {
+      return {
+        success: false,
+        error: `A master password is required to encrypt the API key. Pass masterPassword or set ${MASTER_PASSWORD_ENV}`,
+        code: 'MISSING_MASTER_PASSWORD'
+      };
+    }
+
+    if (encrypt && !configManager.verifyMasterPassword(masterPassword!)) {
+      return {
+        success: false,
+        error: 'Invalid master password',
+        code: 'INVALID_MASTER_PASSWORD'
+      };
+    }
+
     // Update platform first
     configManager.setPlatform(platform);
 
     // Set API key (with or without encryption)
     if (encrypt) {
-      // Encryption requires master password - this is handled by the client
-      // For now, we store as encrypted if master password was provided to API client
-      configManager.setApiKey(platform, apiKey.trim(), '');
+      configManager.setApiKey(platform, apiKey.trim(), masterPassword!);
     } else {
       const platformConfig = configManager.getPlatformConfig(platform);
       configManager.setPlatformConfig(platform, {
@@ -125,10 +140,10 @@ export function reload(params: { toolId: string; platform?: PlatformId }): ApiRe
     const activePlatform = platform || configManager.getActivePlatform();
 
     // Validate platform
-    if (!VALID_PLATFORMS.includes(activePlatform)) {
+    if (!platformManager.hasPlatform(activePlatform)) {
       return {
         success: false,
-        error: `Invalid platform: ${activePlatform}. Valid options: ${VALID_PLATFORMS.join(', ')}`,
+        error: `Invalid platform: ${activePlatform}. Valid options: ${platformManager.getPlatformIds().join(', ')}`,
         code: 'INVALID_PLATFORM'
       };
     }
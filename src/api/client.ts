@@ -8,7 +8,10 @@ import path from 'node:path';
 import yaml from 'js-yaml';
 import { logger } from '../lib/logger.js';
 import { configManager } from '../lib/config.js';
-import { ErrorCode, ErrorSeverity, wrapError, AppError } from '../lib/errors.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { modelCatalog } from '../lib/model-catalog.js';
+import { ErrorCode, ErrorSeverity, wrapError, AppError, AuthError } from '../lib/errors.js';
+import { MASTER_PASSWORD_ENV, readPasswordFile } from '../lib/master-password.js';
 import type {
   ApiResult,
   ApiSuccess,
@@ -86,14 +89,26 @@ class ApiClient {
         this.loadConfigFromFile(options.configFile);
       }
 
-      // Store master password for encrypted API key operations
-      if (options?.masterPassword) {
-        this.masterPassword = options.masterPassword;
+      // Store master password for encrypted API key operations, rejecting a wrong one up front
+      const masterPassword = this.resolveMasterPassword(options);
+      if (masterPassword) {
+        if (!configManager.verifyMasterPassword(masterPassword)) {
+          throw new AuthError(ErrorCode.AUTH_FAILED, 'Invalid master password', {
+            severity: ErrorSeverity.HIGH,
+            context: { operation: 'initialize API client' },
+            suggestedActions: ['Pass the master password used when the API keys were saved']
+          });
+        }
+        this.masterPassword = masterPassword;
       }
 
       this.initialized = true;
       logger.debug('API Client initialized successfully');
     } catch (error) {
+      if (error instanceof AuthError || (error instanceof AppError && error.code === ErrorCode.FILE_READ_FAILED)) {
+        error.log();
+        throw error;
+      }
       const initError = wrapError(
         error as Error,
         ErrorCode.INTERNAL_ERROR,
@@ -116,6 +131,19 @@ class ApiClient {
     }
   }
 
+  /**
+   * Master password from the options, else the password file, else CPA_MASTER_PASSWORD
+   */
+  private resolveMasterPassword(options?: ApiOptions): string | undefined {
+    if (options?.masterPassword) {
+      return options.masterPassword;
+    }
+    if (options?.masterPasswordFile) {
+      return readPasswordFile(options.masterPasswordFile);
+    }
+    return process.env[MASTER_PASSWORD_ENV] || undefined;
+  }
+
   /**
    * Check if the API client is ready
    */
@@ -236,22 +264,8 @@ class ApiClient {
    */
   listPlatforms(): ApiResult<ListPlatformsResult> {
     try {
-      const platforms: PlatformInfo[] = [
-        {
-          id: 'glm',
-          name: 'GLM',
-          description: 'GLM AI Platform',
-          apiDocsUrl: 'https://open.bigmodel.cn/doc',
-          models: ['glm-4', 'glm-4-flash', 'glm-4-plus']
-        },
-        {
-          id: 'minimax',
-          name: 'MiniMax',
-          description: 'MiniMax AI Platform',
-          apiDocsUrl: 'https://platform.minimaxi.com/docs',
-          models: ['abab6', 'abab6.5s']
-        }
-      ];
+      const platforms: PlatformInfo[] = platformManager.getPlatformInfos()
+        .map(info => ({ ...info, models: modelCatalog.getModels(info.id) }));
       return {
         success: true,
         data: { platforms },
@@ -288,8 +302,14 @@ class ApiClient {
    */
   setApiKey(params: SetApiKeyParams): ApiResult<SetApiKeyResult> {
     try {
-      if (params.encrypt && this.masterPassword) {
-        configManager.setApiKey(params.platform, params.apiKey, this.masterPassword);
+      const masterPassword = params.masterPassword ?? this.masterPassword;
+      if (params.encrypt && !masterPassword) {
+        throw new AuthError(ErrorCode.AUTH_FAILED, 'A master password is required to encrypt the API key', {
+          suggestedActions: [`Initialize the client with masterPassword, masterPasswordFile or ${MASTER_PASSWORD_ENV}`]
+        });
+      }
+      if (params.encrypt && masterPassword) {
+        configManager.setApiKey(params.platform, params.apiKey, masterPassword);
       } else {
         const platformConfig = configManager.getPlatformConfig(params.platform);
         configManager.setPlatformConfig(params.platform, {
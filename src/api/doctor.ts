@@ -7,6 +7,8 @@ import { configManager } from '../lib/config.js';
 import { toolRegistry } from '../lib/tool-registry.js';
 import { toolInstaller } from '../lib/tool-installer.js';
 import { platformManager } from '../lib/platform-manager.js';
+import { httpClient } from '../lib/http-client.js';
+import { describeKeyValidation } from '../lib/key-validation.js';
 import type { PlatformId } from '../types/config.js';
 import type { ApiResult, DoctorCheckResult, HealthCheck, HealthCheckSummary } from './types.js';
 
@@ -38,7 +40,21 @@ export async function check(params?: { platform?: PlatformId }): Promise<ApiResu
       severity: 'high'
     });
 
-    // Check 3: API key
+    // Check 3: Proxy in effect for the platform endpoint (informational)
+    const platformInfo = platformManager.getPlatform(platform);
+    const proxyInfo = httpClient.getProxyInfo(platformInfo?.getEndpoint(configManager.getPlan(), platformInfo.protocols[0]));
+    checks.push({
+      name: 'Proxy',
+      passed: true,
+      message: !proxyInfo.proxy
+        ? 'No proxy configured'
+        : proxyInfo.bypassed
+          ? `Proxy ${proxyInfo.proxy} bypassed by NO_PROXY`
+          : `Using proxy ${proxyInfo.proxy} (from ${proxyInfo.source === 'config' ? 'config' : proxyInfo.envVar})`,
+      severity: 'low'
+    });
+
+    // Check 4: API key
     const apiKey = configManager.getApiKey(platform);
     if (!apiKey) {
       checks.push({
@@ -49,18 +65,17 @@ export async function check(params?: { platform?: PlatformId }): Promise<ApiResu
       });
     } else {
       // Validate API key with platform
-      const isValid = await platformManager.validateApiKey(platform, apiKey);
+      const result = await platformManager.validateApiKey(platform, apiKey, configManager.getPlan());
       checks.push({
         name: 'API Key',
-        passed: isValid,
-        message: isValid
-          ? 'API key is valid'
-          : 'API key is invalid or network error',
-        severity: 'critical'
+        passed: result.valid,
+        message: describeKeyValidation(result),
+        severity: 'critical',
+        keyValidation: result
       });
     }
 
-    // Check 4: Git installation
+    // Check 5: Git installation
     const gitInstalled = toolInstaller.isGitInstalled();
     checks.push({
       name: 'Git',
@@ -71,7 +86,7 @@ export async function check(params?: { platform?: PlatformId }): Promise<ApiResu
       severity: 'medium'
     });
 
-    // Check 5: Tools status
+    // Check 6: Tools status
     const tools = toolRegistry.getSupportedTools();
     const toolChecks: HealthCheck[] = [];
     let allToolsInstalled = true;
@@ -10,4 +10,5 @@ export * from './platform.js';
 export * from './auth.js';
 export * from './tools.js';
 export * from './doctor.js';
+export * from './usage.js';
 export * from './config.js';
@@ -4,11 +4,10 @@
  */
 
 import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
 import type { PlatformId, PlanType } from '../types/config.js';
 import type { ApiResult, GetPlatformResult, SetPlatformParams, SetPlatformResult } from './types.js';
 
-const VALID_PLATFORMS: PlatformId[] = ['glm', 'minimax'];
-
 /**
  * Get the current platform setting
  */
@@ -39,10 +38,10 @@ export function setPlatform(params: SetPlatformParams): ApiResult<SetPlatformRes
     const newPlatform = params.platform;
 
     // Validate platform
-    if (!newPlatform || !VALID_PLATFORMS.includes(newPlatform)) {
+    if (!newPlatform || !platformManager.hasPlatform(newPlatform)) {
       return {
         success: false,
-        error: `Invalid platform: ${newPlatform || 'undefined'}. Valid options: ${VALID_PLATFORMS.join(', ')}`,
+        error: `Invalid platform: ${newPlatform || 'undefined'}. Valid options: ${platformManager.getPlatformIds().join(', ')}`,
         code: 'INVALID_PLATFORM'
       };
     }
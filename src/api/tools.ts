@@ -6,6 +6,7 @@
 import type { PlatformId } from '../types/config.js';
 import { configManager } from '../lib/config.js';
 import { toolManager } from '../lib/tool-manager.js';
+import { platformManager } from '../lib/platform-manager.js';
 import type { ApiResult, ListToolsResult, LoadToolParams, LoadToolResult, UnloadToolParams, UnloadToolResult } from './types.js';
 
 const LOADABLE_TOOLS = [
@@ -22,7 +23,7 @@ const LOADABLE_TOOLS = [
 ];
 
 function resolvePlatform(platformArg?: string): PlatformId {
-  if (platformArg === 'glm' || platformArg === 'minimax') {
+  if (platformArg && platformManager.hasPlatform(platformArg)) {
     return platformArg;
   }
   return configManager.getActivePlatform();
@@ -76,7 +77,10 @@ export function loadTool(params: LoadToolParams): ApiResult<LoadToolResult> {
       };
     }
 
-    const success = toolManager.loadPlatformConfig(toolId, platform);
+    const success = toolManager.loadPlatformConfig(toolId, platform, {
+      profile: params.profile,
+      password: params.masterPassword
+    });
 
     if (success) {
       return {
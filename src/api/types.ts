@@ -5,14 +5,16 @@
 
 import type { Language, PlatformId, PlanType, UnifiedConfig } from '../types/config.js';
 import type { ToolInfo, McpServiceInfo } from '../types/tools.js';
-import type { PlatformInfo } from '../types/platform.js';
+import type { PlatformInfo, KeyValidationResult, UsageReport, UsageWindow } from '../types/platform.js';
+import type { UsageGroupBy, UsageSummaryRow, BudgetStatus } from '../lib/usage-store.js';
 
 /**
  * Re-export common types from config and tools
  */
 export type { Language, PlatformId, PlanType, UnifiedConfig };
 export type { ToolInfo, McpServiceInfo };
-export type { PlatformInfo };
+export type { PlatformInfo, UsageReport, UsageWindow };
+export type { UsageGroupBy, UsageSummaryRow, BudgetStatus };
 
 /**
  * API Result wrapper type for all API methods
@@ -90,6 +92,8 @@ export interface SetApiKeyParams {
   platform: PlatformId;
   apiKey: string;
   encrypt?: boolean;
+  /** Master password to encrypt the key with; defaults to CPA_MASTER_PASSWORD */
+  masterPassword?: string;
 }
 
 export interface SetApiKeyResult {
@@ -113,6 +117,10 @@ export interface ListToolsResult {
 export interface LoadToolParams {
   toolId: string;
   platform?: PlatformId;
+  /** Credential profile to load instead of the platform's default key */
+  profile?: string;
+  /** Master password to decrypt the API key */
+  masterPassword?: string;
 }
 
 export interface LoadToolResult {
@@ -181,6 +189,8 @@ export interface HealthCheck {
   passed: boolean;
   message?: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
+  /** Detailed outcome of the API key check */
+  keyValidation?: KeyValidationResult;
 }
 
 export interface HealthCheckSummary {
@@ -190,6 +200,35 @@ export interface HealthCheckSummary {
   warnings: number;
 }
 
+/**
+ * Usage API types
+ */
+export interface GetUsageParams {
+  platform?: PlatformId;
+  /** Decrypts the stored API key; not needed when apiKey is given */
+  masterPassword?: string;
+  /** Query with this key instead of the stored one */
+  apiKey?: string;
+}
+
+export type GetUsageResult = UsageReport;
+
+export interface GetUsageReportParams {
+  /** Grouping dimension (default: tool) */
+  by?: UsageGroupBy;
+  /** Days to include, ending today (default: 7) */
+  days?: number;
+}
+
+export interface GetUsageReportResult {
+  by: UsageGroupBy;
+  /** ISO timestamp of the first included day */
+  since: string;
+  rows: UsageSummaryRow[];
+  /** Today's consumption against the configured daily budgets */
+  budgets: BudgetStatus[];
+}
+
 /**
  * Config API types (for config-as-code)
  */
@@ -234,8 +273,13 @@ export interface ApiClientOptions {
  * API initialization options
  */
 export interface ApiOptions extends ApiClientOptions {
-  /** Master password for encrypted API keys */
+  /**
+   * Master password for encrypted API keys. Wins over masterPasswordFile,
+   * which wins over the CPA_MASTER_PASSWORD environment variable.
+   */
   masterPassword?: string;
+  /** File whose first line is the master password */
+  masterPasswordFile?: string;
 }
 
 /**
@@ -0,0 +1,103 @@
+/**
+ * Usage API Module
+ * Provides programmatic access to coding plan usage and quota for scripts and CI/CD
+ */
+
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { usageStore, USAGE_GROUP_BY } from '../lib/usage-store.js';
+import type { ApiResult, GetUsageParams, GetUsageResult, GetUsageReportParams, GetUsageReportResult } from './types.js';
+
+/**
+ * Query the current quota windows of a platform
+ * @param params - Optional parameters including the platform and credentials
+ */
+export async function getUsage(params?: GetUsageParams): Promise<ApiResult<GetUsageResult>> {
+  try {
+    const platform = params?.platform || configManager.getActivePlatform();
+
+    // Validate platform
+    if (!platformManager.hasPlatform(platform)) {
+      return {
+        success: false,
+        error: `Invalid platform: ${platform}. Valid options: ${platformManager.getPlatformIds().join(', ')}`,
+        code: 'INVALID_PLATFORM'
+      };
+    }
+    if (!platformManager.getPlatform(platform)?.hasUsageEndpoint()) {
+      return {
+        success: false,
+        error: `Platform ${platform} does not provide a usage endpoint`,
+        code: 'USAGE_NOT_SUPPORTED'
+      };
+    }
+
+    const apiKey = params?.apiKey || configManager.getApiKey(platform, params?.masterPassword);
+    if (!apiKey) {
+      return {
+        success: false,
+        error: 'No API key available. Pass apiKey, or masterPassword to decrypt the stored key',
+        code: 'MISSING_API_KEY'
+      };
+    }
+
+    const report = await platformManager.getUsage(platform, configManager.getPlan(), apiKey, configManager.getEndpoint(platform));
+    return {
+      success: true,
+      data: report,
+      message: `Usage retrieved for ${platform}`
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get usage';
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+/**
+ * Summarize token usage recorded by the metering proxy (`cpa meter`)
+ * @param params - Optional grouping and number of days
+ */
+export async function getUsageReport(params?: GetUsageReportParams): Promise<ApiResult<GetUsageReportResult>> {
+  try {
+    const by = params?.by || 'tool';
+    const days = params?.days ?? 7;
+
+    if (!USAGE_GROUP_BY.includes(by)) {
+      return {
+        success: false,
+        error: `Invalid grouping: ${by}. Valid options: ${USAGE_GROUP_BY.join(', ')}`,
+        code: 'INVALID_PARAMS'
+      };
+    }
+    if (!Number.isInteger(days) || days < 1) {
+      return {
+        success: false,
+        error: `Invalid number of days: ${days}`,
+        code: 'INVALID_PARAMS'
+      };
+    }
+
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+    return {
+      success: true,
+      data: {
+        by,
+        since: since.toISOString(),
+        rows: usageStore.summarize(usageStore.readRecords(since), by),
+        budgets: usageStore.getBudgetStatus(configManager.getMeterConfig().budget || {})
+      },
+      message: `Usage report by ${by} for the last ${days} day(s)`
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to build usage report';
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
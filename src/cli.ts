@@ -8,8 +8,9 @@ import { configManager } from './lib/config.js';
 import { wizard } from './lib/wizard.js';
 import { logger } from './lib/logger.js';
 import { i18n } from './lib/i18n.js';
+import { AppError } from './lib/errors.js';
 import { doctor } from './commands/doctor.js';
-import { handleAuth, handleReload, handleLangMenu, handleShowLang, handleSetLang, handlePlatformMenu, handleShowPlatform, handleSetPlatform, handleToolList, handleToolLoad, handleToolUnload } from './commands/index.js';
+import { handleAuth, handleReload, handleAuthPoolList, handleAuthPoolAdd, handleAuthPoolRemove, handleChangePassword, handleAuthRotate, handlePrintToken, handleLangMenu, handleShowLang, handleSetLang, handlePlatformMenu, handleShowPlatform, handleListPlatforms, handleSetPlatform, handleModelMenu, handleShowModels, handleSetModel, handleResetModels, handleListModels, handleShowModelInfo, handleUsage, handleProfileMenu, handleProfileList, handleProfileAdd, handleProfileUse, handleProfileRemove, handleGatewayStart, handleRouteList, handleRouteSet, handleRouteRemove, handleRouteLog, handleMeterStart, handleBridgeStart, handleRecordStart, handleReplay, handleEnvExport, handleEnvSource, handleEnvRun, handleRun, handleAgentStart, handleLock, handleAuditSecrets, handleUsageReport, handleUsageBudget, handleToolList, handleToolLoad, handleToolUnload } from './commands/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -71,6 +72,13 @@ platformCommand
     await handleShowPlatform();
   });
 
+platformCommand
+  .command('list')
+  .description(i18n.t('platform.list_usage'))
+  .action(async () => {
+    await handleListPlatforms();
+  });
+
 platformCommand
   .command('set <platform>')
   .description(i18n.t('platform.set_usage'))
@@ -78,15 +86,70 @@ platformCommand
     await handleSetPlatform([platform]);
   });
 
+// Model tier commands
+const modelCommand = program
+  .command('model')
+  .description(i18n.t('commands.model'))
+  .action(async () => {
+    await handleModelMenu();
+  });
+
+modelCommand
+  .command('show [platform]')
+  .description(i18n.t('model.show_usage'))
+  .action(async (platform) => {
+    await handleShowModels(platform ? [platform] : []);
+  });
+
+modelCommand
+  .command('set <tier> <model> [platform]')
+  .description(i18n.t('model.set_usage'))
+  .action(async (tier, model, platform) => {
+    const args = [tier, model, platform].filter((arg): arg is string => Boolean(arg));
+    await handleSetModel(args);
+  });
+
+modelCommand
+  .command('reset [tier] [platform]')
+  .description(i18n.t('model.reset_usage'))
+  .action(async (tier, platform) => {
+    const args = [tier, platform].filter((arg): arg is string => Boolean(arg));
+    await handleResetModels(args);
+  });
+
+// Model catalog commands
+const modelsCommand = program
+  .command('models')
+  .description(i18n.t('commands.models'));
+
+modelsCommand
+  .command('list [platform]')
+  .description(i18n.t('model.list_usage'))
+  .option('--refresh', 'Query each platform for its current model list')
+  .action(async (platform, options) => {
+    await handleListModels(platform ? [platform] : [], { refresh: options.refresh });
+  });
+
+modelsCommand
+  .command('show <model> [platform]')
+  .description(i18n.t('model.show_info_usage'))
+  .action(async (model, platform) => {
+    const args = [model, platform].filter((arg): arg is string => Boolean(arg));
+    await handleShowModelInfo(args);
+  });
+
 // Auth commands
 const authCommand = program
   .command('auth')
   .description(i18n.t('commands.auth'))
   .argument('[platform]')
   .argument('[token]')
-  .action(async (platform, token) => {
-    const args = [platform, token].filter((arg): arg is string => Boolean(arg));
-    await handleAuth(args);
+  .argument('[password]', i18n.t('auth.password_argument_help'))
+  .option('--password-stdin', i18n.t('auth.password_stdin_help'))
+  .option('--password-file <path>', i18n.t('auth.password_file_help'))
+  .action(async (platform, token, password, options) => {
+    const args = [platform, token, password].filter((arg): arg is string => Boolean(arg));
+    await handleAuth(args, { passwordStdin: options.passwordStdin, passwordFile: options.passwordFile });
   });
 
 authCommand
@@ -96,6 +159,290 @@ authCommand
     await handleReload([tool]);
   });
 
+authCommand
+  .command('rotate <platform>')
+  .description(i18n.t('auth.rotate_usage'))
+  .option('--force', i18n.t('auth.rotate_force_help'))
+  .option('--password-file <path>', i18n.t('auth.password_file_help'))
+  .action(async (platform, _options, command) => {
+    // `auth` defines --password-file too and takes it when it follows the subcommand
+    const options = command.optsWithGlobals();
+    // stdin stays free for the new key prompt
+    await handleAuthRotate([platform], { force: options.force, passwordFile: options.passwordFile });
+  });
+
+authCommand
+  .command('print-token <platform>')
+  .description(i18n.t('auth.print_token_usage'))
+  .option('--profile <name>', i18n.t('auth.print_token_profile_help'))
+  .action(async (platform, options) => {
+    await handlePrintToken([platform], { profile: options.profile });
+  });
+
+authCommand
+  .command('change-password')
+  .description(i18n.t('auth.change_password_usage'))
+  .action(async () => {
+    await handleChangePassword();
+  });
+
+const poolCommand = authCommand
+  .command('pool')
+  .description(i18n.t('auth.pool_usage'));
+
+poolCommand
+  .command('list [platform]')
+  .description(i18n.t('auth.pool_list_usage'))
+  .action(async (platform) => {
+    await handleAuthPoolList(platform ? [platform] : []);
+  });
+
+poolCommand
+  .command('add [platform] [name]')
+  .description(i18n.t('auth.pool_add_usage'))
+  .action(async (platform, name) => {
+    const args = [platform, name].filter((arg): arg is string => Boolean(arg));
+    await handleAuthPoolAdd(args);
+  });
+
+poolCommand
+  .command('remove <platform> <name>')
+  .description(i18n.t('auth.pool_remove_usage'))
+  .action(async (platform, name) => {
+    await handleAuthPoolRemove([platform, name]);
+  });
+
+// Credential profile commands
+const profileCommand = program
+  .command('profile')
+  .description(i18n.t('commands.profile'))
+  .action(async () => {
+    await handleProfileMenu();
+  });
+
+profileCommand
+  .command('list')
+  .description(i18n.t('profile.list_usage'))
+  .action(async () => {
+    await handleProfileList();
+  });
+
+profileCommand
+  .command('add [name] [platform]')
+  .description(i18n.t('profile.add_usage'))
+  .option('--plan <plan>', 'Region plan: global or china')
+  .option('--endpoint <url>', 'Custom Anthropic-compatible endpoint')
+  .action(async (name, platform, options) => {
+    const args = [name, platform].filter((arg): arg is string => Boolean(arg));
+    await handleProfileAdd(args, { plan: options.plan, endpoint: options.endpoint });
+  });
+
+profileCommand
+  .command('use <name>')
+  .description(i18n.t('profile.use_usage'))
+  .action(async (name) => {
+    await handleProfileUse([name]);
+  });
+
+profileCommand
+  .command('remove <name>')
+  .description(i18n.t('profile.remove_usage'))
+  .action(async (name) => {
+    await handleProfileRemove([name]);
+  });
+
+// Gateway commands
+const gatewayCommand = program
+  .command('gateway')
+  .description(i18n.t('commands.gateway'));
+
+gatewayCommand
+  .command('start')
+  .description(i18n.t('gateway.start_usage'))
+  .option('-p, --port <port>', 'Port to listen on (default 8787)')
+  .option('--platforms <ids>', 'Comma-separated upstream platforms in failover order')
+  .action(async (options) => {
+    await handleGatewayStart({ port: options.port, platforms: options.platforms });
+  });
+
+// Gateway routing table
+const routeCommand = program
+  .command('route')
+  .description(i18n.t('commands.route'))
+  .action(async () => {
+    await handleRouteList();
+  });
+
+routeCommand
+  .command('list')
+  .description(i18n.t('route.list_usage'))
+  .action(async () => {
+    await handleRouteList();
+  });
+
+routeCommand
+  .command('set <match> <platform> [model]')
+  .description(i18n.t('route.set_usage'))
+  .action(async (match, platform, model) => {
+    const args = [match, platform, model].filter((arg): arg is string => Boolean(arg));
+    await handleRouteSet(args);
+  });
+
+routeCommand
+  .command('remove <match>')
+  .description(i18n.t('route.remove_usage'))
+  .action(async (match) => {
+    await handleRouteRemove([match]);
+  });
+
+routeCommand
+  .command('log')
+  .description(i18n.t('route.log_usage'))
+  .option('-n, --limit <n>', 'Number of recent requests to show (default 20)')
+  .option('--json', 'Print the entries as JSON')
+  .action(async (options) => {
+    await handleRouteLog({ limit: options.limit, json: options.json });
+  });
+
+// Metering proxy
+program
+  .command('meter')
+  .description(i18n.t('commands.meter'))
+  .option('-p, --port <port>', 'Port to listen on (default 8788)')
+  .option('--platform <id>', 'Platform to forward to (default: active platform)')
+  .option('--project <name>', 'Project recorded for requests without an x-cpa-project header')
+  .action(async (options) => {
+    await handleMeterStart({ port: options.port, platform: options.platform, project: options.project });
+  });
+
+// Protocol bridge
+program
+  .command('bridge')
+  .description(i18n.t('commands.bridge'))
+  .option('-p, --port <port>', 'Port to listen on (default 8789)')
+  .option('--platform <id>', 'Platform to forward to (default: active platform)')
+  .action(async (options) => {
+    await handleBridgeStart({ port: options.port, platform: options.platform });
+  });
+
+// Traffic recording and replay
+program
+  .command('record')
+  .description(i18n.t('commands.record'))
+  .option('--tool <id>', 'Tool whose traffic is recorded, e.g. claude-code')
+  .option('-p, --port <port>', 'Port to listen on (default 8790)')
+  .option('--platform <id>', 'Platform to forward to (default: active platform)')
+  .action(async (options) => {
+    await handleRecordStart({ tool: options.tool, port: options.port, platform: options.platform });
+  });
+
+program
+  .command('replay [session]')
+  .description(i18n.t('commands.replay'))
+  .option('-p, --port <port>', 'Port to listen on (default 8790)')
+  .option('--realtime', 'Reproduce the recorded delays between streamed events')
+  .action(async (session, options) => {
+    await handleReplay(session ? [session] : [], { port: options.port, realtime: options.realtime });
+  });
+
+// Credentials from secure storage for shells and child processes
+const envCommand = program
+  .command('env')
+  .description(i18n.t('commands.env'));
+
+envCommand
+  .command('export <platform> <tool>')
+  .description('Print shell statements exporting the tool\'s stored credentials')
+  .option('--shell <shell>', 'bash, zsh, fish or sh (default: from $SHELL)')
+  .action(async (platform, tool, options) => {
+    await handleEnvExport([platform, tool], { shell: options.shell });
+  });
+
+envCommand
+  .command('source <platform> <tool>')
+  .description('Show the command that loads the tool\'s credentials into the current shell')
+  .option('--shell <shell>', 'bash, zsh, fish or sh (default: from $SHELL)')
+  .action(async (platform, tool, options) => {
+    await handleEnvSource([platform, tool], { shell: options.shell });
+  });
+
+envCommand
+  .command('run <command...>')
+  .description('Run a command with the tool\'s credentials in its environment only')
+  .option('--platform <id>', 'Platform the credentials belong to')
+  .option('--tool <id>', 'Tool the credentials were stored for')
+  .action(async (command, options) => {
+    await handleEnvRun(command, { platform: options.platform, tool: options.tool });
+  });
+
+// One-off tool session on a platform, without changing the tool's config
+program
+  .command('run <tool> [args...]')
+  .description(i18n.t('commands.run'))
+  .option('--platform <id>', 'Platform to use for this session (default: active platform)')
+  .option('--model <model>', 'Main model for this session')
+  .action(async (tool, args, options) => {
+    await handleRun([tool, ...args], { platform: options.platform, model: options.model });
+  });
+
+// Unlock agent caching the master password
+program
+  .command('agent')
+  .description(i18n.t('commands.agent'))
+  .option('--ttl <minutes>', 'Lock after this many minutes without use (default 15)')
+  .option('--foreground', 'Stay in the foreground instead of running in the background')
+  .action(async (options) => {
+    await handleAgentStart({ ttl: options.ttl, foreground: options.foreground });
+  });
+
+program
+  .command('lock')
+  .description(i18n.t('commands.lock'))
+  .action(async () => {
+    await handleLock();
+  });
+
+// Plaintext secret audit
+const auditCommand = program
+  .command('audit')
+  .description(i18n.t('commands.audit'));
+
+auditCommand
+  .command('secrets')
+  .description('Find plaintext API keys in tool configs, backups, shell startup files and .env files')
+  .option('--report-only', 'Only list the findings, without offering to convert them')
+  .action(async (options) => {
+    await handleAuditSecrets({ reportOnly: options.reportOnly });
+  });
+
+// Usage command
+const usageCommand = program
+  .command('usage [platform]')
+  .description(i18n.t('commands.usage'))
+  .option('--json', 'Print the usage report as JSON')
+  .action(async (platform, options) => {
+    await handleUsage(platform ? [platform] : [], { json: options.json });
+  });
+
+usageCommand
+  .command('report')
+  .description(i18n.t('usage.report_usage'))
+  .option('--by <dimension>', 'Group by tool, model, day, platform or project', 'tool')
+  .option('--days <n>', 'Number of days to include, ending today', '7')
+  .option('--json', 'Print the report as JSON')
+  .action(async (options) => {
+    await handleUsageReport({ by: options.by, days: options.days, json: options.json });
+  });
+
+usageCommand
+  .command('budget [tokens]')
+  .description(i18n.t('usage.budget_usage'))
+  .option('--tool <id>', 'Set the budget of a single tool')
+  .option('--action <action>', 'warn or block once a budget is spent')
+  .action(async (tokens, options) => {
+    await handleUsageBudget(tokens ? [tokens] : [], { tool: options.tool, action: options.action });
+  });
+
 // Doctor command
 program
   .command('doctor')
@@ -122,9 +469,24 @@ toolCommand
 toolCommand
   .command('load <tool> [platform]')
   .description('Load platform config into a supported tool')
-  .action(async (tool, platform) => {
+  .option('--profile <name>', 'Load the key and settings of a credential profile')
+  .option('--gateway [port]', 'Point the tool at the local gateway instead of the platform')
+  .option('--meter [port]', 'Send the tool\'s requests through the local metering proxy')
+  .option('--bridge [port]', 'Point the tool at the local protocol bridge')
+  .option('--api-key-helper', 'Keep the key out of Claude Code\'s settings; it runs cpa auth print-token instead')
+  .option('--password-stdin', 'Read the master password from stdin')
+  .option('--password-file <path>', 'Read the master password from a file')
+  .action(async (tool, platform, options) => {
     const args = [tool, platform].filter((arg): arg is string => Boolean(arg));
-    await handleToolLoad(args);
+    await handleToolLoad(args, {
+      profile: options.profile,
+      gateway: options.gateway,
+      meter: options.meter,
+      bridge: options.bridge,
+      apiKeyHelper: options.apiKeyHelper,
+      passwordStdin: options.passwordStdin,
+      passwordFile: options.passwordFile
+    });
   });
 
 toolCommand
@@ -150,7 +512,10 @@ if (process.argv.length === 2) {
 } else {
   // Handle --config flag by pre-parsing arguments
   // Extract --config value before main parsing
-  const configArgIndex = process.argv.findIndex((arg) => arg === '-c' || arg === '--config');
+  // Arguments after `--` belong to a child command (e.g. `env run -- bash -c ...`)
+  const separatorIndex = process.argv.indexOf('--');
+  const configArgIndex = process.argv.findIndex((arg, index) =>
+    (arg === '-c' || arg === '--config') && (separatorIndex === -1 || index < separatorIndex));
   let configPath: string | undefined;
 
   if (configArgIndex !== -1) {
@@ -175,5 +540,8 @@ if (process.argv.length === 2) {
     }
   }
 
-  program.parseAsync(process.argv);
+  program.parseAsync(process.argv).catch((error: unknown) => {
+    logger.error(error instanceof AppError ? error.getUserMessage() : (error instanceof Error ? error.message : String(error)));
+    process.exitCode = 1;
+  });
 }
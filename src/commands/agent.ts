@@ -0,0 +1,112 @@
+import { spawn } from 'node:child_process';
+import { configManager } from '../lib/config.js';
+import { CredentialAgent, DEFAULT_AGENT_IDLE_MINUTES, getAgentSocketPath, lockAgent, queryAgent } from '../lib/agent.js';
+import { readPasswordStdin } from '../lib/master-password.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+// How long `cpa agent` waits for the background agent to answer before giving up
+const AGENT_STARTUP_TIMEOUT_MS = 15000;
+const AGENT_STARTUP_POLL_MS = 200;
+
+function resolveIdleMinutes(value?: string): number | undefined {
+  if (value === undefined) {
+    return configManager.getAgentConfig().idleTimeoutMinutes ?? DEFAULT_AGENT_IDLE_MINUTES;
+  }
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+}
+
+async function waitForAgent(): Promise<boolean> {
+  const deadline = Date.now() + AGENT_STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (await queryAgent({ action: 'status' })) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, AGENT_STARTUP_POLL_MS));
+  }
+  return false;
+}
+
+// Serve the password until the agent locks itself or the process is stopped
+async function runAgent(password: string, idleMinutes: number): Promise<void> {
+  let locked: (reason: 'lock' | 'idle' | 'signal') => void = () => {};
+  const done = new Promise<'lock' | 'idle' | 'signal'>(resolve => { locked = resolve; });
+  const agent = new CredentialAgent(password, { idleTimeoutMs: idleMinutes * 60 * 1000, onLocked: reason => locked(reason) });
+  try {
+    await agent.start();
+  } catch (error) {
+    logger.error(i18n.t('agent.start_failed', { error: error instanceof Error ? error.message : String(error) }));
+    process.exitCode = 1;
+    return;
+  }
+  logger.success(i18n.t('agent.listening', { path: agent.socketPath, minutes: String(idleMinutes) }));
+
+  const onSignal = () => locked('signal');
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+  const reason = await done;
+  process.off('SIGINT', onSignal);
+  process.off('SIGTERM', onSignal);
+  await agent.stop();
+  logger.info(i18n.t(reason === 'idle' ? 'agent.locked_idle' : 'agent.stopped'));
+}
+
+export async function handleAgentStart(options: { ttl?: string; foreground?: boolean } = {}): Promise<void> {
+  const idleMinutes = resolveIdleMinutes(options.ttl);
+  if (idleMinutes === undefined) {
+    logger.error(i18n.t('agent.invalid_ttl', { ttl: String(options.ttl) }));
+    process.exitCode = 1;
+    return;
+  }
+  if (!configManager.hasMasterPassword()) {
+    logger.error(i18n.t('auth.no_master_password'));
+    process.exitCode = 1;
+    return;
+  }
+  const running = await queryAgent({ action: 'status' });
+  if (running?.ok) {
+    logger.info(i18n.t('agent.already_running', { pid: String(running.pid), expires: new Date(running.expiresAt!).toLocaleString() }));
+    return;
+  }
+
+  // The background agent gets the password from `cpa agent` on stdin
+  const password = options.foreground && !process.stdin.isTTY
+    ? await readPasswordStdin()
+    : await wizard.promptMasterPassword();
+  if (!password || !configManager.verifyMasterPassword(password)) {
+    logger.error(i18n.t('auth.invalid_password'));
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.foreground) {
+    await runAgent(password, idleMinutes);
+    return;
+  }
+
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], 'agent', '--foreground', '--ttl', String(idleMinutes)], {
+    detached: true,
+    stdio: ['pipe', 'ignore', 'ignore'],
+    windowsHide: true
+  });
+  child.stdin!.end(password + '\n');
+  child.unref();
+
+  if (!await waitForAgent()) {
+    logger.error(i18n.t('agent.start_failed', { error: i18n.t('agent.no_answer', { path: getAgentSocketPath() }) }));
+    process.exitCode = 1;
+    return;
+  }
+  logger.success(i18n.t('agent.started', { pid: String(child.pid), minutes: String(idleMinutes) }));
+  console.log(i18n.t('agent.lock_hint'));
+}
+
+export async function handleLock(): Promise<void> {
+  if (await lockAgent()) {
+    logger.success(i18n.t('agent.locked'));
+  } else {
+    logger.info(i18n.t('agent.not_running'));
+  }
+}
@@ -0,0 +1,132 @@
+import inquirer from 'inquirer';
+import { configManager } from '../lib/config.js';
+import {
+  auditSecrets,
+  convertFinding,
+  formatMode,
+  formatReference,
+  getAuditTargets,
+  getConversionForm,
+  getCredentialName,
+  isReadableByOthers,
+  maskSecret,
+  type SecretFinding
+} from '../lib/secret-audit.js';
+import { secureCredentialManager } from '../lib/secure-credential-manager.js';
+import { getApiKeyHelperCommand } from '../lib/tool-manager.js';
+import { readProvidedMasterPassword } from '../lib/master-password.js';
+import { getAgentPassword } from '../lib/agent.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+// Stored keys make findings exact; without the password only key shapes are matched
+async function getAuditPassword(): Promise<string | undefined> {
+  if (process.stdin.isTTY) {
+    return wizard.promptMasterPassword();
+  }
+  return (await readProvidedMasterPassword())?.password ?? await getAgentPassword();
+}
+
+function printFindings(findings: SecretFinding[]): void {
+  const byFile = new Map<string, SecretFinding[]>();
+  for (const finding of findings) {
+    byFile.set(finding.target.path, [...(byFile.get(finding.target.path) ?? []), finding]);
+  }
+  for (const [file, fileFindings] of byFile) {
+    const { mode } = fileFindings[0];
+    const access = isReadableByOthers(mode) ? ' ' + i18n.t('audit.readable_by_others') : '';
+    console.log(`\n${file}  ${i18n.t('audit.mode', { mode: formatMode(mode) })}${access}`);
+    for (const finding of fileFindings) {
+      console.log(`  ${i18n.t('audit.line', { line: String(finding.line) })}  ${maskSecret(finding.value)}  ${finding.source}`);
+    }
+  }
+}
+
+// What a finding would be turned into, for the prompt
+function describeConversion(finding: SecretFinding): string {
+  if (getConversionForm(finding) === 'api-key-helper') {
+    return i18n.t('audit.form_api_key_helper', { command: getApiKeyHelperCommand(finding.platform!) });
+  }
+  const { platform, tool, key } = getCredentialName(finding);
+  const reference = formatReference(finding, secureCredentialManager.getEnvVarName(platform, tool, key));
+  return finding.target.kind === 'shell'
+    ? i18n.t('audit.form_helper', { reference, platform, tool })
+    : i18n.t('audit.form_env', { reference });
+}
+
+/**
+ * Look for plaintext keys in tool configs, backups, shell startup files and
+ * .env files, and offer to move each into the credential store
+ */
+export async function handleAuditSecrets(options: { reportOnly?: boolean } = {}): Promise<void> {
+  const password = await getAuditPassword();
+  const known = configManager.getKnownApiKeys(password);
+  if (!password && configManager.hasMasterPassword()) {
+    logger.info(i18n.t('audit.patterns_only'));
+  }
+
+  const findings = auditSecrets(getAuditTargets(), known);
+  if (findings.length === 0) {
+    logger.success(i18n.t('audit.clean'));
+    return;
+  }
+  printFindings(findings);
+  const fileCount = new Set(findings.map(finding => finding.target.path)).size;
+  console.log('');
+  logger.warning(i18n.t('audit.summary', { count: String(findings.length), files: String(fileCount) }));
+
+  if (options.reportOnly || !process.stdin.isTTY) {
+    console.log(i18n.t('audit.convert_hint'));
+    process.exitCode = 1;
+    return;
+  }
+
+  let remaining = findings.length;
+  const converted = new Set<string>();
+  for (const finding of findings) {
+    const form = getConversionForm(finding);
+    if (!form) {
+      logger.warning(i18n.t('audit.manual', { file: finding.target.path, line: String(finding.line) }));
+      continue;
+    }
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: i18n.t('audit.convert_prompt', { file: finding.target.path, line: String(finding.line), key: maskSecret(finding.value) }),
+        choices: [
+          { name: describeConversion(finding), value: 'convert' },
+          { name: i18n.t('audit.skip'), value: 'skip' },
+          { name: i18n.t('audit.stop'), value: 'stop' }
+        ]
+      }
+    ]);
+    if (action === 'stop') {
+      break;
+    }
+    if (action === 'skip') {
+      continue;
+    }
+    const rewritten = convertFinding(finding);
+    if (rewritten === undefined) {
+      logger.error(i18n.t('audit.convert_failed', { file: finding.target.path, line: String(finding.line) }));
+      continue;
+    }
+    logger.success(i18n.t('audit.converted', { file: finding.target.path }));
+    console.log('    ' + rewritten.trim());
+    if (form === 'reference') {
+      const { platform, tool } = getCredentialName(finding);
+      converted.add(`${platform} ${tool}`);
+    }
+    remaining--;
+  }
+
+  for (const pair of converted) {
+    const [platform, tool] = pair.split(' ');
+    console.log(i18n.t('audit.env_hint', { platform, tool }));
+  }
+  if (remaining > 0) {
+    process.exitCode = 1;
+  }
+}
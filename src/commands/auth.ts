@@ -1,13 +1,22 @@
+import path from 'node:path';
 import inquirer from 'inquirer';
-import type { PlatformId } from '../types/config.js';
+import ora from 'ora';
+import type { PlatformId, ResolvedCredentials } from '../types/config.js';
 import { configManager } from '../lib/config.js';
 import { platformManager } from '../lib/platform-manager.js';
-import { toolManager } from '../lib/tool-manager.js';
+import { toolManager, API_KEY_HELPER_CREDENTIAL } from '../lib/tool-manager.js';
 import { toolRegistry } from '../lib/tool-registry.js';
+import { DEFAULT_KEY_NAME } from '../lib/key-pool.js';
+import { describeKeyValidation } from '../lib/key-validation.js';
+import { secureCredentialManager } from '../lib/secure-credential-manager.js';
+import { getAuditTargets, findSecretTargets, replaceSecret } from '../lib/secret-audit.js';
+import { wizard } from '../lib/wizard.js';
+import { getAgentPassword, lockAgent } from '../lib/agent.js';
+import { readProvidedMasterPassword, type MasterPasswordOptions } from '../lib/master-password.js';
 import { logger } from '../lib/logger.js';
 import { i18n } from '../lib/i18n.js';
 
-export async function handleAuth(args: string[]): Promise<void> {
+export async function handleAuth(args: string[], options: MasterPasswordOptions = {}): Promise<void> {
   if (args.length === 0) {
     await interactiveAuth();
     return;
@@ -15,9 +24,11 @@ export async function handleAuth(args: string[]): Promise<void> {
 
   const platform = args[0] as PlatformId;
   const token = args[1];
-  const password = args[2];
+  if (args[2]) {
+    logger.warning(i18n.t('auth.password_argument_deprecated'));
+  }
 
-  if (!['glm', 'minimax'].includes(platform)) {
+  if (!platformManager.hasPlatform(platform)) {
     logger.error(i18n.t('auth.platform_not_supported', { platform }));
     return;
   }
@@ -27,6 +38,11 @@ export async function handleAuth(args: string[]): Promise<void> {
     return;
   }
 
+  // An existing master password may come from the agent or a prompt; the first one must be given
+  const sources = { ...options, password: args[2] };
+  const password = configManager.hasMasterPassword()
+    ? await wizard.promptMasterPassword(sources)
+    : (await readProvidedMasterPassword(sources))?.password;
   if (!password) {
     logger.error(i18n.t('auth.password_required'));
     return;
@@ -46,7 +62,8 @@ export async function handleReload(args: string[]): Promise<void> {
   }
 
   const platform = configManager.getActivePlatform();
-  const apiKey = configManager.getApiKey(platform);
+  const password = await wizard.promptMasterPassword();
+  const apiKey = configManager.getApiKey(platform, password);
 
   if (!apiKey) {
     logger.error(i18n.t('auth.reload_missing_config'));
@@ -61,29 +78,159 @@ export async function handleReload(args: string[]): Promise<void> {
 
   logger.info(i18n.t('auth.reloading', { tool: tool.name }));
 
-  const success = toolManager.loadPlatformConfig(toolId, platform);
+  // A tool set up with an apiKeyHelper keeps it
+  const success = toolManager.loadPlatformConfig(toolId, platform, { password, apiKeyHelper: toolManager.usesApiKeyHelper(toolId) });
   if (success) {
     logger.success(i18n.t('auth.reloaded', { tool: tool.name }));
+    remindKeyRotation([platform]);
   } else {
     logger.error(i18n.t('auth.reload_failed'));
   }
 }
 
-async function interactiveAuth(): Promise<void> {
-  const platform = await selectPlatform();
-  const { password } = await inquirer.prompt([
+/**
+ * Print a platform key for Claude Code's apiKeyHelper. The key stored by
+ * `tool load --api-key-helper` is used first, else the platform key is
+ * decrypted with a password from CPA_MASTER_PASSWORD or the agent. Claude Code
+ * runs this without a terminal, so it never prompts, and only the key goes
+ * to stdout; log messages go to stderr.
+ */
+export async function handlePrintToken(args: string[], options: { profile?: string } = {}): Promise<void> {
+  await logger.withStderr(() => printToken(args, options));
+}
+
+async function printToken(args: string[], options: { profile?: string }): Promise<void> {
+  const platform = args[0] as PlatformId;
+  if (!platformManager.hasPlatform(platform)) {
+    logger.error(i18n.t('auth.platform_not_supported', { platform }));
+    process.exitCode = 1;
+    return;
+  }
+
+  let token = secureCredentialManager.getCredential(platform, 'claude-code', API_KEY_HELPER_CREDENTIAL);
+  if (!token) {
+    let credentials: ResolvedCredentials;
+    try {
+      credentials = configManager.resolveCredentials(platform, options.profile);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+      return;
+    }
+    const password = (await readProvidedMasterPassword())?.password ?? await getAgentPassword();
+    token = configManager.decryptCredentials(credentials, password);
+  }
+  if (!token) {
+    logger.error(i18n.t('auth.print_token_unavailable', { platform }));
+    process.exitCode = 1;
+    return;
+  }
+  console.log(token);
+}
+
+/**
+ * Replace a platform key that was rotated at the vendor: check the new key,
+ * store it, and swap it into every file the secret audit scans (tool configs,
+ * VS Code settings, shell files and others) and every stored credential, such
+ * as those behind `cpa env` and the apiKeyHelper, that still holds the old one
+ */
+export async function handleAuthRotate(args: string[], options: MasterPasswordOptions & { force?: boolean } = {}): Promise<void> {
+  const platform = args[0] as PlatformId;
+  if (!platformManager.hasPlatform(platform)) {
+    logger.error(i18n.t('auth.platform_not_supported', { platform }));
+    process.exitCode = 1;
+    return;
+  }
+
+  const password = await wizard.promptMasterPassword(options);
+  if (!password) {
+    logger.error(i18n.t('auth.password_required'));
+    process.exitCode = 1;
+    return;
+  }
+  const oldKey = configManager.getApiKey(platform, password);
+  if (!oldKey) {
+    logger.error(i18n.t('auth.rotate_no_key', { platform }));
+    process.exitCode = 1;
+    return;
+  }
+
+  const { apiKey } = await inquirer.prompt([
     {
       type: 'password',
-      name: 'password',
-      message: i18n.t('wizard.enter_master_password'),
+      name: 'apiKey',
+      message: i18n.t('auth.rotate_key_prompt', { platform }),
       validate: (input: string) => {
-        if (!input || input.trim().length === 0) {
-          return i18n.t('wizard.password_required');
+        if (input.trim().length === 0) {
+          return i18n.t('auth.token_required');
         }
-        return true;
+        return input.trim() !== oldKey || i18n.t('auth.rotate_same_key');
       }
     }
   ]);
+  const newKey = apiKey.trim();
+
+  const spinner = ora(i18n.t('wizard.validating_api_key'));
+  spinner.start();
+  const result = await platformManager.validateApiKey(platform, newKey, configManager.getPlan());
+  spinner.stop();
+  if (result.valid) {
+    logger.success(i18n.t('key_validation.valid') + ` (${result.latencyMs}ms)`);
+  } else {
+    logger.warning(describeKeyValidation(result));
+    if (!options.force) {
+      logger.error(i18n.t('auth.rotate_not_validated'));
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const targets = findSecretTargets(getAuditTargets(), oldKey);
+  configManager.setApiKey(platform, newKey, password);
+  logger.success(i18n.t('auth.saved', { platform }));
+
+  for (const target of targets) {
+    const tool = target.kind === 'tool' && target.toolId ? toolManager.getTool(target.toolId) : undefined;
+    if (replaceSecret(target, oldKey, newKey)) {
+      logger.success(i18n.t('auth.rotate_tool_updated', { tool: tool?.displayName ?? path.basename(target.path), path: target.path }));
+    } else {
+      logger.error(tool
+        ? i18n.t('auth.rotate_tool_failed', { tool: tool.displayName })
+        : i18n.t('auth.rotate_file_failed', { path: target.path }));
+      process.exitCode = 1;
+    }
+  }
+  const credentialTools = secureCredentialManager.replaceCredentialValue(platform, oldKey, newKey);
+  for (const toolId of credentialTools) {
+    logger.success(i18n.t('auth.rotate_credential_updated', { tool: toolId }));
+  }
+  if (targets.length === 0 && credentialTools.length === 0) {
+    logger.info(i18n.t('auth.rotate_no_tools'));
+  }
+}
+
+/**
+ * Warn about platform keys stored longer ago than `auth.keyRotationDays`
+ */
+export function remindKeyRotation(platforms: PlatformId[] = platformManager.getPlatformIds()): void {
+  const { keyRotationDays } = configManager.getAuthConfig();
+  if (!keyRotationDays) {
+    return;
+  }
+  for (const platform of platforms) {
+    const ageDays = configManager.getApiKeyAgeDays(platform);
+    if (ageDays !== undefined && ageDays >= keyRotationDays) {
+      logger.warning(i18n.t('auth.rotate_reminder', { platform, days: String(ageDays) }));
+    }
+  }
+}
+
+async function interactiveAuth(): Promise<void> {
+  const platform = await selectPlatform();
+  // The first key sets up the master password; later keys must use the same one
+  const password = configManager.hasMasterPassword()
+    ? await wizard.promptMasterPassword()
+    : await wizard.configMasterPassword();
   const apiKey = await inputApiKey(platform, password);
   if (password) {
     configManager.setApiKey(platform, apiKey, password);
@@ -99,10 +246,7 @@ async function selectPlatform(): Promise<PlatformId> {
       type: 'list',
       name: 'platform',
       message: i18n.t('auth.platform_prompt'),
-      choices: [
-        { name: 'GLM (Z.AI)', value: 'glm' as PlatformId },
-        { name: 'MiniMax', value: 'minimax' as PlatformId }
-      ],
+      choices: platformManager.getPlatformChoices(),
       default: configManager.getActivePlatform()
     }
   ]);
@@ -111,7 +255,7 @@ async function selectPlatform(): Promise<PlatformId> {
   return platform;
 }
 
-async function inputApiKey(platform: PlatformId, password: string): Promise<string> {
+async function inputApiKey(platform: PlatformId, password?: string): Promise<string> {
   const existingKey = configManager.getApiKey(platform, password);
   const apiDocsUrl = platformManager.getApiDocsUrl(platform);
 
@@ -134,3 +278,156 @@ async function inputApiKey(platform: PlatformId, password: string): Promise<stri
 
   return apiKey.trim();
 }
+
+function resolvePoolPlatform(platformArg?: string): PlatformId | undefined {
+  const platform = platformArg || configManager.getActivePlatform();
+  if (!platformManager.hasPlatform(platform)) {
+    logger.error(i18n.t('auth.platform_not_supported', { platform }));
+    return undefined;
+  }
+  return platform;
+}
+
+export async function handleAuthPoolList(args: string[]): Promise<void> {
+  let platformIds = platformManager.getPlatformIds();
+  if (args[0]) {
+    const platformId = resolvePoolPlatform(args[0]);
+    if (!platformId) {
+      return;
+    }
+    platformIds = [platformId];
+  }
+
+  for (const platformId of platformIds) {
+    const hasDefault = !!configManager.getPlatformConfig(platformId).encrypted_api_key;
+    const pool = configManager.getKeyPool(platformId);
+    console.log(`\n${platformManager.getPlatform(platformId)!.name} (${platformId}):`);
+    console.log(`  ${DEFAULT_KEY_NAME.padEnd(12)} ${hasDefault ? i18n.t('auth.pool_default_key') : i18n.t('auth.pool_no_default')}`);
+    for (const key of pool) {
+      const added = key.added_at ? i18n.t('auth.pool_added_at', { date: new Date(key.added_at).toLocaleString() }) : '';
+      console.log(`  ${key.name.padEnd(12)} ${added}`);
+    }
+    if (pool.length === 0) {
+      console.log('  ' + i18n.t('auth.pool_empty', { platform: platformId }));
+    }
+  }
+  console.log('\n' + i18n.t('auth.pool_gateway_hint'));
+}
+
+export async function handleAuthPoolAdd(args: string[]): Promise<void> {
+  const platform = resolvePoolPlatform(args[0]);
+  if (!platform) {
+    return;
+  }
+  const names = new Set(configManager.getKeyPool(platform).map(key => key.name));
+  let name = args[1];
+  if (!name) {
+    let n = names.size + 1;
+    while (names.has(`key-${n}`)) {
+      n++;
+    }
+    name = `key-${n}`;
+  }
+  if (name === DEFAULT_KEY_NAME) {
+    logger.error(i18n.t('auth.pool_reserved_name', { name }));
+    return;
+  }
+  if (names.has(name)) {
+    logger.error(i18n.t('auth.pool_exists', { name, platform }));
+    return;
+  }
+
+  const { apiKey, password } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'apiKey',
+      message: i18n.t('auth.pool_key_prompt', { name, platform }),
+      validate: (input: string) => input.trim().length > 0 || i18n.t('auth.token_required')
+    },
+    {
+      type: 'password',
+      name: 'password',
+      message: i18n.t('wizard.enter_master_password'),
+      validate: (input: string) => {
+        if (input.trim().length === 0) {
+          return i18n.t('wizard.password_required');
+        }
+        return configManager.verifyMasterPassword(input) || i18n.t('wizard.invalid_master_password');
+      }
+    }
+  ]);
+
+  configManager.addPooledKey(platform, name, apiKey.trim(), password);
+  logger.success(i18n.t('auth.pool_added', { name, platform }));
+}
+
+export async function handleAuthPoolRemove(args: string[]): Promise<void> {
+  const [platformArg, name] = args;
+  if (!platformArg || !name) {
+    logger.error(i18n.t('auth.pool_remove_usage'));
+    return;
+  }
+  const platform = resolvePoolPlatform(platformArg);
+  if (!platform) {
+    return;
+  }
+  if (!configManager.removePooledKey(platform, name)) {
+    logger.error(i18n.t('auth.pool_not_found', { name, platform }));
+    return;
+  }
+  logger.success(i18n.t('auth.pool_removed', { name, platform }));
+}
+
+export async function handleChangePassword(): Promise<void> {
+  if (!configManager.hasMasterPassword()) {
+    logger.error(i18n.t('auth.no_master_password'));
+    return;
+  }
+
+  const { oldPassword, newPassword } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'oldPassword',
+      message: i18n.t('auth.old_password_prompt'),
+      validate: (input: string) => configManager.verifyMasterPassword(input) || i18n.t('wizard.invalid_master_password')
+    },
+    {
+      type: 'password',
+      name: 'newPassword',
+      message: i18n.t('auth.new_password_prompt'),
+      validate: (input: string) => {
+        if (!input || input.trim().length === 0) {
+          return i18n.t('wizard.password_required');
+        }
+        if (input.length < 6) {
+          return i18n.t('wizard.password_min_length');
+        }
+        return true;
+      }
+    },
+    {
+      type: 'password',
+      name: 'confirm',
+      message: i18n.t('wizard.confirm_master_password'),
+      validate: (input: string, answers?: { newPassword?: string }) =>
+        input === answers?.newPassword || i18n.t('wizard.password_mismatch')
+    }
+  ]);
+
+  if (oldPassword === newPassword) {
+    logger.warning(i18n.t('auth.password_unchanged'));
+    return;
+  }
+
+  try {
+    const count = configManager.changeMasterPassword(oldPassword, newPassword);
+    logger.success(i18n.t('auth.password_changed', { count: String(count) }));
+    // A running agent still holds the old password
+    if (await lockAgent()) {
+      console.log(i18n.t('agent.locked_after_change'));
+    }
+    console.log(i18n.t('auth.password_changed_hint'));
+  } catch (error) {
+    logger.error(i18n.t('auth.change_password_failed', { error: error instanceof Error ? error.message : String(error) }));
+  }
+}
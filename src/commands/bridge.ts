@@ -0,0 +1,72 @@
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { Bridge, DEFAULT_BRIDGE_PORT, getBridgeBaseUrl, getBridgeTarget } from '../lib/bridge.js';
+import { httpClient } from '../lib/http-client.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+import type { ProviderProtocol } from '../types/provider.js';
+
+/**
+ * Port from a CLI value, falling back to the configured or default port
+ */
+export function resolveBridgePort(value?: string | boolean): number | undefined {
+  if (value === undefined || value === true) {
+    return configManager.getBridgeConfig().port ?? DEFAULT_BRIDGE_PORT;
+  }
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined;
+}
+
+export async function handleBridgeStart(options: { port?: string; platform?: string } = {}): Promise<void> {
+  const port = resolveBridgePort(options.port);
+  if (port === undefined) {
+    logger.error(i18n.t('bridge.invalid_port', { port: String(options.port) }));
+    return;
+  }
+
+  const platformId = options.platform || configManager.getActivePlatform();
+  const platform = platformManager.getPlatform(platformId);
+  if (!platform) {
+    logger.error(i18n.t('platform.invalid', { platform: platformId }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+
+  const credentials = configManager.resolveCredentials(platformId);
+  const bridge = new Bridge({
+    port,
+    platform: platformId,
+    baseUrls: {
+      anthropic: credentials.endpoint || platform.getEndpoint(credentials.plan, 'anthropic'),
+      openai: platform.getEndpoint(credentials.plan, 'openai')
+    },
+    models: platform.models,
+    timeoutMs: httpClient.getProxyTimeoutMs()
+  });
+  try {
+    await bridge.start();
+  } catch (error) {
+    logger.error(i18n.t('bridge.start_failed', { error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  logger.success(i18n.t('bridge.listening', { platform: platform.name, port: String(port) }));
+  const protocols: ProviderProtocol[] = ['openai', 'anthropic'];
+  for (const protocol of protocols) {
+    const target = getBridgeTarget(protocol);
+    const line = platform.supportsProtocol(target)
+      ? i18n.t('bridge.route', { url: getBridgeBaseUrl(port, protocol), source: protocol, target })
+      : i18n.t('bridge.route_unavailable', { source: protocol, target });
+    console.log('  ' + line);
+  }
+  console.log(i18n.t('bridge.load_hint', { port: String(port) }));
+  console.log(i18n.t('gateway.stop_hint'));
+
+  // Serve until interrupted
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await bridge.stop();
+  logger.info(i18n.t('bridge.stopped'));
+}
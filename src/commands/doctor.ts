@@ -6,6 +6,10 @@ import { toolManager } from '../lib/tool-manager.js';
 import { toolRegistry } from '../lib/tool-registry.js';
 import { toolInstaller } from '../lib/tool-installer.js';
 import { platformManager } from '../lib/platform-manager.js';
+import { describeKeyValidation } from '../lib/key-validation.js';
+import { httpClient } from '../lib/http-client.js';
+import { getAgentPassword } from '../lib/agent.js';
+import { remindKeyRotation } from './auth.js';
 import { logger } from '../lib/logger.js';
 import { i18n } from '../lib/i18n.js';
 
@@ -22,20 +26,35 @@ export async function doctor(): Promise<boolean> {
 
   // Check API key & network
   const platform = configManager.getActivePlatform();
-  const apiKey = configManager.getApiKey(platform);
+  // The key can only be decrypted without a prompt when `cpa agent` is unlocked
+  const apiKey = configManager.getApiKey(platform, await getAgentPassword());
+
+  // Report the proxy used to reach the platform
+  const platformInfo = platformManager.getPlatform(platform);
+  const endpoint = platformInfo?.getEndpoint(configManager.getPlan(), platformInfo.protocols[0]);
+  const proxyInfo = httpClient.getProxyInfo(endpoint);
+  process.stdout.write('  ' + i18n.t('doctor.check_proxy') + '... ');
+  if (!proxyInfo.proxy) {
+    logger.info(i18n.t('doctor.proxy_none'));
+  } else if (proxyInfo.bypassed) {
+    logger.info(i18n.t('doctor.proxy_bypassed', { proxy: proxyInfo.proxy }));
+  } else {
+    const source = proxyInfo.source === 'config' ? 'config.yaml' : proxyInfo.envVar || '';
+    logger.info(i18n.t('doctor.proxy_in_use', { proxy: proxyInfo.proxy, source }));
+  }
 
   if (apiKey) {
     const spinner = ora(i18n.t('doctor.check_api_key_network'));
     spinner.start();
 
     try {
-      const isValid = await platformManager.validateApiKey(platform, apiKey);
+      const result = await platformManager.validateApiKey(platform, apiKey, configManager.getPlan());
       spinner.stop();
 
-      if (isValid) {
-        logger.success(i18n.t('doctor.api_key_network_ok'));
+      if (result.valid) {
+        logger.success(i18n.t('doctor.api_key_network_ok') + ` (${result.latencyMs}ms)`);
       } else {
-        logger.error(i18n.t('doctor.api_key_invalid'));
+        logger.error(describeKeyValidation(result));
         allPassed = false;
       }
     } catch (error) {
@@ -45,10 +64,12 @@ export async function doctor(): Promise<boolean> {
     }
   } else {
     process.stdout.write('  ' + i18n.t('doctor.check_api_key_network') + '... ');
-    logger.warning(i18n.t('doctor.api_key_missing'));
+    logger.warning(i18n.t(configManager.resolveCredentials(platform).encrypted_api_key ? 'doctor.api_key_locked' : 'doctor.api_key_missing'));
     allPassed = false;
   }
 
+  remindKeyRotation();
+
   // Check platform config
   process.stdout.write('  ' + i18n.t('doctor.check_platform_config') + '... ');
   if (platform) {
@@ -0,0 +1,76 @@
+import { secureCredentialManager } from '../lib/secure-credential-manager.js';
+import { detectShell, formatSourceCommand, isShellType, SHELL_TYPES, type ShellType } from '../lib/shell.js';
+import { runWithEnvironment } from '../lib/process-runner.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+function resolveShell(value?: string): ShellType | undefined {
+  if (value === undefined) {
+    return detectShell();
+  }
+  if (!isShellType(value)) {
+    logger.error(i18n.t('env.invalid_shell', { shell: value, shells: SHELL_TYPES.join(', ') }));
+    return undefined;
+  }
+  return value;
+}
+
+// Credentials of the tool on the platform, or undefined after reporting that there are none
+function getEnvironment(platformId: string, toolId: string): Record<string, string> | undefined {
+  const environment = secureCredentialManager.getCredentialEnvironment(platformId, toolId);
+  if (Object.keys(environment).length === 0) {
+    logger.error(i18n.t('env.no_credentials', { platform: platformId, tool: toolId }));
+    return undefined;
+  }
+  return environment;
+}
+
+export async function handleEnvExport(args: string[], options: { shell?: string } = {}): Promise<void> {
+  // Only the statements go to stdout so the output can be sourced directly
+  await logger.withStderr(async () => exportEnvironment(args, options));
+}
+
+function exportEnvironment(args: string[], options: { shell?: string }): void {
+  const [platformId, toolId] = args;
+  if (!platformId || !toolId) {
+    logger.error(i18n.t('env.export_usage'));
+    process.exitCode = 1;
+    return;
+  }
+  const shell = resolveShell(options.shell);
+  if (!shell || !getEnvironment(platformId, toolId)) {
+    process.exitCode = 1;
+    return;
+  }
+  console.log(secureCredentialManager.exportCredentialsForSourcing(platformId, toolId, shell));
+}
+
+export async function handleEnvSource(args: string[], options: { shell?: string } = {}): Promise<void> {
+  const [platformId, toolId] = args;
+  if (!platformId || !toolId) {
+    logger.error(i18n.t('env.source_usage'));
+    process.exitCode = 1;
+    return;
+  }
+  const shell = resolveShell(options.shell);
+  if (!shell || !getEnvironment(platformId, toolId)) {
+    process.exitCode = 1;
+    return;
+  }
+  console.log(i18n.t('env.source_hint', { shell }));
+  console.log('  ' + formatSourceCommand(`cpa env export ${platformId} ${toolId} --shell ${shell}`, shell));
+}
+
+export async function handleEnvRun(command: string[], options: { platform?: string; tool?: string } = {}): Promise<void> {
+  if (!options.platform || !options.tool || command.length === 0) {
+    logger.error(i18n.t('env.run_usage'));
+    process.exitCode = 1;
+    return;
+  }
+  const environment = getEnvironment(options.platform, options.tool);
+  if (!environment) {
+    process.exitCode = 1;
+    return;
+  }
+  process.exitCode = await runWithEnvironment(command[0], command.slice(1), environment);
+}
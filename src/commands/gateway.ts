@@ -0,0 +1,83 @@
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { Gateway, DEFAULT_GATEWAY_PORT, GATEWAY_HOST, resolveGatewayUpstreams } from '../lib/gateway.js';
+import { routeLog } from '../lib/route-log.js';
+import { httpClient } from '../lib/http-client.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+/**
+ * Port from a CLI value, falling back to the configured or default port
+ */
+export function resolveGatewayPort(value?: string | boolean): number | undefined {
+  if (value === undefined || value === true) {
+    return configManager.getGatewayConfig().port ?? DEFAULT_GATEWAY_PORT;
+  }
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined;
+}
+
+export async function handleGatewayStart(options: { port?: string; platforms?: string } = {}): Promise<void> {
+  const port = resolveGatewayPort(options.port);
+  if (port === undefined) {
+    logger.error(i18n.t('gateway.invalid_port', { port: String(options.port) }));
+    return;
+  }
+
+  const platformIds = options.platforms?.split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = platformIds?.filter(id => !platformManager.hasPlatform(id)) || [];
+  if (unknown.length > 0) {
+    logger.error(i18n.t('platform.invalid', { platform: unknown.join(', ') }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+
+  const password = await wizard.promptMasterPassword();
+
+  const { upstreams, skipped } = resolveGatewayUpstreams(password, platformIds);
+  if (skipped.length > 0) {
+    logger.warning(i18n.t('gateway.skipped', { platforms: skipped.join(', ') }));
+  }
+  if (upstreams.length === 0) {
+    logger.error(i18n.t('gateway.no_upstreams'));
+    return;
+  }
+
+  const routes = configManager.getRoutes();
+  const gateway = new Gateway({
+    port,
+    token: configManager.getGatewayToken(),
+    upstreams,
+    routes,
+    timeoutMs: httpClient.getProxyTimeoutMs(),
+    onDispatch: entry => routeLog.append(entry)
+  });
+  try {
+    await gateway.start();
+  } catch (error) {
+    logger.error(i18n.t('gateway.start_failed', { error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  logger.success(i18n.t('gateway.listening', { url: `http://${GATEWAY_HOST}:${port}` }));
+  const platforms = upstreams.map(u => u.pooledKeys
+    ? i18n.t('gateway.key_count', { platform: u.platform, count: String(u.pooledKeys.length + 1) })
+    : u.platform);
+  console.log(i18n.t('gateway.upstreams', { platforms: platforms.join(' -> ') }));
+  if (Object.keys(routes).length > 0) {
+    console.log(i18n.t('gateway.routes', {
+      routes: Object.entries(routes).map(([match, target]) => `${match} -> ${target.platform}${target.model ? '/' + target.model : ''}`).join(', ')
+    }));
+  }
+  console.log(i18n.t('gateway.load_hint', { port: String(port) }));
+  console.log(i18n.t('gateway.stop_hint'));
+
+  // Serve until interrupted
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await gateway.stop();
+  logger.info(i18n.t('gateway.stopped'));
+}
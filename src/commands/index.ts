@@ -2,5 +2,17 @@ export { doctor } from './doctor.js';
 export * from './auth.js';
 export * from './lang.js';
 export * from './platform.js';
+export * from './model.js';
+export * from './usage.js';
+export * from './profile.js';
+export * from './gateway.js';
+export * from './route.js';
+export * from './meter.js';
+export * from './bridge.js';
+export * from './record.js';
+export * from './env.js';
+export * from './run.js';
+export * from './agent.js';
+export * from './audit.js';
 
 export * from './tool.js';
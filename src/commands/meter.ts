@@ -0,0 +1,70 @@
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { Meter, DEFAULT_METER_PORT, getMeterBaseUrl } from '../lib/meter.js';
+import { usageStore } from '../lib/usage-store.js';
+import { httpClient } from '../lib/http-client.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+/**
+ * Port from a CLI value, falling back to the configured or default port
+ */
+export function resolveMeterPort(value?: string | boolean): number | undefined {
+  if (value === undefined || value === true) {
+    return configManager.getMeterConfig().port ?? DEFAULT_METER_PORT;
+  }
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined;
+}
+
+export async function handleMeterStart(options: { port?: string; platform?: string; project?: string } = {}): Promise<void> {
+  const port = resolveMeterPort(options.port);
+  if (port === undefined) {
+    logger.error(i18n.t('meter.invalid_port', { port: String(options.port) }));
+    return;
+  }
+
+  const platformId = options.platform || configManager.getActivePlatform();
+  const platform = platformManager.getPlatform(platformId);
+  if (!platform) {
+    logger.error(i18n.t('platform.invalid', { platform: platformId }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+
+  const credentials = configManager.resolveCredentials(platformId);
+  const meterConfig = configManager.getMeterConfig();
+  const meter = new Meter({
+    port,
+    platform: platformId,
+    baseUrls: {
+      anthropic: credentials.endpoint || platform.getEndpoint(credentials.plan, 'anthropic'),
+      openai: platform.getEndpoint(credentials.plan, 'openai')
+    },
+    project: options.project,
+    budget: meterConfig.budget,
+    timeoutMs: httpClient.getProxyTimeoutMs()
+  });
+  try {
+    await meter.start();
+  } catch (error) {
+    logger.error(i18n.t('meter.start_failed', { error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  logger.success(i18n.t('meter.listening', { platform: platform.name, port: String(port) }));
+  for (const protocol of platform.protocols) {
+    console.log(`  ${protocol.padEnd(10)} ${getMeterBaseUrl(port, '<tool>', protocol)}`);
+  }
+  console.log(i18n.t('meter.load_hint', { port: String(port) }));
+  console.log(i18n.t('meter.store', { path: usageStore.getFilePath() }));
+  console.log(i18n.t('gateway.stop_hint'));
+
+  // Serve until interrupted
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await meter.stop();
+  logger.info(i18n.t('meter.stopped'));
+}
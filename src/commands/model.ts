@@ -0,0 +1,165 @@
+import type { PlatformId, ModelTier } from '../types/config.js';
+import { configManager } from '../lib/config.js';
+import { platformManager, MODEL_TIERS } from '../lib/platform-manager.js';
+import { modelCatalog, type ModelCatalogEntry } from '../lib/model-catalog.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+function isModelTier(value: string | undefined): value is ModelTier {
+  return !!value && MODEL_TIERS.includes(value as ModelTier);
+}
+
+function resolvePlatform(platformArg?: string): PlatformId | undefined {
+  const platform = platformArg || configManager.getActivePlatform();
+  if (!platformManager.hasPlatform(platform)) {
+    logger.error(i18n.t('platform.invalid', { platform }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return undefined;
+  }
+  return platform;
+}
+
+export async function handleShowModels(args: string[]): Promise<void> {
+  const platformId = resolvePlatform(args[0]);
+  if (!platformId) {
+    return;
+  }
+
+  const platform = platformManager.getPlatform(platformId)!;
+  const tiers = configManager.getModelTiers(platformId);
+  const resolved = platform.resolveModelTiers(tiers);
+
+  console.log('\n' + i18n.t('model.current', { platform: platform.name }) + ':');
+  for (const tier of MODEL_TIERS) {
+    const marker = tiers[tier] ? '' : ' ' + i18n.t('model.default_marker');
+    console.log(`  ${tier.padEnd(10)} ${resolved[tier]}${marker}`);
+  }
+  console.log('\n' + i18n.t('model.available') + ': ' + modelCatalog.getModels(platformId).join(', '));
+}
+
+export async function handleSetModel(args: string[]): Promise<void> {
+  const [tier, model, platformArg] = args;
+
+  if (!tier || !model) {
+    logger.error(i18n.t('model.set_usage'));
+    return;
+  }
+  if (!isModelTier(tier)) {
+    logger.error(i18n.t('model.invalid_tier', { tier, tiers: MODEL_TIERS.join(', ') }));
+    return;
+  }
+
+  const platformId = resolvePlatform(platformArg);
+  if (!platformId) {
+    return;
+  }
+  if (!modelCatalog.isKnownModel(platformId, model)) {
+    logger.error(i18n.t('model.invalid_model', { model, platform: platformId }));
+    console.log(i18n.t('model.available') + ': ' + modelCatalog.getModels(platformId).join(', '));
+    return;
+  }
+
+  configManager.setModelTier(platformId, tier, model);
+  logger.success(i18n.t('model.changed', { tier, model, platform: platformId }));
+}
+
+export async function handleResetModels(args: string[]): Promise<void> {
+  // The tier is optional, so a single argument may be either a tier or a platform
+  const tier = isModelTier(args[0]) ? args[0] : undefined;
+  const platformId = resolvePlatform(tier ? args[1] : args[0]);
+  if (!platformId) {
+    return;
+  }
+
+  configManager.resetModelTiers(platformId, tier);
+  logger.success(i18n.t('model.reset', { tiers: tier || MODEL_TIERS.join(', '), platform: platformId }));
+}
+
+export async function handleModelMenu(): Promise<void> {
+  await wizard.configModelTiers(configManager.getActivePlatform());
+}
+
+function describeSource(entry: ModelCatalogEntry): string {
+  switch (entry.source) {
+    case 'live':
+      return i18n.t('model.source_live');
+    case 'cache':
+      return i18n.t('model.source_cache', { date: entry.fetchedAt || '?' });
+    default:
+      return i18n.t('model.source_builtin');
+  }
+}
+
+export async function handleListModels(args: string[], options: { refresh?: boolean } = {}): Promise<void> {
+  let platformIds = platformManager.getPlatformIds();
+  if (args[0]) {
+    const platformId = resolvePlatform(args[0]);
+    if (!platformId) {
+      return;
+    }
+    platformIds = [platformId];
+  }
+
+  const password = options.refresh ? await wizard.promptMasterPassword() : undefined;
+  const plan = configManager.getPlan();
+
+  for (const platformId of platformIds) {
+    const platform = platformManager.getPlatform(platformId)!;
+    let entry = modelCatalog.getEntry(platformId);
+
+    if (options.refresh) {
+      const apiKey = configManager.getApiKey(platformId, password);
+      if (!apiKey) {
+        logger.warning(i18n.t('model.no_api_key', { platform: platformId, source: describeSource(entry) }));
+      } else {
+        entry = await modelCatalog.refresh(platformId, plan, apiKey);
+        if (entry.error) {
+          logger.warning(i18n.t('model.refresh_failed', { platform: platformId, error: entry.error, source: describeSource(entry) }));
+        }
+      }
+    }
+
+    console.log(`\n${platform.name} (${platformId}) - ${describeSource(entry)}:`);
+    for (const model of entry.models) {
+      const marker = model === platform.defaultModel ? ' ' + i18n.t('model.default_marker') : '';
+      console.log(`  ${model}${marker}`);
+    }
+
+    const unknown = modelCatalog.getUnknownModels(platformId, configManager.getModelTiers(platformId));
+    if (unknown.length > 0) {
+      logger.warning(i18n.t('model.unknown_tier_models', { platform: platformId, models: unknown.join(', ') }));
+    }
+  }
+}
+
+export async function handleShowModelInfo(args: string[]): Promise<void> {
+  const [model, platformArg] = args;
+  if (!model) {
+    logger.error(i18n.t('model.show_info_usage'));
+    return;
+  }
+
+  const matches = modelCatalog.findModel(model).filter(match => !platformArg || match.platform === platformArg);
+  if (matches.length === 0) {
+    logger.error(i18n.t('model.not_found', { model }));
+    return;
+  }
+
+  const unknown = i18n.t('model.unknown_value');
+  for (const { platform, info } of matches) {
+    console.log(`\n${model} (${platform}):`);
+    if (!info) {
+      console.log('  ' + i18n.t('model.no_metadata'));
+      continue;
+    }
+    const tokens = (value?: number) => value ? `${value.toLocaleString('en-US')} tokens` : unknown;
+    const list = (values?: string[]) => values && values.length > 0 ? values.join(', ') : unknown;
+    console.log(`  ${i18n.t('model.context_length').padEnd(16)} ${tokens(info.contextLength)}`);
+    console.log(`  ${i18n.t('model.max_output').padEnd(16)} ${tokens(info.maxOutputTokens)}`);
+    console.log(`  ${i18n.t('model.speed').padEnd(16)} ${info.speed || unknown}`);
+    console.log(`  ${i18n.t('model.modalities').padEnd(16)} ${list(info.modalities)}`);
+    console.log(`  ${i18n.t('model.capabilities').padEnd(16)} ${list(info.capabilities)}`);
+    console.log(`  ${i18n.t('model.deprecated').padEnd(16)} ${info.deprecated ? i18n.t('model.yes') : i18n.t('model.no')}`);
+  }
+}
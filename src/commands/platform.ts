@@ -1,6 +1,7 @@
 import inquirer from 'inquirer';
 import type { PlatformId } from '../types/config.js';
 import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
 import { logger } from '../lib/logger.js';
 import { i18n } from '../lib/i18n.js';
 
@@ -9,12 +10,21 @@ export async function handleShowPlatform(): Promise<void> {
   console.log(i18n.t('platform.current') + ': ' + platform);
 }
 
+export async function handleListPlatforms(): Promise<void> {
+  const active = configManager.getActivePlatform();
+  console.log('\n' + i18n.t('platform.available') + ':');
+  for (const platform of platformManager.getAllPlatforms()) {
+    const marker = platform.id === active ? '*' : ' ';
+    console.log(`  ${marker} ${platform.id.padEnd(12)} ${platform.name}`);
+  }
+}
+
 export async function handleSetPlatform(args: string[]): Promise<void> {
   const newPlatform = args[0] as PlatformId;
 
-  if (!newPlatform || !['glm', 'minimax'].includes(newPlatform)) {
+  if (!newPlatform || !platformManager.hasPlatform(newPlatform)) {
     logger.error(i18n.t('platform.invalid', { platform: newPlatform || '' }));
-    console.log(i18n.t('platform.available') + ': glm, minimax');
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
     return;
   }
 
@@ -28,10 +38,7 @@ export async function handlePlatformMenu(): Promise<void> {
       type: 'list',
       name: 'platform',
       message: i18n.t('wizard.select_platform'),
-      choices: [
-        { name: 'GLM (Z.AI)', value: 'glm' as PlatformId },
-        { name: 'MiniMax', value: 'minimax' as PlatformId }
-      ],
+      choices: platformManager.getPlatformChoices(),
       default: configManager.getActivePlatform()
     }
   ]);
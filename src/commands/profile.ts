@@ -0,0 +1,84 @@
+import type { PlanType } from '../types/config.js';
+import { configManager, PROFILE_NAME_PATTERN } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+export async function handleProfileList(): Promise<void> {
+  const profiles = configManager.getProfiles();
+  const names = Object.keys(profiles);
+  if (names.length === 0) {
+    console.log(i18n.t('profile.none'));
+    return;
+  }
+
+  const active = configManager.getActiveProfileName();
+  console.log('\n' + i18n.t('profile.list_title') + ':');
+  for (const name of names) {
+    const profile = profiles[name];
+    const marker = name === active ? '*' : ' ';
+    const key = profile.encrypted_api_key ? '' : ' ' + i18n.t('profile.no_key_marker');
+    const endpoint = profile.endpoint ? ` ${profile.endpoint}` : '';
+    console.log(`  ${marker} ${name.padEnd(16)} ${profile.platform.padEnd(10)} ${profile.plan}${endpoint}${key}`);
+  }
+}
+
+export async function handleProfileAdd(args: string[], options: { plan?: string; endpoint?: string } = {}): Promise<void> {
+  const [name, platform] = args;
+
+  if (name && !PROFILE_NAME_PATTERN.test(name)) {
+    logger.error(i18n.t('profile.invalid_name', { name }));
+    return;
+  }
+  if (name && configManager.hasProfile(name)) {
+    logger.error(i18n.t('profile.exists', { name }));
+    return;
+  }
+  if (platform && !platformManager.hasPlatform(platform)) {
+    logger.error(i18n.t('platform.invalid', { platform }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+  if (options.plan && options.plan !== 'global' && options.plan !== 'china') {
+    logger.error(i18n.t('profile.invalid_plan', { plan: options.plan }));
+    return;
+  }
+
+  await wizard.createProfile({ name, platform, plan: options.plan as PlanType | undefined, endpoint: options.endpoint });
+}
+
+export async function handleProfileUse(args: string[]): Promise<void> {
+  const name = args[0];
+  if (!name) {
+    logger.error(i18n.t('profile.use_usage'));
+    return;
+  }
+  if (!configManager.hasProfile(name)) {
+    logger.error(i18n.t('profile.not_found', { name }));
+    return;
+  }
+
+  configManager.useProfile(name);
+  const profile = configManager.getProfile(name)!;
+  logger.success(i18n.t('profile.activated', { name, platform: profile.platform, plan: profile.plan }));
+}
+
+export async function handleProfileRemove(args: string[]): Promise<void> {
+  const name = args[0];
+  if (!name) {
+    logger.error(i18n.t('profile.remove_usage'));
+    return;
+  }
+  if (!configManager.hasProfile(name)) {
+    logger.error(i18n.t('profile.not_found', { name }));
+    return;
+  }
+
+  configManager.removeProfile(name);
+  logger.success(i18n.t('profile.removed', { name }));
+}
+
+export async function handleProfileMenu(): Promise<void> {
+  await wizard.showProfileMenu();
+}
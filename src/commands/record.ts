@@ -0,0 +1,129 @@
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { toolRegistry } from '../lib/tool-registry.js';
+import { Recorder, Replayer, DEFAULT_RECORD_PORT, RECORD_HOST, listRecordings, loadRecording, getRecordingsDir } from '../lib/recording.js';
+import { httpClient } from '../lib/http-client.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+const BASE_URL_ENV: Record<string, string> = {
+  anthropic: 'ANTHROPIC_BASE_URL',
+  openai: 'OPENAI_BASE_URL'
+};
+
+function parsePort(value?: string): number | undefined {
+  if (value === undefined) {
+    return DEFAULT_RECORD_PORT;
+  }
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined;
+}
+
+async function waitForShutdown(): Promise<void> {
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+}
+
+export async function handleRecordStart(options: { tool?: string; port?: string; platform?: string } = {}): Promise<void> {
+  const tool = options.tool ? toolRegistry.getTool(options.tool) : undefined;
+  if (!options.tool || !tool) {
+    logger.error(options.tool ? i18n.t('record.unknown_tool', { tool: options.tool }) : i18n.t('record.start_usage'));
+    return;
+  }
+  const port = parsePort(options.port);
+  if (port === undefined) {
+    logger.error(i18n.t('record.invalid_port', { port: String(options.port) }));
+    return;
+  }
+
+  const platformId = options.platform || configManager.getActivePlatform();
+  const platform = platformManager.getPlatform(platformId);
+  if (!platform) {
+    logger.error(i18n.t('platform.invalid', { platform: platformId }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+
+  const protocol = tool.protocol || 'anthropic';
+  const credentials = configManager.resolveCredentials(platformId);
+  const baseUrl = protocol === 'anthropic'
+    ? credentials.endpoint || platform.getEndpoint(credentials.plan, 'anthropic')
+    : platform.getEndpoint(credentials.plan, protocol);
+  if (!baseUrl) {
+    logger.error(i18n.t('record.no_endpoint', { platform: platform.name, protocol }));
+    return;
+  }
+
+  const recorder = new Recorder({
+    port,
+    tool: tool.id,
+    platform: platformId,
+    protocol,
+    baseUrl,
+    timeoutMs: httpClient.getProxyTimeoutMs()
+  });
+  try {
+    await recorder.start();
+  } catch (error) {
+    logger.error(i18n.t('record.start_failed', { error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  logger.success(i18n.t('record.listening', { tool: tool.name, platform: platform.name, url: baseUrl }));
+  console.log(i18n.t('record.session', { path: recorder.dir }));
+  console.log(i18n.t('record.point_hint', { env: BASE_URL_ENV[protocol], url: `http://${RECORD_HOST}:${port}` }));
+  console.log(i18n.t('gateway.stop_hint'));
+
+  await waitForShutdown();
+  await recorder.stop();
+  logger.info(i18n.t('record.stopped', { count: String(recorder.getExchangeCount()), id: recorder.session.id }));
+}
+
+export async function handleReplay(args: string[], options: { port?: string; realtime?: boolean } = {}): Promise<void> {
+  const sessionId = args[0];
+  if (!sessionId) {
+    const sessions = listRecordings();
+    if (sessions.length === 0) {
+      console.log(i18n.t('record.none', { path: getRecordingsDir() }));
+      return;
+    }
+    console.log('\n' + i18n.t('record.list_title') + ':');
+    for (const session of sessions) {
+      console.log(`  ${session.id.padEnd(36)} ${session.platform.padEnd(10)} ${i18n.t('record.exchanges', { count: String(session.exchanges) })}`);
+    }
+    return;
+  }
+
+  const port = parsePort(options.port);
+  if (port === undefined) {
+    logger.error(i18n.t('record.invalid_port', { port: String(options.port) }));
+    return;
+  }
+
+  let recording;
+  try {
+    recording = loadRecording(sessionId);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  const replayer = new Replayer({ port, exchanges: recording.exchanges, realtime: options.realtime });
+  try {
+    await replayer.start();
+  } catch (error) {
+    logger.error(i18n.t('record.start_failed', { error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  const { session } = recording;
+  logger.success(i18n.t('record.replaying', { id: session.id, count: String(recording.exchanges.length) }));
+  console.log(i18n.t('record.point_hint', { env: BASE_URL_ENV[session.protocol], url: `http://${RECORD_HOST}:${port}` }));
+  console.log(i18n.t('gateway.stop_hint'));
+
+  await waitForShutdown();
+  await replayer.stop();
+  logger.info(i18n.t('record.replay_stopped'));
+}
@@ -0,0 +1,113 @@
+import type { ModelTier } from '../types/config.js';
+import { configManager } from '../lib/config.js';
+import { platformManager, MODEL_TIERS } from '../lib/platform-manager.js';
+import { modelCatalog } from '../lib/model-catalog.js';
+import { routeLog } from '../lib/route-log.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+const DEFAULT_LOG_LIMIT = 20;
+
+function describeTarget(match: string, platform: string, model?: string): string {
+  if (model) {
+    return `${platform} / ${model}`;
+  }
+  // Tier routes without a model use the platform's model for that tier
+  if (MODEL_TIERS.includes(match as ModelTier) && platformManager.hasPlatform(platform)) {
+    const tiers = platformManager.getPlatform(platform)!.resolveModelTiers(configManager.getModelTiers(platform));
+    return `${platform} / ${tiers[match as ModelTier]} ${i18n.t('route.tier_model')}`;
+  }
+  return `${platform} ${i18n.t('route.same_model')}`;
+}
+
+export async function handleRouteList(): Promise<void> {
+  const routes = configManager.getRoutes();
+  const matches = Object.keys(routes);
+  if (matches.length === 0) {
+    console.log(i18n.t('route.none'));
+    return;
+  }
+
+  // Tiers first in their usual order, then model routes alphabetically
+  matches.sort((a, b) => {
+    const rank = (match: string) => MODEL_TIERS.includes(match as ModelTier) ? MODEL_TIERS.indexOf(match as ModelTier) : MODEL_TIERS.length;
+    return rank(a) - rank(b) || a.localeCompare(b);
+  });
+  const width = Math.max(...matches.map(match => match.length));
+  console.log('\n' + i18n.t('route.list_title') + ':');
+  for (const match of matches) {
+    console.log(`  ${match.padEnd(width)}  -> ${describeTarget(match, routes[match].platform, routes[match].model)}`);
+  }
+  console.log('\n' + i18n.t('route.fallback_hint'));
+}
+
+export async function handleRouteSet(args: string[]): Promise<void> {
+  const [match, platformId, model] = args;
+  if (!match || !platformId) {
+    logger.error(i18n.t('route.set_usage'));
+    return;
+  }
+  if (!platformManager.hasPlatform(platformId)) {
+    logger.error(i18n.t('platform.invalid', { platform: platformId }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+  if (model && !modelCatalog.isKnownModel(platformId, model)) {
+    logger.error(i18n.t('model.invalid_model', { model, platform: platformId }));
+    console.log(i18n.t('model.available') + ': ' + modelCatalog.getModels(platformId).join(', '));
+    return;
+  }
+  if (!model && !MODEL_TIERS.includes(match as ModelTier)) {
+    logger.info(i18n.t('route.model_passthrough', { match }));
+  }
+
+  configManager.setRoute(match, model ? { platform: platformId, model } : { platform: platformId });
+  logger.success(i18n.t('route.changed', { match, target: describeTarget(match, platformId, model) }));
+  console.log(i18n.t('route.restart_hint'));
+}
+
+export async function handleRouteRemove(args: string[]): Promise<void> {
+  const [match] = args;
+  if (!match) {
+    logger.error(i18n.t('route.remove_usage'));
+    return;
+  }
+  if (!configManager.removeRoute(match)) {
+    logger.error(i18n.t('route.not_found', { match }));
+    return;
+  }
+  logger.success(i18n.t('route.removed', { match }));
+}
+
+export async function handleRouteLog(options: { limit?: string; json?: boolean } = {}): Promise<void> {
+  const limit = options.limit === undefined ? DEFAULT_LOG_LIMIT : Number(options.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    logger.error(i18n.t('route.invalid_limit', { limit: String(options.limit) }));
+    return;
+  }
+
+  const entries = routeLog.read(limit);
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+  if (entries.length === 0) {
+    console.log(i18n.t('route.log_empty', { path: routeLog.getFilePath() }));
+    return;
+  }
+
+  console.log('\n' + i18n.t('route.log_title', { count: String(entries.length) }) + ':');
+  for (const entry of entries) {
+    const time = new Date(entry.timestamp).toLocaleString();
+    const via = entry.route ? ` [${entry.route}]` : '';
+    const failover = entry.failover ? ` (${i18n.t('route.failover')})` : '';
+    const key = entry.key ? ` (${entry.key})` : '';
+    console.log(`  ${time}  ${entry.model || '-'} -> ${entry.platform}${key} / ${entry.upstreamModel || '-'}  ${entry.status}${via}${failover}`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(entry.platform, (counts.get(entry.platform) || 0) + 1);
+  }
+  console.log('\n' + i18n.t('route.log_summary') + ': ' + [...counts].map(([platform, count]) => `${platform} ${count}`).join(', '));
+}
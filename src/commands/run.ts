@@ -0,0 +1,64 @@
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { toolManager } from '../lib/tool-manager.js';
+import { modelCatalog } from '../lib/model-catalog.js';
+import { wizard } from '../lib/wizard.js';
+import { runWithEnvironment } from '../lib/process-runner.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+/**
+ * Start a tool for one session against a platform by passing the platform's
+ * settings as environment variables; the tool's config files are not touched
+ */
+export async function handleRun(args: string[], options: { platform?: string; model?: string } = {}): Promise<void> {
+  const [toolId, ...toolArgs] = args;
+  if (!toolId) {
+    logger.error(i18n.t('run.usage'));
+    process.exitCode = 1;
+    return;
+  }
+  const tool = toolManager.getTool(toolId);
+  if (!tool) {
+    logger.error(i18n.t('run.unknown_tool', { tool: toolId }));
+    process.exitCode = 1;
+    return;
+  }
+  const command = toolManager.getLaunchCommand(toolId);
+  if (!command) {
+    logger.error(i18n.t('run.not_launchable', { tool: tool.displayName }));
+    process.exitCode = 1;
+    return;
+  }
+
+  const platformId = options.platform || configManager.getActivePlatform();
+  if (!platformManager.hasPlatform(platformId)) {
+    logger.error(i18n.t('platform.invalid', { platform: platformId }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    process.exitCode = 1;
+    return;
+  }
+  if (options.model && !modelCatalog.isKnownModel(platformId, options.model)) {
+    logger.error(i18n.t('model.invalid_model', { model: options.model, platform: platformId }));
+    console.log(i18n.t('model.available') + ': ' + modelCatalog.getModels(platformId).join(', '));
+    process.exitCode = 1;
+    return;
+  }
+
+  const password = await wizard.promptMasterPassword();
+  const environment = toolManager.getLaunchEnvironment(toolId, platformId, { password, model: options.model });
+  if (!environment) {
+    process.exitCode = 1;
+    return;
+  }
+
+  // Values in the tool's own config file may win over the environment
+  const configuredEnv = toolManager.getToolConfig(toolId)?.env;
+  const overridden = configuredEnv ? Object.keys(environment).filter(name => name in configuredEnv) : [];
+  if (overridden.length > 0) {
+    logger.warning(i18n.t('run.config_overrides', { path: tool.configPath, vars: overridden.join(', '), tool: toolId }));
+  }
+
+  logger.info(i18n.t('run.starting', { tool: tool.displayName, platform: options.model ? `${platformId} / ${options.model}` : platformId }));
+  process.exitCode = await runWithEnvironment(command, toolArgs, environment);
+}
@@ -1,12 +1,20 @@
 import type { PlatformId } from '../types/config.js';
 import { configManager } from '../lib/config.js';
 import { toolManager } from '../lib/tool-manager.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { wizard } from '../lib/wizard.js';
+import type { MasterPasswordOptions } from '../lib/master-password.js';
 import { logger } from '../lib/logger.js';
+import { resolveGatewayPort } from './gateway.js';
+import { resolveMeterPort } from './meter.js';
+import { resolveBridgePort } from './bridge.js';
+import { remindKeyRotation } from './auth.js';
+import { i18n } from '../lib/i18n.js';
 
-const LOADABLE_TOOLS = ['claude-code', 'cursor', 'opencode', 'factory-droid'];
+const LOADABLE_TOOLS = ['claude-code', 'cursor', 'opencode', 'factory-droid', 'continue', 'zed-ai'];
 
 function resolvePlatform(platformArg?: string): PlatformId {
-  if (platformArg === 'glm' || platformArg === 'minimax') {
+  if (platformArg && platformManager.hasPlatform(platformArg)) {
     return platformArg;
   }
   return configManager.getActivePlatform();
@@ -22,12 +30,12 @@ export async function handleToolList(): Promise<void> {
   }
 }
 
-export async function handleToolLoad(args: string[]): Promise<void> {
+export async function handleToolLoad(args: string[], options: { profile?: string; gateway?: string | boolean; meter?: string | boolean; bridge?: string | boolean; apiKeyHelper?: boolean } & MasterPasswordOptions = {}): Promise<void> {
   const toolId = args[0];
   const platform = resolvePlatform(args[1]);
 
   if (!toolId) {
-    logger.error('Usage: cpa tool load <tool> [glm|minimax]');
+    logger.error('Usage: cpa tool load <tool> [platform] [--profile <name>]');
     return;
   }
 
@@ -36,9 +44,72 @@ export async function handleToolLoad(args: string[]): Promise<void> {
     return;
   }
 
-  const success = toolManager.loadPlatformConfig(toolId, platform);
+  if (options.profile && !configManager.hasProfile(options.profile)) {
+    logger.error(i18n.t('profile.not_found', { name: options.profile }));
+    return;
+  }
+
+  if ([options.gateway, options.meter, options.bridge].filter(Boolean).length > 1) {
+    logger.error(i18n.t('bridge.exclusive_modes'));
+    return;
+  }
+
+  if (options.apiKeyHelper && toolId !== 'claude-code') {
+    logger.error(i18n.t('auth.api_key_helper_not_supported'));
+    return;
+  }
+
+  if (options.apiKeyHelper && options.gateway) {
+    logger.error(i18n.t('auth.api_key_helper_gateway'));
+    return;
+  }
+
+  if (options.gateway) {
+    const port = resolveGatewayPort(options.gateway);
+    if (port === undefined) {
+      logger.error(i18n.t('gateway.invalid_port', { port: String(options.gateway) }));
+      return;
+    }
+    // The gateway holds the keys, so no master password is needed here
+    if (toolManager.loadPlatformConfig(toolId, platform, { profile: options.profile, gateway: { port } })) {
+      logger.success(i18n.t('gateway.tool_loaded', { tool: toolId, port: String(port) }));
+    } else {
+      logger.error(`Failed to load config into ${toolId}`);
+    }
+    return;
+  }
+
+  const meterPort = options.meter ? resolveMeterPort(options.meter) : undefined;
+  if (options.meter && meterPort === undefined) {
+    logger.error(i18n.t('meter.invalid_port', { port: String(options.meter) }));
+    return;
+  }
+  const bridgePort = options.bridge ? resolveBridgePort(options.bridge) : undefined;
+  if (options.bridge && bridgePort === undefined) {
+    logger.error(i18n.t('bridge.invalid_port', { port: String(options.bridge) }));
+    return;
+  }
+
+  const password = await wizard.promptMasterPassword({ passwordStdin: options.passwordStdin, passwordFile: options.passwordFile });
+
+  const meter = meterPort !== undefined ? { port: meterPort } : undefined;
+  const bridge = bridgePort !== undefined ? { port: bridgePort } : undefined;
+  const success = toolManager.loadPlatformConfig(toolId, platform, { profile: options.profile, password, meter, bridge, apiKeyHelper: options.apiKeyHelper });
   if (success) {
-    logger.success(`Loaded ${platform} config into ${toolId}`);
+    const source = options.profile ? `profile '${options.profile}'` : platform;
+    logger.success(`Loaded ${source} config into ${toolId}`);
+    if (meter) {
+      console.log(i18n.t('meter.tool_loaded', { tool: toolId, port: String(meter.port) }));
+    }
+    if (bridge) {
+      console.log(i18n.t('bridge.tool_loaded', { tool: toolId, port: String(bridge.port) }));
+    }
+    if (options.apiKeyHelper) {
+      console.log(i18n.t('auth.api_key_helper_loaded', { tool: toolId, command: toolManager.getToolConfig(toolId)?.apiKeyHelper }));
+    }
+    if (!options.profile) {
+      remindKeyRotation([platform]);
+    }
   } else {
     logger.error(`Failed to load config into ${toolId}`);
   }
@@ -49,7 +120,7 @@ export async function handleToolUnload(args: string[]): Promise<void> {
   const platform = resolvePlatform(args[1]);
 
   if (!toolId) {
-    logger.error('Usage: cpa tool unload <tool> [glm|minimax]');
+    logger.error('Usage: cpa tool unload <tool> [platform]');
     return;
   }
 
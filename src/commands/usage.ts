@@ -0,0 +1,206 @@
+import ora from 'ora';
+import type { UsageReport, UsageWindow } from '../types/platform.js';
+import type { BudgetAction } from '../types/config.js';
+import { configManager } from '../lib/config.js';
+import { platformManager } from '../lib/platform-manager.js';
+import { usageStore, USAGE_GROUP_BY, type UsageGroupBy, type UsageSummaryRow, type BudgetStatus } from '../lib/usage-store.js';
+import { wizard } from '../lib/wizard.js';
+import { logger } from '../lib/logger.js';
+import { i18n } from '../lib/i18n.js';
+
+function formatNumber(value?: number): string {
+  return value === undefined ? '-' : value.toLocaleString('en-US');
+}
+
+function formatWindow(window: UsageWindow): string[] {
+  const percent = window.limit && window.used !== undefined
+    ? ` (${Math.round((window.used / window.limit) * 100)}%)`
+    : '';
+  return [
+    `${window.name} [${window.unit}]`,
+    formatNumber(window.used) + percent,
+    formatNumber(window.limit),
+    formatNumber(window.remaining),
+    window.resetsAt ? new Date(window.resetsAt).toLocaleString() : '-'
+  ];
+}
+
+function printUsageTable(report: UsageReport): void {
+  const platform = platformManager.getPlatform(report.platform);
+  console.log(`\n${platform?.name || report.platform} (${report.plan}):`);
+
+  if (report.windows.length === 0) {
+    console.log('  ' + i18n.t('usage.no_windows'));
+  } else {
+    const header = [
+      i18n.t('usage.col_window'),
+      i18n.t('usage.col_used'),
+      i18n.t('usage.col_limit'),
+      i18n.t('usage.col_remaining'),
+      i18n.t('usage.col_resets')
+    ];
+    const rows = [header, ...report.windows.map(formatWindow)];
+    const widths = header.map((_, col) => Math.max(...rows.map(row => row[col].length)));
+    for (const row of rows) {
+      console.log('  ' + row.map((cell, col) => cell.padEnd(widths[col])).join('  '));
+    }
+  }
+
+  if (report.balance) {
+    console.log('  ' + i18n.t('usage.balance', { amount: String(report.balance.amount), currency: report.balance.currency }));
+  }
+}
+
+export async function handleUsage(args: string[], options: { json?: boolean } = {}): Promise<void> {
+  const platformId = args[0] || configManager.getActivePlatform();
+  const platform = platformManager.getPlatform(platformId);
+  if (!platform) {
+    logger.error(i18n.t('platform.invalid', { platform: platformId }));
+    console.log(i18n.t('platform.available') + ': ' + platformManager.getPlatformIds().join(', '));
+    return;
+  }
+  if (!platform.hasUsageEndpoint()) {
+    logger.error(i18n.t('usage.unsupported', { platform: platform.name }));
+    return;
+  }
+
+  const password = await wizard.promptMasterPassword();
+  const apiKey = configManager.getApiKey(platformId, password);
+  if (!apiKey) {
+    logger.error(i18n.t('usage.no_api_key', { platform: platformId }));
+    return;
+  }
+
+  const spinner = ora(i18n.t('usage.querying'));
+  if (!options.json) {
+    spinner.start();
+  }
+  try {
+    const report = await platformManager.getUsage(platformId, configManager.getPlan(), apiKey, configManager.getEndpoint(platformId));
+    spinner.stop();
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printUsageTable(report);
+    }
+  } catch (error) {
+    spinner.stop();
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      console.log(JSON.stringify({ platform: platformId, error: message }, null, 2));
+    } else {
+      logger.error(i18n.t('usage.failed', { platform: platformId, error: message }));
+    }
+    process.exitCode = 1;
+  }
+}
+
+function printRows(header: string[], rows: string[][]): void {
+  const all = [header, ...rows];
+  const widths = header.map((_, col) => Math.max(...all.map(row => row[col].length)));
+  for (const row of all) {
+    console.log('  ' + row.map((cell, col) => col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])).join('  '));
+  }
+}
+
+function formatBudget(status: BudgetStatus): string {
+  const scope = status.scope === 'all' ? i18n.t('usage.budget_all') : status.scope;
+  const percent = Math.round((status.used / status.limit) * 100);
+  const line = `${scope}: ${formatNumber(status.used)} / ${formatNumber(status.limit)} (${percent}%)`;
+  return status.exceeded ? `${line} ${i18n.t('usage.budget_exceeded_marker')}` : line;
+}
+
+/**
+ * Summarize metered requests (see `cpa meter`) for the last N days
+ */
+export async function handleUsageReport(options: { by?: string; days?: string; json?: boolean } = {}): Promise<void> {
+  const by = (options.by || 'tool') as UsageGroupBy;
+  if (!USAGE_GROUP_BY.includes(by)) {
+    logger.error(i18n.t('usage.invalid_group', { by, options: USAGE_GROUP_BY.join(', ') }));
+    return;
+  }
+  const days = options.days === undefined ? 7 : Number(options.days);
+  if (!Number.isInteger(days) || days < 1) {
+    logger.error(i18n.t('usage.invalid_days', { days: String(options.days) }));
+    return;
+  }
+
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (days - 1));
+  const rows: UsageSummaryRow[] = usageStore.summarize(usageStore.readRecords(since), by);
+  const budgets = usageStore.getBudgetStatus(configManager.getMeterConfig().budget || {});
+
+  if (options.json) {
+    console.log(JSON.stringify({ by, since: since.toISOString(), rows, budgets }, null, 2));
+    return;
+  }
+
+  console.log('\n' + i18n.t('usage.report_title', { by, days: String(days) }) + ':');
+  if (rows.length === 0) {
+    console.log('  ' + i18n.t('usage.report_empty'));
+  } else {
+    const total = rows.reduce((sum, row) => ({
+      requests: sum.requests + row.requests,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      totalTokens: sum.totalTokens + row.totalTokens
+    }), { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+    printRows(
+      [by, i18n.t('usage.col_requests'), i18n.t('usage.col_input'), i18n.t('usage.col_output'), i18n.t('usage.col_total')],
+      [...rows, { key: i18n.t('usage.total_row'), ...total }].map(row => [
+        row.key,
+        formatNumber(row.requests),
+        formatNumber(row.inputTokens),
+        formatNumber(row.outputTokens),
+        formatNumber(row.totalTokens)
+      ])
+    );
+  }
+
+  if (budgets.length > 0) {
+    console.log('\n' + i18n.t('usage.budget_title') + ':');
+    for (const status of budgets) {
+      console.log('  ' + formatBudget(status));
+    }
+  }
+}
+
+/**
+ * Show or set daily token budgets. A budget of 0 removes it.
+ */
+export async function handleUsageBudget(args: string[], options: { tool?: string; action?: string } = {}): Promise<void> {
+  const [value] = args;
+  if (options.action && options.action !== 'warn' && options.action !== 'block') {
+    logger.error(i18n.t('usage.invalid_action', { action: options.action }));
+    return;
+  }
+
+  if (value !== undefined) {
+    const tokens = Number(value);
+    if (!Number.isInteger(tokens) || tokens < 0) {
+      logger.error(i18n.t('usage.invalid_budget', { value }));
+      return;
+    }
+    configManager.setBudget(options.tool
+      ? { tools: { [options.tool]: tokens }, action: options.action as BudgetAction | undefined }
+      : { dailyTokens: tokens, action: options.action as BudgetAction | undefined });
+    const scope = options.tool || i18n.t('usage.budget_all');
+    logger.success(tokens > 0
+      ? i18n.t('usage.budget_set', { scope, tokens: formatNumber(tokens) })
+      : i18n.t('usage.budget_removed', { scope }));
+  } else if (options.action) {
+    configManager.setBudget({ action: options.action as BudgetAction });
+  }
+
+  const budget = configManager.getMeterConfig().budget || {};
+  const statuses = usageStore.getBudgetStatus(budget);
+  if (statuses.length === 0) {
+    console.log(i18n.t('usage.budget_none'));
+    return;
+  }
+  console.log('\n' + i18n.t('usage.budget_title') + ` (${i18n.t('usage.budget_action_' + (budget.action || 'warn'))}):`);
+  for (const status of statuses) {
+    console.log('  ' + formatBudget(status));
+  }
+}
@@ -0,0 +1,230 @@
+import net from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { logger } from './logger.js';
+
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+
+export const DEFAULT_AGENT_IDLE_MINUTES = 15;
+
+// Commands give up on an agent that does not answer quickly and prompt instead
+const AGENT_REQUEST_TIMEOUT_MS = 2000;
+
+export type AgentRequest = { action: 'password' | 'status' | 'lock' };
+
+export interface AgentResponse {
+  ok: boolean;
+  password?: string;
+  /** ISO timestamp the agent locks itself if it is not used before then */
+  expiresAt?: string;
+  pid?: number;
+  error?: string;
+}
+
+/**
+ * Unix socket of the agent; a named pipe on Windows, which has no socket files
+ */
+export function getAgentSocketPath(): string {
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\unified-coding-helper-agent-${os.userInfo().username}`
+    : path.join(CPA_STATE_DIR, 'agent.sock');
+}
+
+/**
+ * Send one request to the running agent. Resolves undefined when no agent is
+ * listening or it does not answer in time.
+ */
+export function queryAgent(request: AgentRequest, socketPath = getAgentSocketPath()): Promise<AgentResponse | undefined> {
+  return new Promise(resolve => {
+    const socket = net.createConnection(socketPath);
+    let data = '';
+    const finish = (response?: AgentResponse) => {
+      socket.destroy();
+      resolve(response);
+    };
+
+    socket.setTimeout(AGENT_REQUEST_TIMEOUT_MS, () => finish());
+    socket.once('error', () => finish());
+    socket.once('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.on('data', (chunk: Buffer) => {
+      data += chunk.toString('utf-8');
+      const newline = data.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+      try {
+        finish(JSON.parse(data.slice(0, newline)) as AgentResponse);
+      } catch {
+        finish();
+      }
+    });
+    socket.once('end', () => finish());
+  });
+}
+
+/**
+ * Master password cached by the agent, if one is running
+ */
+export async function getAgentPassword(): Promise<string | undefined> {
+  const response = await queryAgent({ action: 'password' });
+  return response?.ok ? response.password : undefined;
+}
+
+/**
+ * Tell the running agent to wipe the cached password and exit.
+ * Resolves false when no agent was running.
+ */
+export async function lockAgent(): Promise<boolean> {
+  const response = await queryAgent({ action: 'lock' });
+  return !!response?.ok;
+}
+
+export interface CredentialAgentOptions {
+  /** Lock after this long without a password request */
+  idleTimeoutMs: number;
+  socketPath?: string;
+  /** Called once the agent has locked itself, after `cpa lock` or the idle timeout */
+  onLocked?: (reason: 'lock' | 'idle') => void;
+}
+
+/**
+ * ssh-agent style holder of the master password. It keeps the password in
+ * memory only and hands it to commands of the same user through a socket
+ * that only the owner can open. The password is wiped when the agent locks,
+ * stops or stays unused for the idle timeout.
+ *
+ * Each stored key has its own salt, so there is no single derived key to keep;
+ * the password is what commands need to decrypt and re-encrypt keys.
+ */
+class CredentialAgent {
+  private server?: net.Server;
+  private password?: Buffer;
+  private idleTimer?: NodeJS.Timeout;
+  private expiresAt = 0;
+
+  constructor(password: string, private readonly options: CredentialAgentOptions) {
+    this.password = Buffer.from(password, 'utf-8');
+  }
+
+  get socketPath(): string {
+    return this.options.socketPath ?? getAgentSocketPath();
+  }
+
+  async start(): Promise<void> {
+    const socketPath = this.socketPath;
+    if (process.platform !== 'win32') {
+      fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+      if (fs.existsSync(socketPath)) {
+        if (await queryAgent({ action: 'status' }, socketPath)) {
+          throw new Error(`An agent is already listening on ${socketPath}`);
+        }
+        // Left behind by an agent that did not shut down cleanly
+        fs.unlinkSync(socketPath);
+      }
+    }
+
+    const server = net.createServer(socket => this.handle(socket));
+    this.server = server;
+    // Create the socket owner-only from the start rather than tightening it after listen
+    const previousUmask = process.platform !== 'win32' ? process.umask(0o177) : undefined;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(socketPath, () => resolve());
+      });
+    } finally {
+      if (previousUmask !== undefined) {
+        process.umask(previousUmask);
+      }
+    }
+    if (process.platform !== 'win32') {
+      fs.chmodSync(socketPath, 0o600);
+    }
+    this.touch();
+  }
+
+  async stop(): Promise<void> {
+    this.wipe();
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    if (process.platform !== 'win32' && fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+  }
+
+  getExpiresAt(): Date {
+    return new Date(this.expiresAt);
+  }
+
+  private handle(socket: net.Socket): void {
+    let data = '';
+    socket.on('error', error => logger.debug(`Agent connection error: ${error.message}`));
+    socket.on('data', (chunk: Buffer) => {
+      data += chunk.toString('utf-8');
+      const newline = data.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+      let request: AgentRequest;
+      try {
+        request = JSON.parse(data.slice(0, newline)) as AgentRequest;
+      } catch {
+        this.respond(socket, { ok: false, error: 'Malformed request' });
+        return;
+      }
+      this.dispatch(socket, request);
+    });
+  }
+
+  private dispatch(socket: net.Socket, request: AgentRequest): void {
+    switch (request.action) {
+      case 'password':
+        if (!this.password) {
+          this.respond(socket, { ok: false, error: 'Agent is locked' });
+          return;
+        }
+        this.touch();
+        this.respond(socket, { ok: true, password: this.password.toString('utf-8'), expiresAt: this.getExpiresAt().toISOString() });
+        return;
+      case 'status':
+        this.respond(socket, { ok: true, pid: process.pid, expiresAt: this.getExpiresAt().toISOString() });
+        return;
+      case 'lock':
+        this.respond(socket, { ok: true });
+        void this.lock('lock');
+        return;
+      default:
+        this.respond(socket, { ok: false, error: 'Unknown action' });
+    }
+  }
+
+  private respond(socket: net.Socket, response: AgentResponse): void {
+    socket.end(JSON.stringify(response) + '\n');
+  }
+
+  // Restart the idle countdown
+  private touch(): void {
+    clearTimeout(this.idleTimer);
+    this.expiresAt = Date.now() + this.options.idleTimeoutMs;
+    this.idleTimer = setTimeout(() => void this.lock('idle'), this.options.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  private async lock(reason: 'lock' | 'idle'): Promise<void> {
+    await this.stop();
+    this.options.onLocked?.(reason);
+  }
+
+  private wipe(): void {
+    clearTimeout(this.idleTimer);
+    this.password?.fill(0);
+    this.password = undefined;
+  }
+}
+
+export { CredentialAgent };
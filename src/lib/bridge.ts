@@ -0,0 +1,237 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PlatformId } from '../types/config.js';
+import type { ProviderProtocol } from '../types/provider.js';
+import { httpClient } from './http-client.js';
+import {
+  openAIToAnthropicRequest,
+  anthropicToOpenAIResponse,
+  anthropicToOpenAIRequest,
+  openAIToAnthropicResponse,
+  anthropicToOpenAIError,
+  openAIToAnthropicError,
+  AnthropicToOpenAIStream,
+  OpenAIToAnthropicStream
+} from './protocol-translation.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_BRIDGE_PORT = 8789;
+export const BRIDGE_HOST = '127.0.0.1';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface BridgeOptions {
+  port?: number;
+  platform: PlatformId;
+  /** Upstream base URL per protocol; each direction needs the other protocol's URL */
+  baseUrls: Partial<Record<ProviderProtocol, string>>;
+  /** Served from /v1/models for OpenAI clients that list models */
+  models?: string[];
+  /**
+   * Wait for upstream response headers; streamed tool calls are often sent
+   * upstream as non-streaming requests, so this covers the whole answer. 0 means no limit.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Base URL a tool speaking `protocol` uses to reach the bridge
+ */
+export function getBridgeBaseUrl(port: number, protocol: ProviderProtocol): string {
+  return protocol === 'openai' ? `http://${BRIDGE_HOST}:${port}/v1` : `http://${BRIDGE_HOST}:${port}`;
+}
+
+/**
+ * Protocol the bridge sends upstream for a tool speaking `protocol`
+ */
+export function getBridgeTarget(protocol: ProviderProtocol): ProviderProtocol {
+  return protocol === 'openai' ? 'anthropic' : 'openai';
+}
+
+// Key sent by the tool, in either protocol's header
+function clientKey(req: http.IncomingMessage): string | undefined {
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey) {
+    return apiKey;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return match?.[1];
+}
+
+/**
+ * Local server that accepts OpenAI chat completions and forwards them to the
+ * platform's Anthropic Messages endpoint, and accepts Anthropic messages and
+ * forwards them to the platform's OpenAI endpoint. Requests, responses, tool
+ * calls and streams are translated in both directions; the tool's own key is
+ * passed on.
+ */
+class Bridge {
+  private server?: http.Server;
+
+  constructor(private readonly options: BridgeOptions) {}
+
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Bridge error: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: { message: 'Internal bridge error', type: 'api_error' } });
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? DEFAULT_BRIDGE_PORT, BRIDGE_HOST, () => resolve());
+    });
+    return (server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0].replace(/\/$/, '');
+
+    if (req.method === 'GET' && path === '/health') {
+      this.sendJson(res, 200, { status: 'ok', platform: this.options.platform, upstreams: Object.keys(this.options.baseUrls) });
+      return;
+    }
+    if (req.method === 'GET' && (path === '/v1/models' || path === '/models')) {
+      const created = Math.floor(Date.now() / 1000);
+      this.sendJson(res, 200, {
+        object: 'list',
+        data: (this.options.models || []).map(id => ({ id, object: 'model', created, owned_by: this.options.platform }))
+      });
+      return;
+    }
+
+    let source: ProviderProtocol;
+    if (req.method === 'POST' && path.endsWith('/chat/completions')) {
+      source = 'openai';
+    } else if (req.method === 'POST' && path.endsWith('/messages')) {
+      source = 'anthropic';
+    } else {
+      this.sendJson(res, 404, { error: { message: `Unsupported path: ${req.method} ${path}`, type: 'not_found_error' } });
+      return;
+    }
+
+    const target = getBridgeTarget(source);
+    const sendError = (status: number, type: string, message: string) => this.sendJson(res, status, source === 'openai'
+      ? { error: { message, type, code: null } }
+      : { type: 'error', error: { type, message } });
+
+    const baseUrl = this.options.baseUrls[target];
+    if (!baseUrl) {
+      sendError(404, 'not_found_error', `${this.options.platform} has no ${target}-compatible endpoint to bridge to`);
+      return;
+    }
+
+    let body: Record<string, any>;
+    try {
+      body = JSON.parse((await this.readBody(req)).toString('utf-8'));
+    } catch {
+      sendError(400, 'invalid_request_error', 'Request body is not valid JSON');
+      return;
+    }
+
+    const stream = body.stream === true;
+    const translated = source === 'openai' ? openAIToAnthropicRequest(body) : anthropicToOpenAIRequest(body);
+    const key = clientKey(req);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (key) {
+      headers['Authorization'] = `Bearer ${key}`;
+    }
+    if (target === 'anthropic') {
+      if (key) {
+        headers['x-api-key'] = key;
+      }
+      const version = req.headers['anthropic-version'];
+      headers['anthropic-version'] = typeof version === 'string' ? version : ANTHROPIC_VERSION;
+    }
+    const url = baseUrl.replace(/\/$/, '') + (target === 'anthropic' ? '/v1/messages' : '/chat/completions');
+
+    const aborted = new AbortController();
+    res.on('close', () => aborted.abort());
+
+    let response;
+    try {
+      response = await httpClient.request(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(translated),
+        signal: aborted.signal
+      }, { retries: 0, stream: true, timeoutMs: this.options.timeoutMs });
+    } catch (error) {
+      if (!aborted.signal.aborted) {
+        sendError(502, 'api_error', `${this.options.platform} unreachable: ${error instanceof Error ? error.message : error}`);
+      }
+      return;
+    }
+    logger.info(`${source} -> ${target} ${body.model ?? ''} (${response.status}${stream ? ', stream' : ''})`);
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      let upstreamError: Record<string, any> = {};
+      try {
+        upstreamError = JSON.parse(text);
+      } catch {
+        upstreamError = { error: { message: text || `HTTP ${response.status}` } };
+      }
+      this.sendJson(res, response.status, source === 'openai' ? anthropicToOpenAIError(upstreamError) : openAIToAnthropicError(upstreamError));
+      return;
+    }
+
+    const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream');
+    if (!stream || !isEventStream || !response.body) {
+      const result = await response.json() as Record<string, any>;
+      this.sendJson(res, 200, source === 'openai' ? anthropicToOpenAIResponse(result) : openAIToAnthropicResponse(result));
+      return;
+    }
+
+    const translator = source === 'openai'
+      ? new AnthropicToOpenAIStream(body.model, body.stream_options?.include_usage === true)
+      : new OpenAIToAnthropicStream(body.model);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+
+    const decoder = new TextDecoder();
+    try {
+      for await (const chunk of response.body) {
+        const output = translator.push(decoder.decode(chunk, { stream: true }));
+        if (output) {
+          res.write(output);
+        }
+      }
+    } catch (error) {
+      logger.debug(`Upstream stream ended early: ${error instanceof Error ? error.message : error}`);
+    }
+    res.end(translator.push(decoder.decode()) + translator.finish());
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export { Bridge };
@@ -1,32 +1,58 @@
 import fs, { existsSync } from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import { randomBytes } from 'node:crypto';
 import yaml from 'js-yaml';
-import type { UnifiedConfig, PlatformId, PlanType, Language, PlatformConfig, CredentialStorageConfig, CredentialStorageType } from '../types/config.js';
+import type { UnifiedConfig, PlatformId, PlanType, Language, PlatformConfig, PooledApiKey, CredentialStorageConfig, CredentialStorageType, NetworkConfig, GatewayConfig, RouteTarget, MeterConfig, BridgeConfig, AgentConfig, AuthConfig, BudgetConfig, CredentialProfile, ResolvedCredentials, ModelTier, ModelTierMap } from '../types/config.js';
+import { providerRegistry } from './provider-registry.js';
 import { logger } from './logger.js';
 import { encrypt, decrypt } from './crypto.js';
+import { AuthError, ErrorCode } from './errors.js';
+import { CredentialHelper, type CredentialQuery } from './credential-helper.js';
+import type { EncryptedData } from '../types/crypto.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.unified-coding-helper');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.yaml');
 
+// Profile names are used as YAML keys and CLI arguments
+export const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Plaintext of the master password verifier; decrypting it proves the password
+const MASTER_PASSWORD_VERIFIER = 'master_password_verifier';
+
+// Name under which platform and profile keys are kept by an external credential helper
+const HELPER_API_KEY_NAME = 'api_key';
+
+export const DEFAULT_KEY_ROTATION_DAYS = 90;
+
 // Supported config file extensions
 const SUPPORTED_EXTENSIONS = ['.yaml', '.yml', '.json'];
 
-const DEFAULT_CONFIG: UnifiedConfig = {
-  lang: 'en_US',
-  platform: 'glm',
-  plan: 'global',
-  glm: {},
-  minimax: {},
-  active_platform: 'glm'
-};
+// Platform sections are added on first use; the first built-in provider is the default platform
+function getDefaultConfig(): UnifiedConfig {
+  const platform = providerRegistry.getProviderIds()[0];
+  return {
+    lang: 'en_US',
+    platform,
+    plan: 'global',
+    active_platform: platform
+  };
+}
 
 class ConfigManager {
   private static instance: ConfigManager;
-  private config: UnifiedConfig;
+  private loadedConfig?: UnifiedConfig;
+
+  private constructor() {}
 
-  private constructor() {
-    this.config = this.loadConfig();
+  // Loaded on first use like the credential store, so a load warning follows
+  // the log routing the running command chose
+  private get config(): UnifiedConfig {
+    return this.loadedConfig ?? this.loadConfig();
+  }
+
+  private set config(config: UnifiedConfig) {
+    this.loadedConfig = config;
   }
 
   static getInstance(): ConfigManager {
@@ -49,13 +75,13 @@ class ConfigManager {
         const content = fs.readFileSync(CONFIG_FILE, 'utf-8');
         // Use FAILSAFE_SCHEMA to prevent unsafe YAML deserialization (CVE-2023-2251)
         const loaded = yaml.load(content, { schema: (yaml as any).FAILSAFE_SCHEMA }) as UnifiedConfig;
-        this.config = { ...DEFAULT_CONFIG, ...loaded };
+        this.config = { ...getDefaultConfig(), ...loaded };
       } else {
-        this.config = { ...DEFAULT_CONFIG };
+        this.config = getDefaultConfig();
       }
     } catch (error) {
       logger.warning(`Failed to load config: ${error}`);
-      this.config = { ...DEFAULT_CONFIG };
+      this.config = getDefaultConfig();
     }
     return this.config;
   }
@@ -109,7 +135,7 @@ class ConfigManager {
       }
 
       // Merge with default config
-      this.config = { ...DEFAULT_CONFIG, ...loaded };
+      this.config = { ...getDefaultConfig(), ...loaded };
       this.saveConfig();
       logger.info(`Loaded config from: ${resolvedPath}`);
       return this.config;
@@ -159,63 +185,606 @@ class ConfigManager {
   }
 
   // Platform-specific config
+  // Each platform's settings live under a top-level key named after its provider id
+  private getPlatformSection(platform: PlatformId): PlatformConfig | undefined {
+    return (this.config as unknown as Record<string, PlatformConfig | undefined>)[platform];
+  }
+
+  private ensurePlatformSection(platform: PlatformId): PlatformConfig {
+    const sections = this.config as unknown as Record<string, PlatformConfig | undefined>;
+    if (!sections[platform]) {
+      sections[platform] = {};
+    }
+    return sections[platform] as PlatformConfig;
+  }
+
   getPlatformConfig(platform: PlatformId): PlatformConfig {
-    return this.config[platform] || {};
+    return this.getPlatformSection(platform) || {};
   }
 
   setPlatformConfig(platform: PlatformId, config: PlatformConfig): void {
-    (this.config[platform] as PlatformConfig) = { ...this.config[platform], ...config };
+    Object.assign(this.ensurePlatformSection(platform), config);
     this.saveConfig();
   }
 
+  /**
+   * Decrypted key of the platform section; profiles are resolved by resolveCredentials
+   */
   getApiKey(platform?: PlatformId, password?: string): string | undefined {
     const plat = platform || this.config.active_platform;
-    // Only return encrypted API key when password is provided
-    if (password) {
-      const encryptedKey = this.config[plat]?.encrypted_api_key;
-      if (encryptedKey) {
-        try {
-          return decrypt(encryptedKey, password);
-        } catch (error) {
-          logger.warning(`Failed to decrypt API key: ${error}`);
-        }
-      }
-    }
+    // Only return encrypted API key when password is provided.
     // No fallback to plaintext - return undefined if no encrypted key available
-    return undefined;
+    return this.decryptCredentials({
+      platform: plat,
+      plan: this.config.plan,
+      models: {},
+      encrypted_api_key: this.getPlatformSection(plat)?.encrypted_api_key
+    }, password);
   }
 
   setApiKey(platform: PlatformId, apiKey: string, password: string): void {
-    if (!this.config[platform]) {
-      this.config[platform] = {};
+    // With an external credential helper the key lives only in the helper
+    if (this.storeExternalSecret({ platform, name: HELPER_API_KEY_NAME }, apiKey)) {
+      const section = this.ensurePlatformSection(platform);
+      delete section.encrypted_api_key;
+      section.api_key_created_at = new Date().toISOString();
+      this.saveConfig();
+      return;
     }
+    this.assertMasterPassword(password);
     // Always encrypt and store the API key
     const encryptedKey = encrypt(apiKey, password);
-    (this.config[platform] as PlatformConfig).encrypted_api_key = encryptedKey;
+    const section = this.ensurePlatformSection(platform);
+    section.encrypted_api_key = encryptedKey;
+    section.api_key_created_at = new Date().toISOString();
     this.saveConfig();
   }
 
+  /**
+   * Whole days since the platform key was stored; undefined for keys stored
+   * before the time was recorded
+   */
+  getApiKeyAgeDays(platform: PlatformId, now = Date.now()): number | undefined {
+    const createdAt = this.getPlatformSection(platform)?.api_key_created_at;
+    const created = createdAt ? Date.parse(createdAt) : NaN;
+    return Number.isNaN(created) ? undefined : Math.floor((now - created) / (24 * 60 * 60 * 1000));
+  }
+
+  // Master password
+  /**
+   * Whether secrets are protected by a master password: a verifier is stored,
+   * or keys were encrypted before verifiers existed
+   */
+  hasMasterPassword(): boolean {
+    return !!this.config.master_password_hash || this.getEncryptedSecrets().length > 0;
+  }
+
+  /**
+   * Store the verifier for a new master password. Existing keys are not re-encrypted.
+   */
+  setMasterPassword(password: string): void {
+    this.config.master_password_hash = encrypt(MASTER_PASSWORD_VERIFIER, password);
+    this.saveConfig();
+  }
+
+  /**
+   * Check a password against the stored verifier. Configs written before the
+   * verifier existed are checked against an encrypted key, and get a verifier
+   * when it matches. Without any secrets every non-empty password is accepted.
+   */
+  verifyMasterPassword(password: string): boolean {
+    if (!password) {
+      return false;
+    }
+    const verifier = this.config.master_password_hash;
+    if (verifier) {
+      try {
+        return decrypt(verifier, password) === MASTER_PASSWORD_VERIFIER;
+      } catch {
+        return false;
+      }
+    }
+
+    const [secret] = this.getEncryptedSecrets();
+    if (!secret) {
+      return true;
+    }
+    try {
+      decrypt(secret, password);
+    } catch {
+      return false;
+    }
+    this.setMasterPassword(password);
+    return true;
+  }
+
+  /**
+   * Reject a wrong password before anything is encrypted with it; the first
+   * secret stored sets the master password
+   */
+  private assertMasterPassword(password: string): void {
+    if (!this.verifyMasterPassword(password)) {
+      throw new AuthError(ErrorCode.AUTH_FAILED, 'Invalid master password', {
+        suggestedActions: ['Enter the master password used when the first API key was saved']
+      });
+    }
+    if (!this.config.master_password_hash) {
+      this.config.master_password_hash = encrypt(MASTER_PASSWORD_VERIFIER, password);
+    }
+  }
+
+  /**
+   * Re-encrypt every stored key (platform, pooled and profile keys) and the
+   * verifier with a new password. All keys are decrypted before anything is
+   * written, and the config file is replaced with a single rename, so it never
+   * holds a mix of old and new ciphertexts. Returns the number of keys re-encrypted.
+   */
+  changeMasterPassword(oldPassword: string, newPassword: string): number {
+    if (!this.verifyMasterPassword(oldPassword)) {
+      throw new AuthError(ErrorCode.AUTH_FAILED, 'Invalid master password');
+    }
+
+    const next = structuredClone(this.config);
+    let count = 0;
+    this.visitEncryptedSecrets(next, (secret, label) => {
+      let apiKey: string;
+      try {
+        apiKey = decrypt(secret, oldPassword);
+      } catch {
+        throw new AuthError(ErrorCode.AUTH_FAILED, `The ${label} is not encrypted with the current master password; nothing was changed`);
+      }
+      count++;
+      return encrypt(apiKey, newPassword);
+    });
+    next.master_password_hash = encrypt(MASTER_PASSWORD_VERIFIER, newPassword);
+
+    this.writeConfigAtomically(next);
+    this.config = next;
+    return count;
+  }
+
+  private writeConfigAtomically(config: UnifiedConfig): void {
+    this.ensureConfigDir();
+    const tempFile = `${CONFIG_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, yaml.dump(config), { encoding: 'utf-8', mode: 0o600 });
+    try {
+      fs.renameSync(tempFile, CONFIG_FILE);
+    } catch (error) {
+      fs.rmSync(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Every encrypted key in the config: platform keys, pooled keys and profile keys
+   */
+  private getEncryptedSecrets(): EncryptedData[] {
+    const secrets: EncryptedData[] = [];
+    this.visitEncryptedSecrets(this.config, secret => {
+      secrets.push(secret);
+    });
+    return secrets;
+  }
+
+  /**
+   * Every stored key the password decrypts, labelled like "glm API key", so
+   * copies of them can be found in other files
+   */
+  getKnownApiKeys(password?: string): Array<{ label: string; platform: PlatformId; value: string }> {
+    const keys: Array<{ label: string; platform: PlatformId; value: string }> = [];
+    if (!password || !this.verifyMasterPassword(password)) {
+      return keys;
+    }
+    this.visitEncryptedSecrets(this.config, (secret, label, platform) => {
+      try {
+        keys.push({ label, platform, value: decrypt(secret, password) });
+      } catch {
+        // Encrypted with another password; nothing to compare against
+      }
+    });
+    return keys;
+  }
+
+  /**
+   * Call `visit` for each encrypted key in `config`; a returned value replaces the key
+   */
+  private visitEncryptedSecrets(config: UnifiedConfig, visit: (secret: EncryptedData, label: string, platform: PlatformId) => EncryptedData | void): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (key === 'profiles' || !value || typeof value !== 'object') {
+        continue;
+      }
+      const section = value as PlatformConfig;
+      if (section.encrypted_api_key) {
+        section.encrypted_api_key = visit(section.encrypted_api_key, `${key} API key`, key) || section.encrypted_api_key;
+      }
+      for (const pooled of Array.isArray(section.key_pool) ? section.key_pool : []) {
+        if (pooled?.encrypted_api_key) {
+          pooled.encrypted_api_key = visit(pooled.encrypted_api_key, `${key} pool key ${pooled.name}`, key) || pooled.encrypted_api_key;
+        }
+      }
+    }
+    for (const [name, profile] of Object.entries(config.profiles || {})) {
+      if (profile?.encrypted_api_key) {
+        profile.encrypted_api_key = visit(profile.encrypted_api_key, `key of profile ${name}`, profile.platform) || profile.encrypted_api_key;
+      }
+    }
+  }
+
   revokeApiKey(platform: PlatformId): void {
-    if (this.config[platform]) {
-      delete (this.config[platform] as PlatformConfig).api_key;
-      delete (this.config[platform] as PlatformConfig).encrypted_api_key;
+    const section = this.getPlatformSection(platform);
+    if (section) {
+      delete section.api_key;
+      delete section.encrypted_api_key;
       this.saveConfig();
     }
   }
 
+  // API key pools
+  getKeyPool(platform: PlatformId): PooledApiKey[] {
+    const pool = this.getPlatformSection(platform)?.key_pool;
+    return Array.isArray(pool) ? pool.filter(key => key && key.name && key.encrypted_api_key).map(key => ({ ...key })) : [];
+  }
+
+  /**
+   * Add a key to the platform's pool, encrypted like the platform key
+   */
+  addPooledKey(platform: PlatformId, name: string, apiKey: string, password: string): void {
+    if (this.getKeyPool(platform).some(key => key.name === name)) {
+      throw new Error(`Key ${name} is already in the ${platform} pool`);
+    }
+    this.assertMasterPassword(password);
+    const section = this.ensurePlatformSection(platform);
+    section.key_pool = [
+      ...this.getKeyPool(platform),
+      { name, encrypted_api_key: encrypt(apiKey, password), added_at: new Date().toISOString() }
+    ];
+    this.saveConfig();
+  }
+
+  /**
+   * Remove a key from the platform's pool; returns false when there was none named `name`
+   */
+  removePooledKey(platform: PlatformId, name: string): boolean {
+    const section = this.getPlatformSection(platform);
+    const pool = this.getKeyPool(platform);
+    if (!section || !pool.some(key => key.name === name)) {
+      return false;
+    }
+    const remaining = pool.filter(key => key.name !== name);
+    if (remaining.length > 0) {
+      section.key_pool = remaining;
+    } else {
+      delete section.key_pool;
+    }
+    this.saveConfig();
+    return true;
+  }
+
+  /**
+   * Decrypted pool keys; keys that fail to decrypt are left out
+   */
+  decryptKeyPool(platform: PlatformId, password: string): Array<{ name: string; apiKey: string }> {
+    const keys: Array<{ name: string; apiKey: string }> = [];
+    for (const key of this.getKeyPool(platform)) {
+      try {
+        keys.push({ name: key.name, apiKey: decrypt(key.encrypted_api_key, password) });
+      } catch (error) {
+        logger.warning(`Failed to decrypt pooled key ${key.name} for ${platform}: ${error}`);
+      }
+    }
+    return keys;
+  }
+
   getEndpoint(platform?: PlatformId): string | undefined {
     const plat = platform || this.config.active_platform;
-    return this.config[plat]?.endpoint;
+    return this.getPlatformSection(plat)?.endpoint;
   }
 
   setEndpoint(platform: PlatformId, endpoint: string): void {
-    if (!this.config[platform]) {
-      this.config[platform] = {};
+    this.ensurePlatformSection(platform).endpoint = endpoint;
+    this.saveConfig();
+  }
+
+  getModelTiers(platform?: PlatformId): ModelTierMap {
+    const plat = platform || this.config.active_platform;
+    return { ...this.getPlatformSection(plat)?.models };
+  }
+
+  setModelTier(platform: PlatformId, tier: ModelTier, model: string): void {
+    const section = this.ensurePlatformSection(platform);
+    section.models = { ...section.models, [tier]: model };
+    this.saveConfig();
+  }
+
+  /**
+   * Clear one tier, or the whole map when no tier is given
+   */
+  resetModelTiers(platform: PlatformId, tier?: ModelTier): void {
+    const section = this.getPlatformSection(platform);
+    if (!section?.models) {
+      return;
+    }
+    if (tier) {
+      delete section.models[tier];
+    }
+    if (!tier || Object.keys(section.models).length === 0) {
+      delete section.models;
+    }
+    this.saveConfig();
+  }
+
+  /**
+   * Gateway settings with the port coerced (YAML is loaded as strings)
+   */
+  getGatewayConfig(): GatewayConfig {
+    const gateway = this.config.gateway || {};
+    const port = Number(gateway.port);
+    return {
+      port: Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined,
+      platforms: Array.isArray(gateway.platforms) ? gateway.platforms : undefined,
+      routes: this.getRoutes()
+    };
+  }
+
+  /**
+   * Token the gateway requires from tools, generated and saved on first use
+   */
+  getGatewayToken(): string {
+    const token = this.config.gateway?.token;
+    if (typeof token === 'string' && token) {
+      return token;
+    }
+    const generated = `cpa-gw-${randomBytes(24).toString('hex')}`;
+    this.config.gateway = { ...this.config.gateway, token: generated };
+    this.saveConfig();
+    return generated;
+  }
+
+  /**
+   * Gateway routing table; entries without a platform are ignored
+   */
+  getRoutes(): Record<string, RouteTarget> {
+    const routes: Record<string, RouteTarget> = {};
+    for (const [match, target] of Object.entries(this.config.gateway?.routes || {})) {
+      if (target && typeof target.platform === 'string' && target.platform) {
+        routes[match] = target.model ? { platform: target.platform, model: target.model } : { platform: target.platform };
+      }
+    }
+    return routes;
+  }
+
+  setRoute(match: string, target: RouteTarget): void {
+    const gateway = this.config.gateway || {};
+    this.config.gateway = { ...gateway, routes: { ...gateway.routes, [match]: target } };
+    this.saveConfig();
+  }
+
+  /**
+   * Remove a route; returns false when there was none for `match`
+   */
+  removeRoute(match: string): boolean {
+    const routes = { ...this.config.gateway?.routes };
+    if (!routes[match]) {
+      return false;
+    }
+    delete routes[match];
+    this.config.gateway = { ...this.config.gateway, routes: Object.keys(routes).length > 0 ? routes : undefined };
+    this.saveConfig();
+    return true;
+  }
+
+  /**
+   * Bridge settings with the port coerced (YAML is loaded as strings)
+   */
+  getBridgeConfig(): BridgeConfig {
+    const port = Number(this.config.bridge?.port);
+    return {
+      port: Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined
+    };
+  }
+
+  /**
+   * API key settings with the rotation period coerced (YAML is loaded as strings)
+   */
+  getAuthConfig(): AuthConfig {
+    const days = Number(this.config.auth?.keyRotationDays);
+    return {
+      keyRotationDays: Number.isFinite(days) && days >= 0 ? days : DEFAULT_KEY_ROTATION_DAYS
+    };
+  }
+
+  /**
+   * Agent settings with the idle timeout coerced (YAML is loaded as strings)
+   */
+  getAgentConfig(): AgentConfig {
+    const minutes = Number(this.config.agent?.idleTimeoutMinutes);
+    return {
+      idleTimeoutMinutes: Number.isFinite(minutes) && minutes > 0 ? minutes : undefined
+    };
+  }
+
+  /**
+   * Meter settings with numbers coerced (YAML is loaded as strings)
+   */
+  getMeterConfig(): MeterConfig {
+    const meter = this.config.meter || {};
+    const port = Number(meter.port);
+    const toTokens = (value: unknown): number | undefined => {
+      const parsed = Number(value);
+      return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+    };
+    const tools: Record<string, number> = {};
+    for (const [toolId, value] of Object.entries(meter.budget?.tools || {})) {
+      const tokens = toTokens(value);
+      if (tokens !== undefined) {
+        tools[toolId] = tokens;
+      }
+    }
+    return {
+      port: Number.isInteger(port) && port > 0 && port < 65536 ? port : undefined,
+      budget: {
+        dailyTokens: toTokens(meter.budget?.dailyTokens),
+        tools,
+        action: meter.budget?.action === 'block' ? 'block' : 'warn'
+      }
+    };
+  }
+
+  /**
+   * Merge budget settings. A `dailyTokens` or tool entry of 0 removes that budget.
+   */
+  setBudget(budget: BudgetConfig): void {
+    const current = this.config.meter?.budget || {};
+    const next: BudgetConfig = { ...current, tools: { ...current.tools } };
+    if (budget.dailyTokens !== undefined) {
+      next.dailyTokens = budget.dailyTokens > 0 ? budget.dailyTokens : undefined;
+    }
+    for (const [toolId, tokens] of Object.entries(budget.tools || {})) {
+      if (tokens > 0) {
+        next.tools![toolId] = tokens;
+      } else {
+        delete next.tools![toolId];
+      }
+    }
+    if (Object.keys(next.tools!).length === 0) {
+      delete next.tools;
+    }
+    if (budget.action) {
+      next.action = budget.action;
+    }
+    this.config.meter = { ...this.config.meter, budget: next };
+    this.saveConfig();
+  }
+
+  // Credential profiles
+  getProfiles(): Record<string, CredentialProfile> {
+    return { ...this.config.profiles };
+  }
+
+  getProfile(name: string): CredentialProfile | undefined {
+    return this.config.profiles?.[name];
+  }
+
+  hasProfile(name: string): boolean {
+    return !!this.config.profiles?.[name];
+  }
+
+  setProfile(name: string, profile: CredentialProfile): void {
+    this.config.profiles = { ...this.config.profiles, [name]: profile };
+    this.saveConfig();
+  }
+
+  setProfileApiKey(name: string, apiKey: string, password: string): void {
+    const profile = this.getProfile(name);
+    if (!profile) {
+      throw new Error(`Profile not found: ${name}`);
+    }
+    if (this.storeExternalSecret({ platform: profile.platform, profile: name, name: HELPER_API_KEY_NAME }, apiKey)) {
+      delete profile.encrypted_api_key;
+      this.saveConfig();
+      return;
     }
-    (this.config[platform] as PlatformConfig).endpoint = endpoint;
+    this.assertMasterPassword(password);
+    profile.encrypted_api_key = encrypt(apiKey, password);
     this.saveConfig();
   }
 
+  removeProfile(name: string): void {
+    const profile = this.config.profiles?.[name];
+    if (!this.config.profiles || !profile) {
+      return;
+    }
+    this.getCredentialHelper()?.erase({ platform: profile.platform, profile: name, name: HELPER_API_KEY_NAME });
+    delete this.config.profiles[name];
+    if (Object.keys(this.config.profiles).length === 0) {
+      delete this.config.profiles;
+    }
+    if (this.config.active_profile === name) {
+      delete this.config.active_profile;
+    }
+    this.saveConfig();
+  }
+
+  getActiveProfileName(): string | undefined {
+    const name = this.config.active_profile;
+    return name && this.hasProfile(name) ? name : undefined;
+  }
+
+  /**
+   * Select a profile; its platform and plan become the active ones
+   */
+  useProfile(name: string): void {
+    const profile = this.getProfile(name);
+    if (!profile) {
+      throw new Error(`Profile not found: ${name}`);
+    }
+    this.config.active_profile = name;
+    this.config.platform = profile.platform;
+    this.config.active_platform = profile.platform;
+    this.config.plan = profile.plan;
+    this.saveConfig();
+  }
+
+  /**
+   * Settings to load into a tool: the named profile, else the active profile when it
+   * targets the requested platform, else the platform's own section
+   */
+  resolveCredentials(platform?: PlatformId, profileName?: string): ResolvedCredentials {
+    const name = profileName || this.getActiveProfileName();
+    const profile = name ? this.getProfile(name) : undefined;
+    if (profile && (profileName || !platform || profile.platform === platform)) {
+      return {
+        profile: name,
+        platform: profile.platform,
+        plan: profile.plan,
+        endpoint: profile.endpoint,
+        models: { ...profile.models },
+        encrypted_api_key: profile.encrypted_api_key
+      };
+    }
+    if (profileName) {
+      throw new Error(`Profile not found: ${profileName}`);
+    }
+
+    const plat = platform || this.config.active_platform;
+    const section = this.getPlatformSection(plat);
+    return {
+      platform: plat,
+      plan: this.config.plan,
+      endpoint: section?.endpoint,
+      models: { ...section?.models },
+      encrypted_api_key: section?.encrypted_api_key
+    };
+  }
+
+  /**
+   * Decrypt the API key of resolved credentials
+   */
+  decryptCredentials(credentials: ResolvedCredentials, password?: string): string | undefined {
+    // Keys kept by an external credential helper need no master password
+    const helperKey = this.getCredentialHelper()?.get({
+      platform: credentials.platform,
+      profile: credentials.profile,
+      name: HELPER_API_KEY_NAME
+    });
+    if (helperKey) {
+      return helperKey;
+    }
+    if (!password || !credentials.encrypted_api_key) {
+      return undefined;
+    }
+    if (this.config.master_password_hash && !this.verifyMasterPassword(password)) {
+      logger.error('Invalid master password');
+      return undefined;
+    }
+    try {
+      return decrypt(credentials.encrypted_api_key, password);
+    } catch (error) {
+      logger.warning(`Failed to decrypt API key: ${error}`);
+      return undefined;
+    }
+  }
+
   // Credential storage getters/setters
   getCredentialStorage(): CredentialStorageConfig | undefined {
     return this.config.credentialStorage;
@@ -226,6 +795,29 @@ class ConfigManager {
     this.saveConfig();
   }
 
+  /**
+   * Network settings with numeric values coerced (YAML is loaded as strings)
+   */
+  getNetworkConfig(): NetworkConfig {
+    const network = this.config.network || {};
+    const toNumber = (value: unknown): number | undefined => {
+      const parsed = Number(value);
+      return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+    };
+    return {
+      proxy: network.proxy || undefined,
+      caFile: network.caFile || undefined,
+      timeoutMs: toNumber(network.timeoutMs),
+      proxyTimeoutMs: toNumber(network.proxyTimeoutMs),
+      retries: toNumber(network.retries)
+    };
+  }
+
+  setNetworkConfig(config: NetworkConfig): void {
+    this.config.network = { ...this.config.network, ...config };
+    this.saveConfig();
+  }
+
   getCredentialStorageType(): CredentialStorageType | undefined {
     return this.config.credentialStorage?.type;
   }
@@ -256,6 +848,36 @@ class ConfigManager {
     return this.config.credentialStorage?.externalProvider;
   }
 
+  /**
+   * External credential helper, when credential storage is `external` and a
+   * provider command is configured
+   */
+  getCredentialHelper(): CredentialHelper | undefined {
+    const storage = this.config.credentialStorage;
+    if (storage?.type !== 'external' || !storage.externalProvider) {
+      return undefined;
+    }
+    try {
+      return new CredentialHelper(storage.externalProvider);
+    } catch (error) {
+      logger.warning(`Invalid credential helper: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+
+  // Whether the secret was handed to the external credential helper
+  private storeExternalSecret(query: CredentialQuery, secret: string): boolean {
+    const helper = this.getCredentialHelper();
+    if (!helper) {
+      return false;
+    }
+    if (helper.store(query, secret)) {
+      return true;
+    }
+    logger.warning('Credential helper could not store the key; keeping it encrypted in the config file instead');
+    return false;
+  }
+
   setCredentialStorageExternalProvider(provider: string): void {
     if (!this.config.credentialStorage) {
       this.config.credentialStorage = { type: 'external', externalProvider: provider };
@@ -0,0 +1,110 @@
+import { execFileSync } from 'node:child_process';
+import { commandValidator } from './command-validator.js';
+import { logger } from './logger.js';
+
+// A helper talking to a remote secret manager may be slow, but must not hang cpa
+const HELPER_TIMEOUT_MS = 15000;
+
+export type CredentialHelperAction = 'get' | 'store' | 'erase';
+
+/**
+ * Identifies one secret. Sent to the helper as key=value lines; fields left
+ * undefined are omitted.
+ */
+export interface CredentialQuery {
+  platform: string;
+  /** Tool the secret was stored for, for secrets of the secure credential store */
+  tool?: string;
+  /** Profile the secret belongs to, for profile keys */
+  profile?: string;
+  /** Which secret: `api_key` for platform and profile keys, else the credential's key */
+  name: string;
+}
+
+/**
+ * Request body: one key=value line per field, ended by a blank line.
+ * Values cannot contain line breaks, as in git's credential helper protocol.
+ */
+export function formatCredentialRequest(fields: Record<string, string | undefined>): string {
+  let request = '';
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (/[\r\n]/.test(value)) {
+      throw new Error(`Credential helper field ${key} contains a line break`);
+    }
+    request += `${key}=${value}\n`;
+  }
+  return request + '\n';
+}
+
+/**
+ * Fields of a helper's reply. Parsing stops at the first blank line, and lines
+ * without `=` are ignored.
+ */
+export function parseCredentialResponse(output: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of output.split(/\r?\n/)) {
+    if (!line) {
+      break;
+    }
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      fields[line.slice(0, separator)] = line.slice(separator + 1);
+    }
+  }
+  return fields;
+}
+
+/**
+ * External program that keeps secrets for cpa, in the style of git credential
+ * helpers. cpa runs `<helper> get|store|erase` and writes the query (plus
+ * `secret=` for store) to its stdin; `get` answers with a `secret=` line on
+ * stdout, or no secret when it has none. A non-zero exit status is a failure.
+ */
+class CredentialHelper {
+  private readonly command: string;
+  private readonly args: string[];
+
+  constructor(commandLine: string) {
+    const { command, args } = commandValidator.parseCommand(commandLine);
+    if (!command) {
+      throw new Error('Credential helper command is empty');
+    }
+    this.command = command;
+    this.args = args;
+  }
+
+  get(query: CredentialQuery): string | undefined {
+    const output = this.run('get', { ...query });
+    const secret = output === undefined ? undefined : parseCredentialResponse(output).secret;
+    return secret || undefined;
+  }
+
+  store(query: CredentialQuery, secret: string): boolean {
+    return this.run('store', { ...query, secret }) !== undefined;
+  }
+
+  erase(query: CredentialQuery): boolean {
+    return this.run('erase', { ...query }) !== undefined;
+  }
+
+  // Helper's stdout, or undefined after logging why the helper failed
+  private run(action: CredentialHelperAction, fields: Record<string, string | undefined>): string | undefined {
+    try {
+      return execFileSync(this.command, [...this.args, action], {
+        input: formatCredentialRequest(fields),
+        encoding: 'utf-8',
+        timeout: HELPER_TIMEOUT_MS,
+        // The helper may prompt on the terminal (e.g. to unlock a vault), so only stdout is captured
+        stdio: ['pipe', 'pipe', 'inherit']
+      });
+    } catch (error) {
+      logger.warning(`Credential helper ${this.command} ${action} failed: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+}
+
+export { CredentialHelper };
@@ -0,0 +1,372 @@
+import http from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { PlatformId, ModelTier, RouteTarget } from '../types/config.js';
+import { configManager } from './config.js';
+import { platformManager } from './platform-manager.js';
+import { httpClient, isTimeoutError } from './http-client.js';
+import { KeyPool, DEFAULT_KEY_NAME, getCooldownMs, type PoolKey } from './key-pool.js';
+import type { RouteLogEntry } from './route-log.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_GATEWAY_PORT = 8787;
+export const GATEWAY_HOST = '127.0.0.1';
+
+// The only upstream endpoints tools may reach through the gateway
+const FORWARDED_PATHS = ['/v1/messages', '/v1/messages/count_tokens'];
+
+// Headers that describe the incoming connection or the client's own credentials
+const DROPPED_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'authorization', 'x-api-key', 'accept-encoding'];
+
+// fetch decodes the upstream body, so its encoding and length no longer apply
+const DROPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive'];
+
+export interface GatewayUpstream {
+  platform: PlatformId;
+  /** Anthropic-compatible base URL, e.g. https://api.z.ai/api/anthropic */
+  baseUrl: string;
+  apiKey: string;
+  /** Further keys from the platform's pool, rotated together with `apiKey` */
+  pooledKeys?: PoolKey[];
+  models: string[];
+  tiers: Record<ModelTier, string>;
+}
+
+export interface GatewayOptions {
+  port?: number;
+  /** Per-install token tools send as their API key; the gateway substitutes the real key per upstream */
+  token: string;
+  /** Upstreams in failover order; the first is the primary */
+  upstreams: GatewayUpstream[];
+  /** Routing table keyed by tier or model id; routed requests try their platform first */
+  routes?: Record<string, RouteTarget>;
+  /** Called with the platform that answered each request */
+  onDispatch?: (entry: RouteLogEntry) => void;
+  /**
+   * Wait for upstream response headers, which a non-streaming call only sends
+   * with the full answer; 0 means no limit. Defaults to `network.timeoutMs`.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Pick the model to send to an upstream. Models the upstream lists are kept;
+ * others are mapped through the tier they hold on the primary platform, or a
+ * Claude family name, to the upstream's model for that tier.
+ */
+export function mapModel(model: string | undefined, primary: GatewayUpstream, target: GatewayUpstream): string {
+  if (model && target.models.includes(model)) {
+    return model;
+  }
+  return target.tiers[detectTier(model, [primary]) || 'sonnet'];
+}
+
+/**
+ * Tier of a requested model: the first tier an upstream assigns it to, or a
+ * Claude family name in it. Tiers that share a model resolve to the first of them.
+ */
+export function detectTier(model: string | undefined, upstreams: GatewayUpstream[]): ModelTier | undefined {
+  if (!model) {
+    return undefined;
+  }
+  for (const upstream of upstreams) {
+    const tier = (Object.keys(upstream.tiers) as ModelTier[]).find(t => upstream.tiers[t] === model);
+    if (tier) {
+      return tier;
+    }
+  }
+  return (['opus', 'sonnet', 'haiku'] as ModelTier[]).find(t => model.toLowerCase().includes(t));
+}
+
+/**
+ * Routing table entry for a requested model: an exact model entry wins over
+ * the entry for the model's tier
+ */
+export function findRoute(
+  model: string | undefined,
+  routes: Record<string, RouteTarget>,
+  upstreams: GatewayUpstream[]
+): { match: string; target: RouteTarget } | undefined {
+  if (model && routes[model]) {
+    return { match: model, target: routes[model] };
+  }
+  const tier = detectTier(model, upstreams);
+  return tier && routes[tier] ? { match: tier, target: routes[tier] } : undefined;
+}
+
+/**
+ * Upstreams for the given platforms, the `gateway.platforms` setting, or the active
+ * platform followed by the others. Platforms named only in the routing table come
+ * last. Platforms without a usable key are skipped.
+ */
+export function resolveGatewayUpstreams(password: string | undefined, platformIds?: PlatformId[]): { upstreams: GatewayUpstream[]; skipped: PlatformId[] } {
+  const active = configManager.getActivePlatform();
+  const gatewayConfig = configManager.getGatewayConfig();
+  const order = platformIds && platformIds.length > 0
+    ? [...platformIds]
+    : gatewayConfig.platforms
+      || [active, ...platformManager.getPlatformIds().filter(id => id !== active)];
+  for (const target of Object.values(gatewayConfig.routes || {})) {
+    if (!order.includes(target.platform)) {
+      order.push(target.platform);
+    }
+  }
+
+  const upstreams: GatewayUpstream[] = [];
+  const skipped: PlatformId[] = [];
+  for (const platformId of order) {
+    const platform = platformManager.getPlatform(platformId);
+    const credentials = platform ? configManager.resolveCredentials(platformId) : undefined;
+    const apiKey = credentials ? configManager.decryptCredentials(credentials, password) : undefined;
+    const baseUrl = credentials?.endpoint || platform?.getEndpoint(credentials?.plan || configManager.getPlan(), 'anthropic');
+    if (!platform || !credentials || !apiKey || !baseUrl) {
+      skipped.push(platformId);
+      continue;
+    }
+    // Pools belong to the platform section, not to profiles
+    const pooledKeys = credentials.profile || !password ? [] : configManager.decryptKeyPool(platformId, password);
+    upstreams.push({
+      platform: platformId,
+      baseUrl: baseUrl.replace(/\/$/, ''),
+      apiKey,
+      pooledKeys: pooledKeys.length > 0 ? pooledKeys : undefined,
+      models: platform.models,
+      tiers: platform.resolveModelTiers(credentials.models)
+    });
+  }
+  return { upstreams, skipped };
+}
+
+/**
+ * Local Anthropic Messages endpoint that forwards to the configured platforms,
+ * failing over to the next one on 429, 5xx and connection failures. Requests
+ * matching the routing table go to their routed platform first. Platforms with
+ * a key pool rotate through their keys, resting keys that hit a rate limit.
+ */
+class Gateway {
+  private server?: http.Server;
+  private readonly pools = new Map<PlatformId, KeyPool>();
+
+  constructor(private readonly options: GatewayOptions) {
+    if (options.upstreams.length === 0) {
+      throw new Error('Gateway needs at least one upstream platform');
+    }
+    for (const upstream of options.upstreams) {
+      this.pools.set(upstream.platform, new KeyPool([{ name: DEFAULT_KEY_NAME, apiKey: upstream.apiKey }, ...upstream.pooledKeys || []]));
+    }
+  }
+
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Gateway error: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          this.sendError(res, 500, 'api_error', 'Internal gateway error');
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? DEFAULT_GATEWAY_PORT, GATEWAY_HOST, () => resolve());
+    });
+    return (server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Browsers send Origin on cross-site requests, including no-cors form posts; tools do not
+    if (req.headers.origin !== undefined) {
+      this.sendError(res, 403, 'permission_error', 'Browser requests are not accepted');
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      this.sendError(res, 401, 'authentication_error', 'Missing or invalid gateway token');
+      return;
+    }
+
+    const path = (req.url || '').split('?')[0];
+    if (req.method === 'GET' && path === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      const keys = Object.fromEntries([...this.pools].map(([platform, pool]) => [platform, pool.status()]));
+      res.end(JSON.stringify({ status: 'ok', upstreams: this.options.upstreams.map(u => u.platform), routes: this.options.routes || {}, keys }));
+      return;
+    }
+    if (req.method !== 'POST' || !FORWARDED_PATHS.includes(path)) {
+      this.sendError(res, 404, 'not_found_error', `${req.method} ${path} is not served by the gateway`);
+      return;
+    }
+
+    const body = await this.readBody(req);
+    let payload: Record<string, unknown> | undefined;
+    if (body.length > 0) {
+      try {
+        payload = JSON.parse(body.toString('utf-8'));
+      } catch {
+        this.sendError(res, 400, 'invalid_request_error', 'Request body is not valid JSON');
+        return;
+      }
+    }
+
+    // Abort upstream work when the tool disconnects
+    const aborted = new AbortController();
+    res.on('close', () => aborted.abort());
+
+    const [primary] = this.options.upstreams;
+    const model = typeof payload?.model === 'string' ? payload.model : undefined;
+    const route = findRoute(model, this.options.routes || {}, this.options.upstreams);
+    const routed = route && this.options.upstreams.find(u => u.platform === route.target.platform);
+    if (route && !routed) {
+      logger.warning(`Route ${route.match} -> ${route.target.platform} skipped: the platform has no usable API key`);
+    }
+    const upstreams = routed ? [routed, ...this.options.upstreams.filter(u => u !== routed)] : this.options.upstreams;
+
+    for (let i = 0; i < upstreams.length; i++) {
+      const upstream = upstreams[i];
+      const lastUpstream = i === upstreams.length - 1;
+      const pool = this.pools.get(upstream.platform)!;
+      const keys = pool.candidates(lastUpstream);
+      if (keys.length === 0) {
+        logger.warning(`All ${upstream.platform} keys are cooling down, failing over to ${upstreams[i + 1].platform}`);
+        continue;
+      }
+      const upstreamModel = upstream === routed && route?.target.model ? route.target.model : mapModel(model, primary, upstream);
+      const forwarded = payload && model ? { ...payload, model: upstreamModel } : payload;
+
+      for (let k = 0; k < keys.length; k++) {
+        const key = keys[k];
+        const isLast = lastUpstream && k === keys.length - 1;
+        const keyLabel = pool.size > 1 ? ` key ${key.name}` : '';
+        const next = k < keys.length - 1 ? `key ${keys[k + 1].name}` : upstreams[i + 1]?.platform;
+        const started = Date.now();
+
+        let response;
+        try {
+          response = await httpClient.request(upstream.baseUrl + req.url, {
+            method: req.method,
+            headers: this.buildHeaders(req, key.apiKey),
+            body: forwarded ? JSON.stringify(forwarded) : undefined,
+            signal: aborted.signal
+          }, { retries: 0, stream: true, timeoutMs: this.options.timeoutMs });
+        } catch (error) {
+          if (aborted.signal.aborted) {
+            return;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          // The request was sent and may be billed, so it is not repeated on another platform
+          if (isTimeoutError(error)) {
+            this.sendError(res, 504, 'api_error', `${upstream.platform} did not answer in time: ${message}`);
+            return;
+          }
+          if (!lastUpstream) {
+            logger.warning(`${upstream.platform} unreachable (${message}), failing over to ${upstreams[i + 1].platform}`);
+            break;
+          }
+          this.sendError(res, 502, 'api_error', `All upstream platforms failed: ${message}`);
+          return;
+        }
+
+        if (response.status === 429) {
+          // The error text tells a spent quota from a short rate limit; the last attempt passes it on instead
+          const errorText = isLast ? '' : await response.text().catch(() => '');
+          pool.cooldown(key.name, getCooldownMs(response.headers.get('retry-after'), errorText));
+          if (!isLast) {
+            logger.warning(`${upstream.platform}${keyLabel} hit a rate limit, ${k < keys.length - 1 ? 'rotating' : 'failing over'} to ${next}`);
+            continue;
+          }
+        } else if (response.status >= 500 && !lastUpstream) {
+          logger.warning(`${upstream.platform} returned HTTP ${response.status}, failing over to ${upstreams[i + 1].platform}`);
+          await response.body?.cancel().catch(() => undefined);
+          break;
+        }
+
+        logger.info(`${req.method} ${req.url} -> ${upstream.platform}${keyLabel} ${forwarded?.model ?? ''} (${response.status}, ${Date.now() - started}ms)`);
+        this.options.onDispatch?.({
+          timestamp: new Date(started).toISOString(),
+          model,
+          route: upstream === routed ? route?.match : undefined,
+          platform: upstream.platform,
+          key: pool.size > 1 ? key.name : undefined,
+          upstreamModel: model ? upstreamModel : undefined,
+          status: response.status,
+          failover: i > 0
+        });
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          if (!DROPPED_RESPONSE_HEADERS.includes(name)) {
+            headers[name] = value;
+          }
+        });
+        headers['x-cpa-upstream'] = upstream.platform;
+        if (upstream === routed && route) {
+          headers['x-cpa-route'] = route.match;
+        }
+        res.writeHead(response.status, headers);
+        res.flushHeaders();
+
+        // Stream chunks (including SSE events) through as they arrive
+        if (response.body) {
+          try {
+            for await (const chunk of response.body) {
+              res.write(chunk);
+            }
+          } catch (error) {
+            logger.debug(`Upstream stream ended early: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+        res.end();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Whether the request carries the gateway token as `x-api-key` or a bearer token
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const presented = Buffer.from(String(req.headers['x-api-key'] || bearer || ''));
+    const expected = Buffer.from(this.options.token);
+    return presented.length === expected.length && timingSafeEqual(presented, expected);
+  }
+
+  private buildHeaders(req: http.IncomingMessage, apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined && !DROPPED_REQUEST_HEADERS.includes(name)) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+    headers['x-api-key'] = apiKey;
+    headers['authorization'] = `Bearer ${apiKey}`;
+    return headers;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  private sendError(res: http.ServerResponse, status: number, type: string, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ type: 'error', error: { type, message } }));
+  }
+}
+
+export { Gateway };
@@ -0,0 +1,236 @@
+import fs from 'node:fs';
+import tls from 'node:tls';
+import { Agent, ProxyAgent, fetch, type Dispatcher, type RequestInit, type Response } from 'undici';
+import { configManager } from './config.js';
+import { logger } from './logger.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+// Proxied LLM calls send no headers until a non-streaming answer is complete
+const DEFAULT_PROXY_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Connection failures worth another attempt; DNS and TLS failures are not
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+export type ProxySource = 'config' | 'env' | 'none';
+
+export interface ProxyInfo {
+  /** Proxy URL with credentials masked, undefined for direct connections */
+  proxy?: string;
+  source: ProxySource;
+  /** Environment variable the proxy came from */
+  envVar?: string;
+  /** Set when NO_PROXY excludes the target host */
+  bypassed?: boolean;
+}
+
+export interface HttpRequestOptions {
+  /** 0 waits without a limit */
+  timeoutMs?: number;
+  retries?: number;
+  /** Bound only the wait for response headers, so long streamed bodies are not cut off */
+  stream?: boolean;
+}
+
+/**
+ * Single entry point for outgoing HTTP requests: applies the proxy, extra CA
+ * bundle, timeout and retry settings from the `network` config section.
+ */
+class HttpClient {
+  private static instance: HttpClient;
+  private dispatchers = new Map<string, Dispatcher>();
+
+  private constructor() {}
+
+  static getInstance(): HttpClient {
+    if (!HttpClient.instance) {
+      HttpClient.instance = new HttpClient();
+    }
+    return HttpClient.instance;
+  }
+
+  /**
+   * Resolve the proxy for a target URL: config first, then HTTPS_PROXY/HTTP_PROXY.
+   * NO_PROXY applies to either source.
+   */
+  private resolveProxy(url?: string): ProxyInfo {
+    const resolved = this.findProxy(url);
+    if (resolved.proxy && url && this.isNoProxyHost(url)) {
+      return { ...resolved, bypassed: true };
+    }
+    return resolved;
+  }
+
+  private findProxy(url?: string): ProxyInfo {
+    const configured = configManager.getNetworkConfig().proxy;
+    if (configured) {
+      return { proxy: configured, source: 'config' };
+    }
+
+    const isHttp = url?.startsWith('http://');
+    const candidates = isHttp
+      ? ['HTTP_PROXY', 'http_proxy']
+      : ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+    const envVar = candidates.find(name => process.env[name]);
+    if (!envVar) {
+      return { source: 'none' };
+    }
+    return { proxy: process.env[envVar], source: 'env', envVar };
+  }
+
+  private isNoProxyHost(url: string): boolean {
+    const noProxy = process.env.NO_PROXY || process.env.no_proxy;
+    if (!noProxy) {
+      return false;
+    }
+    const host = new URL(url).hostname.toLowerCase();
+    return noProxy.split(',').map(entry => entry.trim().toLowerCase()).some(entry => {
+      if (!entry) return false;
+      if (entry === '*') return true;
+      const domain = entry.replace(/:\d+$/, '').replace(/^\*?\./, '');
+      return host === domain || host.endsWith('.' + domain);
+    });
+  }
+
+  /**
+   * Wait for upstream response headers in the local proxies (gateway, meter,
+   * bridge, recorder); 0 means no limit
+   */
+  getProxyTimeoutMs(): number {
+    return configManager.getNetworkConfig().proxyTimeoutMs ?? DEFAULT_PROXY_TIMEOUT_MS;
+  }
+
+  /**
+   * Effective proxy for display, with any credentials in the URL masked
+   */
+  getProxyInfo(url?: string): ProxyInfo {
+    const resolved = this.resolveProxy(url);
+    if (!resolved.proxy) {
+      return resolved;
+    }
+    return { ...resolved, proxy: maskProxyCredentials(resolved.proxy) };
+  }
+
+  private getDispatcher(url: string): Dispatcher {
+    const { proxy, bypassed } = this.resolveProxy(url);
+    const caFile = configManager.getNetworkConfig().caFile;
+    const proxyUri = proxy && !bypassed ? proxy : '';
+    const cacheKey = `${proxyUri}|${caFile || ''}`;
+
+    let dispatcher = this.dispatchers.get(cacheKey);
+    if (!dispatcher) {
+      // A custom `ca` replaces Node's defaults, so keep the system roots alongside it
+      const ca = caFile ? [...tls.rootCertificates, fs.readFileSync(caFile, 'utf-8')] : undefined;
+      dispatcher = proxyUri
+        ? new ProxyAgent({ uri: proxyUri, requestTls: ca ? { ca } : undefined, proxyTls: ca ? { ca } : undefined })
+        : new Agent({ connect: ca ? { ca } : undefined });
+      this.dispatchers.set(cacheKey, dispatcher);
+    }
+    return dispatcher;
+  }
+
+  /**
+   * Send a request, retrying with exponential backoff on 429, 5xx and dropped connections
+   */
+  async request(url: string, init: RequestInit = {}, options: HttpRequestOptions = {}): Promise<Response> {
+    const network = configManager.getNetworkConfig();
+    const timeoutMs = options.timeoutMs ?? network.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const retries = options.retries ?? network.retries ?? DEFAULT_RETRIES;
+    const dispatcher = this.getDispatcher(url);
+
+    for (let attempt = 0; ; attempt++) {
+      const { signal, headersReceived } = this.createSignal(timeoutMs, options.stream, init.signal);
+      try {
+        const response = await fetch(url, { ...init, dispatcher, signal });
+        headersReceived();
+        if (attempt >= retries || !isRetryableStatus(response.status)) {
+          return response;
+        }
+        const delay = retryDelay(attempt, response.headers.get('retry-after'));
+        logger.debug(`HTTP ${response.status} from ${url}, retrying in ${delay}ms`);
+        await response.body?.cancel().catch(() => undefined);
+        await this.sleep(delay);
+      } catch (error) {
+        headersReceived();
+        if (attempt >= retries || !isRetryableError(error)) {
+          throw error;
+        }
+        const delay = retryDelay(attempt, null);
+        logger.debug(`Request to ${url} failed (${error instanceof Error ? error.message : error}), retrying in ${delay}ms`);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Abort signal for one attempt. For streaming requests the timeout stops once
+   * headers arrive; a timeout of 0 sets none. A caller-supplied signal (e.g.
+   * client disconnect) always applies.
+   */
+  private createSignal(
+    timeoutMs: number,
+    stream?: boolean,
+    external?: RequestInit['signal']
+  ): { signal: AbortSignal; headersReceived: () => void } {
+    if (timeoutMs === 0) {
+      return { signal: external ?? new AbortController().signal, headersReceived: () => undefined };
+    }
+    if (!stream) {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      return { signal: external ? AbortSignal.any([timeout, external]) : timeout, headersReceived: () => undefined };
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      controller.abort(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+    }, timeoutMs);
+    external?.addEventListener('abort', () => controller.abort(external.reason), { once: true });
+    return { signal: controller.signal, headersReceived: () => clearTimeout(timer) };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * True when the request was aborted by its timeout rather than failing to connect
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return (error as { name?: string })?.name === 'TimeoutError';
+}
+
+function isRetryableError(error: unknown): boolean {
+  const err = error as { name?: string; cause?: { code?: string } };
+  return isTimeoutError(err) || RETRYABLE_ERROR_CODES.includes(err?.cause?.code || '');
+}
+
+/**
+ * Backoff delay for an attempt; a Retry-After header in seconds takes precedence
+ */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  const delay = Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+export function maskProxyCredentials(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (url.username || url.password) {
+      url.username = '***';
+      url.password = '';
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return proxy;
+  }
+}
+
+export const httpClient = HttpClient.getInstance();
+export { HttpClient };
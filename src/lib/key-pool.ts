@@ -0,0 +1,95 @@
+/** Name of a platform's own key when it is rotated together with its pool */
+export const DEFAULT_KEY_NAME = 'default';
+
+/** Cooldown after a rate limit without a Retry-After header */
+export const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+/** Cooldown after a plan quota (e.g. a 5-hour window) is used up */
+export const QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+
+// Error messages that mean the key's plan quota is spent rather than a short rate limit
+const QUOTA_PATTERN = /quota|usage limit|insufficient balance|使用上限|额度/i;
+
+export interface PoolKey {
+  name: string;
+  apiKey: string;
+}
+
+export interface PoolKeyStatus {
+  name: string;
+  /** ISO timestamp the key becomes usable again; undefined when it is usable now */
+  coolingUntil?: string;
+}
+
+/**
+ * How long to rest a key after a 429: the Retry-After header (seconds or an
+ * HTTP date) when given, otherwise longer for quota errors than for rate limits
+ */
+export function getCooldownMs(retryAfter: string | null | undefined, errorText = '', now = Date.now()): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+  return QUOTA_PATTERN.test(errorText) ? QUOTA_COOLDOWN_MS : RATE_LIMIT_COOLDOWN_MS;
+}
+
+/**
+ * Keys of one platform used round-robin. Keys that hit a rate limit or quota
+ * rest for a cooldown and are skipped until it ends.
+ */
+class KeyPool {
+  private cursor = 0;
+  private readonly coolingUntil = new Map<string, number>();
+
+  constructor(private readonly keys: PoolKey[], private readonly now: () => number = Date.now) {
+    if (keys.length === 0) {
+      throw new Error('Key pool needs at least one key');
+    }
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Keys to try for one request, in order: the usable keys starting with the
+   * next in turn. When every key is cooling down the list is empty, unless
+   * `force` is set, in which case it holds the key that recovers first.
+   */
+  candidates(force = false): PoolKey[] {
+    const now = this.now();
+    const start = this.cursor;
+    this.cursor = (this.cursor + 1) % this.keys.length;
+
+    const ordered = [...this.keys.slice(start), ...this.keys.slice(0, start)];
+    const usable = ordered.filter(key => (this.coolingUntil.get(key.name) ?? 0) <= now);
+    if (usable.length > 0 || !force) {
+      return usable;
+    }
+    const soonest = ordered.reduce((best, key) =>
+      (this.coolingUntil.get(key.name) ?? 0) < (this.coolingUntil.get(best.name) ?? 0) ? key : best);
+    return [soonest];
+  }
+
+  cooldown(name: string, ms: number): void {
+    this.coolingUntil.set(name, this.now() + ms);
+  }
+
+  status(): PoolKeyStatus[] {
+    const now = this.now();
+    return this.keys.map(key => {
+      const until = this.coolingUntil.get(key.name);
+      return until !== undefined && until > now
+        ? { name: key.name, coolingUntil: new Date(until).toISOString() }
+        : { name: key.name };
+    });
+  }
+}
+
+export { KeyPool };
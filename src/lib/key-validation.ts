@@ -0,0 +1,65 @@
+import type { KeyValidationResult, KeyValidationStatus } from '../types/platform.js';
+import { i18n } from './i18n.js';
+
+// Error text providers use when the key is fine but the account cannot pay for the request
+const BALANCE_PATTERN = /insufficient|balance|quota|credit|余额|欠费|额度/i;
+
+// Node/undici error codes raised for certificate problems
+const TLS_ERROR_CODES = [
+  'CERT_HAS_EXPIRED',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'ERR_TLS_CERT_ALTNAME_INVALID'
+];
+
+/**
+ * Map a probe response to a validation status.
+ * The body is consulted because some providers report an empty balance as 401/403/429.
+ */
+export function classifyProbeResponse(httpStatus: number, body: string): KeyValidationStatus {
+  if (httpStatus >= 200 && httpStatus < 300) {
+    return 'valid';
+  }
+  if (httpStatus === 402 || ([401, 403, 429].includes(httpStatus) && BALANCE_PATTERN.test(body))) {
+    return 'insufficient_balance';
+  }
+  if (httpStatus === 401 || httpStatus === 403) {
+    return 'unauthorized';
+  }
+  if (httpStatus === 429) {
+    return 'rate_limited';
+  }
+  return 'http_error';
+}
+
+/**
+ * Classify a fetch failure as a TLS or generic network error, with a readable cause
+ */
+export function classifyNetworkError(error: unknown): { status: KeyValidationStatus; message: string } {
+  const err = error as { name?: string; message?: string; cause?: { code?: string; message?: string } };
+  const code = err?.cause?.code;
+  if (code && (TLS_ERROR_CODES.includes(code) || code.startsWith('ERR_TLS') || code.startsWith('ERR_SSL'))) {
+    return { status: 'tls_error', message: `${code}: ${err.cause?.message || err.message}` };
+  }
+  if (err?.name === 'TimeoutError') {
+    return { status: 'network_error', message: 'request timed out' };
+  }
+  const detail = err?.cause?.message || err?.message || String(error);
+  return { status: 'network_error', message: code ? `${code}: ${detail}` : detail };
+}
+
+/**
+ * Localized one-line explanation of a validation result, with the fix where there is one
+ */
+export function describeKeyValidation(result: KeyValidationResult): string {
+  const params: Record<string, string> = {
+    status: result.httpStatus ? String(result.httpStatus) : '',
+    plan: result.plan,
+    suggested: result.suggestedPlan || '',
+    message: result.message || ''
+  };
+  return i18n.t(`key_validation.${result.status}`, params);
+}
@@ -24,6 +24,8 @@ export interface ErrorContext {
 class Logger {
   private static instance: Logger;
   private verbose: boolean = false;
+  // Send info, success, warning and debug output to stderr
+  private stderr: boolean = false;
 
   private constructor() {}
 
@@ -38,22 +40,44 @@ class Logger {
     this.verbose = verbose;
   }
 
+  /**
+   * Run a command whose stdout is read by another program (e.g. a key or
+   * export statements), keeping every log message on stderr meanwhile
+   */
+  async withStderr<T>(run: () => Promise<T>): Promise<T> {
+    const previous = this.stderr;
+    this.stderr = true;
+    try {
+      return await run();
+    } finally {
+      this.stderr = previous;
+    }
+  }
+
+  private write(text: string): void {
+    if (this.stderr) {
+      console.error(text);
+    } else {
+      console.log(text);
+    }
+  }
+
   debug(message: string): void {
     if (this.verbose) {
-      console.log(chalk.gray(`[DEBUG] ${message}`));
+      this.write(chalk.gray(`[DEBUG] ${message}`));
     }
   }
 
   info(message: string): void {
-    console.log(chalk.blue(`[INFO] ${message}`));
+    this.write(chalk.blue(`[INFO] ${message}`));
   }
 
   success(message: string): void {
-    console.log(chalk.green(`[SUCCESS] ${message}`));
+    this.write(chalk.green(`[SUCCESS] ${message}`));
   }
 
   warning(message: string): void {
-    console.log(chalk.yellow(`[WARNING] ${message}`));
+    this.write(chalk.yellow(`[WARNING] ${message}`));
   }
 
   error(message: string): void {
@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import { AppError, ErrorCode, ValidationError } from './errors.js';
+import { logger } from './logger.js';
+
+/** Environment variable scripts and CI jobs can set instead of typing the password */
+export const MASTER_PASSWORD_ENV = 'CPA_MASTER_PASSWORD';
+
+export type MasterPasswordSource = 'stdin' | 'file' | 'argument' | 'env';
+
+export interface MasterPasswordOptions {
+  /** Read the password from stdin (`--password-stdin`) */
+  passwordStdin?: boolean;
+  /** Read the password from the first line of a file (`--password-file`) */
+  passwordFile?: string;
+  /** Password given on the command line; deprecated, it shows up in shell history and `ps` */
+  password?: string;
+}
+
+export interface ProvidedMasterPassword {
+  password: string;
+  source: MasterPasswordSource;
+}
+
+// A password piped in by `echo` or kept in a file usually ends with a newline
+function stripTrailingNewline(value: string): string {
+  return value.replace(/\r?\n$/, '');
+}
+
+/**
+ * Read a password file. Warns when other users can read it, like ssh does for
+ * private keys, but still uses it.
+ */
+export function readPasswordFile(filePath: string): string {
+  let content: string;
+  try {
+    if (process.platform !== 'win32' && (fs.statSync(filePath).mode & 0o077) !== 0) {
+      logger.warning(`Password file ${filePath} is readable by other users; restrict it with chmod 600`);
+    }
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new AppError(ErrorCode.FILE_READ_FAILED, `Cannot read password file: ${(error as Error).message}`, {
+      context: { filePath }
+    });
+  }
+  return content.split(/\r?\n/)[0];
+}
+
+/**
+ * Read everything piped to stdin, minus one trailing newline
+ */
+export function readPasswordStdin(stream: NodeJS.ReadableStream = process.stdin): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    stream.setEncoding('utf-8');
+    stream.on('data', (chunk: string) => { data += chunk; });
+    stream.once('end', () => resolve(stripTrailingNewline(data)));
+    stream.once('error', reject);
+  });
+}
+
+/**
+ * Master password given without a prompt. The first of these wins:
+ * `--password-stdin` or `--password-file` (only one of them may be given),
+ * the deprecated positional password, then `CPA_MASTER_PASSWORD`.
+ * Undefined when none of them is set.
+ */
+export async function readProvidedMasterPassword(
+  options: MasterPasswordOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ProvidedMasterPassword | undefined> {
+  if (options.passwordStdin && options.passwordFile) {
+    throw new ValidationError(ErrorCode.INVALID_INPUT, '--password-stdin and --password-file cannot be used together');
+  }
+  if (options.passwordStdin) {
+    if (process.stdin.isTTY) {
+      throw new ValidationError(ErrorCode.INVALID_INPUT, '--password-stdin needs the password piped to stdin', {
+        suggestedActions: [`printf '%s' "$PASSWORD" | cpa ... --password-stdin`]
+      });
+    }
+    return { password: await readPasswordStdin(), source: 'stdin' };
+  }
+  if (options.passwordFile) {
+    return { password: readPasswordFile(options.passwordFile), source: 'file' };
+  }
+  if (options.password) {
+    return { password: options.password, source: 'argument' };
+  }
+  const fromEnv = env[MASTER_PASSWORD_ENV];
+  if (fromEnv) {
+    return { password: fromEnv, source: 'env' };
+  }
+  return undefined;
+}
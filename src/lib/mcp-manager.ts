@@ -2,6 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import type { McpServiceInfo, PlatformId } from '../types/tools.js';
+import { providerRegistry } from './provider-registry.js';
 import { logger } from './logger.js';
 
 interface McpService {
@@ -13,46 +14,6 @@ interface McpService {
   path: string;
 }
 
-// Built-in MCP services for GLM
-const GLM_MCP_SERVICES: McpService[] = [
-  {
-    id: 'glm-usage-query',
-    name: 'GLM Usage Query',
-    description: 'Query GLM coding plan usage statistics',
-    category: 'glm',
-    platform: 'glm',
-    path: path.join(os.homedir(), '.claude', 'skills', 'glm-plan-usage')
-  },
-  {
-    id: 'glm-case-feedback',
-    name: 'GLM Case Feedback',
-    description: 'Submit feedback for GLM coding plan issues',
-    category: 'glm',
-    platform: 'glm',
-    path: path.join(os.homedir(), '.claude', 'skills', 'glm-plan-bug')
-  }
-];
-
-// MCP services for MiniMax
-const MINIMAX_MCP_SERVICES: McpService[] = [
-  {
-    id: 'minimax-usage-query',
-    name: 'MiniMax Usage Query',
-    description: 'Query MiniMax coding plan usage statistics',
-    category: 'minimax',
-    platform: 'minimax',
-    path: path.join(os.homedir(), '.claude', 'skills', 'minimax-plan-usage')
-  },
-  {
-    id: 'minimax-case-feedback',
-    name: 'MiniMax Case Feedback',
-    description: 'Submit feedback for MiniMax coding plan issues',
-    category: 'minimax',
-    platform: 'minimax',
-    path: path.join(os.homedir(), '.claude', 'skills', 'minimax-plan-feedback')
-  }
-];
-
 // Common MCP services (platform-agnostic)
 const COMMON_MCP_SERVICES: McpService[] = [
   {
@@ -78,6 +39,22 @@ const COMMON_MCP_SERVICES: McpService[] = [
   }
 ];
 
+// Skills declared in the `mcp` section of each provider definition
+function getPlatformServices(): McpService[] {
+  return providerRegistry.getDefinitions().flatMap(definition => (definition.mcp || []).map(service => ({
+    id: service.id,
+    name: service.name,
+    description: service.description,
+    category: definition.id,
+    platform: definition.id,
+    path: path.join(os.homedir(), '.claude', 'skills', service.skill)
+  })));
+}
+
+function getServices(): McpService[] {
+  return [...getPlatformServices(), ...COMMON_MCP_SERVICES];
+}
+
 class McpManager {
   private static instance: McpManager;
   private servicesDir: string;
@@ -94,11 +71,7 @@ class McpManager {
   }
 
   getAllServices(platformFilter?: PlatformId): McpServiceInfo[] {
-    const allServices = [
-      ...GLM_MCP_SERVICES,
-      ...MINIMAX_MCP_SERVICES,
-      ...COMMON_MCP_SERVICES
-    ];
+    const allServices = getServices();
 
     logger.debug(`Getting MCP services, filter: ${platformFilter ?? 'none'}, total services: ${allServices.length}`);
 
@@ -126,7 +99,7 @@ class McpManager {
   }
 
   isServiceInstalled(serviceId: string): boolean {
-    const allServices = [...GLM_MCP_SERVICES, ...MINIMAX_MCP_SERVICES, ...COMMON_MCP_SERVICES];
+    const allServices = getServices();
     const service = allServices.find(s => s.id === serviceId);
 
     if (!service) {
@@ -140,7 +113,7 @@ class McpManager {
   }
 
   async installService(serviceId: string): Promise<boolean> {
-    const allServices = [...GLM_MCP_SERVICES, ...MINIMAX_MCP_SERVICES, ...COMMON_MCP_SERVICES];
+    const allServices = getServices();
     const service = allServices.find(s => s.id === serviceId);
 
     if (!service) {
@@ -159,29 +132,27 @@ class McpManager {
         fs.mkdirSync(service.path, { recursive: true });
       }
 
-      // For skills, create a basic plugin.json
-      if (service.category === 'glm' || service.category === 'common') {
-        const pluginPath = path.join(os.homedir(), '.claude', 'skills', service.id);
-        if (!fs.existsSync(pluginPath)) {
-          logger.debug(`Creating MCP plugin directory: ${pluginPath}`);
-          fs.mkdirSync(pluginPath, { recursive: true });
-        }
-
-        const pluginJson = path.join(pluginPath, '.claude-plugin', 'plugin.json');
-        if (!fs.existsSync(pluginJson)) {
-          logger.debug(`Creating MCP plugin config: ${pluginJson}`);
-          fs.mkdirSync(path.dirname(pluginJson), { recursive: true });
-          fs.writeFileSync(
-            pluginJson,
-            JSON.stringify({
-              name: service.name,
-              description: service.description,
-              version: '1.0.0',
-              author: 'Unified Coding Helper',
-              commands: []
-            }, null, 2)
-          );
-        }
+      // Register the service as a Claude Code plugin
+      const pluginPath = path.join(os.homedir(), '.claude', 'skills', service.id);
+      if (!fs.existsSync(pluginPath)) {
+        logger.debug(`Creating MCP plugin directory: ${pluginPath}`);
+        fs.mkdirSync(pluginPath, { recursive: true });
+      }
+
+      const pluginJson = path.join(pluginPath, '.claude-plugin', 'plugin.json');
+      if (!fs.existsSync(pluginJson)) {
+        logger.debug(`Creating MCP plugin config: ${pluginJson}`);
+        fs.mkdirSync(path.dirname(pluginJson), { recursive: true });
+        fs.writeFileSync(
+          pluginJson,
+          JSON.stringify({
+            name: service.name,
+            description: service.description,
+            version: '1.0.0',
+            author: 'Unified Coding Helper',
+            commands: []
+          }, null, 2)
+        );
       }
 
       logger.success(`${service.name} installed successfully`);
@@ -195,7 +166,7 @@ class McpManager {
   }
 
   async uninstallService(serviceId: string): Promise<boolean> {
-    const allServices = [...GLM_MCP_SERVICES, ...MINIMAX_MCP_SERVICES, ...COMMON_MCP_SERVICES];
+    const allServices = getServices();
     const service = allServices.find(s => s.id === serviceId);
 
     if (!service) {
@@ -236,9 +207,8 @@ class McpManager {
   }
 
   async installAllBuiltInServices(platform: PlatformId): Promise<boolean> {
-    const glmServices = [...GLM_MCP_SERVICES, ...COMMON_MCP_SERVICES];
-    const minimaxServices = [...MINIMAX_MCP_SERVICES, ...COMMON_MCP_SERVICES];
-    const services = platform === 'glm' ? glmServices : minimaxServices;
+    const platformServices = getPlatformServices().filter(s => s.platform === platform);
+    const services = [...platformServices, ...COMMON_MCP_SERVICES];
 
     let allSuccess = true;
     for (const service of services) {
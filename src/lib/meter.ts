@@ -0,0 +1,336 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PlatformId, BudgetConfig } from '../types/config.js';
+import type { ProviderProtocol } from '../types/provider.js';
+import { httpClient } from './http-client.js';
+import { usageStore, usageDay, type BudgetStatus } from './usage-store.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_METER_PORT = 8788;
+export const METER_HOST = '127.0.0.1';
+
+const PROTOCOLS: ProviderProtocol[] = ['anthropic', 'openai'];
+
+// Headers that describe the incoming connection; credentials are forwarded as sent
+const DROPPED_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'accept-encoding', 'x-cpa-tool', 'x-cpa-project'];
+
+// fetch decodes the upstream body, so its encoding and length no longer apply
+const DROPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive'];
+
+export interface MeterOptions {
+  port?: number;
+  platform: PlatformId;
+  /** Upstream base URL per protocol, e.g. the platform's Anthropic and OpenAI endpoints */
+  baseUrls: Partial<Record<ProviderProtocol, string>>;
+  /** Project recorded when a request does not send an x-cpa-project header */
+  project?: string;
+  budget?: BudgetConfig;
+  /** Wait for upstream response headers, i.e. the whole answer of a non-streaming call; 0 means no limit */
+  timeoutMs?: number;
+}
+
+export interface MeteredUsage {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+/**
+ * Base URL a tool uses to reach the platform through the meter
+ */
+export function getMeterBaseUrl(port: number, toolId: string, protocol: ProviderProtocol): string {
+  return `http://${METER_HOST}:${port}/${toolId}/${protocol}`;
+}
+
+/**
+ * Collects token usage from an Anthropic or OpenAI response body as it streams
+ * by. Server-sent events are parsed per event; other bodies are parsed as JSON
+ * once complete.
+ */
+export class UsageParser {
+  private readonly decoder = new TextDecoder();
+  private buffer = '';
+  private readonly usage: MeteredUsage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+  constructor(private readonly eventStream: boolean) {}
+
+  push(chunk: Uint8Array): void {
+    this.buffer += this.decoder.decode(chunk, { stream: true });
+    if (!this.eventStream) {
+      return;
+    }
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.parseLine(line);
+    }
+  }
+
+  finish(): MeteredUsage {
+    this.buffer += this.decoder.decode();
+    if (this.eventStream) {
+      this.parseLine(this.buffer);
+    } else {
+      this.parseJson(this.buffer);
+    }
+    this.buffer = '';
+    return { ...this.usage };
+  }
+
+  private parseLine(line: string): void {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('data:')) {
+      this.parseJson(trimmed.slice(5).trim());
+    }
+  }
+
+  private parseJson(text: string): void {
+    if (!text || text === '[DONE]') {
+      return;
+    }
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return;
+    }
+    // Anthropic's message_start event nests the message; other payloads carry fields at the top level
+    const payload = data.message && typeof data.message === 'object' ? data.message : data;
+    if (typeof payload.model === 'string' && payload.model) {
+      this.usage.model = payload.model;
+    }
+    if (payload.usage && typeof payload.usage === 'object') {
+      this.applyUsage(payload.usage);
+    }
+  }
+
+  // Streamed counts are cumulative, so the largest value seen wins
+  private applyUsage(usage: Record<string, any>): void {
+    const take = (current: number, ...values: unknown[]): number => {
+      const value = values.find(v => typeof v === 'number');
+      return typeof value === 'number' ? Math.max(current, value) : current;
+    };
+    this.usage.inputTokens = take(this.usage.inputTokens, usage.input_tokens, usage.prompt_tokens);
+    this.usage.outputTokens = take(this.usage.outputTokens, usage.output_tokens, usage.completion_tokens);
+    this.usage.cacheReadTokens = take(this.usage.cacheReadTokens, usage.cache_read_input_tokens, usage.prompt_tokens_details?.cached_tokens);
+    this.usage.cacheWriteTokens = take(this.usage.cacheWriteTokens, usage.cache_creation_input_tokens);
+  }
+}
+
+/**
+ * Local proxy that forwards tool requests to a platform and records the token
+ * usage of every response. Tools address it as /<tool>/<protocol>/..., e.g.
+ * /claude-code/anthropic/v1/messages or /opencode/openai/chat/completions.
+ */
+class Meter {
+  private server?: http.Server;
+  // Budget scopes already warned about, keyed by day so warnings repeat daily
+  private readonly warned = new Set<string>();
+
+  constructor(private readonly options: MeterOptions) {}
+
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Meter error: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          this.sendError(res, 'anthropic', 500, 'api_error', 'Internal meter error');
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? DEFAULT_METER_PORT, METER_HOST, () => resolve());
+    });
+    return (server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private route(req: http.IncomingMessage): { tool: string; protocol: ProviderProtocol; path: string } | undefined {
+    const url = req.url || '/';
+    const queryIndex = url.indexOf('?');
+    const query = queryIndex >= 0 ? url.slice(queryIndex) : '';
+    const segments = (queryIndex >= 0 ? url.slice(0, queryIndex) : url).split('/').filter(Boolean);
+
+    // /<protocol>/... leaves the tool to the x-cpa-tool header
+    const header = req.headers['x-cpa-tool'];
+    const [tool, protocol, rest] = PROTOCOLS.includes(segments[0] as ProviderProtocol)
+      ? [typeof header === 'string' && header ? header : 'unknown', segments[0], segments.slice(1)]
+      : [segments[0], segments[1], segments.slice(2)];
+
+    if (!tool || !PROTOCOLS.includes(protocol as ProviderProtocol)) {
+      return undefined;
+    }
+    return { tool, protocol: protocol as ProviderProtocol, path: '/' + rest.join('/') + query };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method === 'GET' && req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', platform: this.options.platform }));
+      return;
+    }
+
+    const route = this.route(req);
+    if (!route) {
+      this.sendError(res, 'anthropic', 404, 'not_found_error', 'Use /<tool>/anthropic/... or /<tool>/openai/...');
+      return;
+    }
+    const baseUrl = this.options.baseUrls[route.protocol];
+    if (!baseUrl) {
+      this.sendError(res, route.protocol, 404, 'not_found_error', `${this.options.platform} has no ${route.protocol}-compatible endpoint`);
+      return;
+    }
+
+    if (this.checkBudget(route.tool)) {
+      this.sendError(res, route.protocol, 429, route.protocol === 'anthropic' ? 'rate_limit_error' : 'insufficient_quota',
+        `Daily token budget exceeded for ${route.tool}; see 'cpa usage budget'`);
+      return;
+    }
+
+    const body = await this.readBody(req);
+    let payload: Record<string, any> | undefined;
+    try {
+      payload = body.length > 0 ? JSON.parse(body.toString('utf-8')) : undefined;
+    } catch {
+      payload = undefined;
+    }
+    const stream = payload?.stream === true;
+    // OpenAI-style streams only report usage when asked to
+    if (payload && stream && route.protocol === 'openai' && !payload.stream_options) {
+      payload.stream_options = { include_usage: true };
+    }
+
+    const aborted = new AbortController();
+    res.on('close', () => aborted.abort());
+    const started = Date.now();
+
+    let response;
+    try {
+      response = await httpClient.request(baseUrl.replace(/\/$/, '') + route.path, {
+        method: req.method,
+        headers: this.buildHeaders(req),
+        body: payload ? JSON.stringify(payload) : body.length > 0 ? body : undefined,
+        signal: aborted.signal
+      }, { retries: 0, stream: true, timeoutMs: this.options.timeoutMs });
+    } catch (error) {
+      if (!aborted.signal.aborted) {
+        this.sendError(res, route.protocol, 502, 'api_error', `${this.options.platform} unreachable: ${error instanceof Error ? error.message : error}`);
+      }
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!DROPPED_RESPONSE_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    });
+    res.writeHead(response.status, headers);
+    res.flushHeaders();
+
+    const parser = new UsageParser((response.headers.get('content-type') || '').includes('text/event-stream'));
+    if (response.body) {
+      try {
+        for await (const chunk of response.body) {
+          res.write(chunk);
+          parser.push(chunk);
+        }
+      } catch (error) {
+        logger.debug(`Upstream stream ended early: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    res.end();
+
+    if (!response.ok) {
+      return;
+    }
+    const usage = parser.finish();
+    const project = req.headers['x-cpa-project'];
+    usageStore.append({
+      timestamp: new Date(started).toISOString(),
+      tool: route.tool,
+      platform: this.options.platform,
+      protocol: route.protocol,
+      model: usage.model || (typeof payload?.model === 'string' ? payload.model : 'unknown'),
+      project: typeof project === 'string' && project ? project : this.options.project,
+      status: response.status,
+      stream,
+      durationMs: Date.now() - started,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadTokens || undefined,
+      cacheWriteTokens: usage.cacheWriteTokens || undefined
+    });
+    logger.info(`${route.tool} ${usage.model || payload?.model || ''}: ${usage.inputTokens} in / ${usage.outputTokens} out (${Date.now() - started}ms)`);
+  }
+
+  /**
+   * Warn once per day and scope about spent budgets; returns true when the
+   * request should be blocked
+   */
+  private checkBudget(tool: string): boolean {
+    const budget = this.options.budget;
+    if (!budget) {
+      return false;
+    }
+    const exceeded = usageStore.getBudgetStatus(budget, tool).filter(status => status.exceeded);
+    for (const status of exceeded) {
+      const key = `${usageDay()}:${status.scope}`;
+      if (!this.warned.has(key)) {
+        this.warned.add(key);
+        logger.warning(describeBudget(status));
+      }
+    }
+    return exceeded.length > 0 && budget.action === 'block';
+  }
+
+  private buildHeaders(req: http.IncomingMessage): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined && !DROPPED_REQUEST_HEADERS.includes(name)) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+    return headers;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  // Errors use the envelope of the protocol the tool speaks
+  private sendError(res: http.ServerResponse, protocol: ProviderProtocol, status: number, type: string, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(protocol === 'anthropic'
+      ? { type: 'error', error: { type, message } }
+      : { error: { message, type, code: type } }));
+  }
+}
+
+function describeBudget(status: BudgetStatus): string {
+  const scope = status.scope === 'all' ? 'all tools' : status.scope;
+  return `Daily token budget for ${scope} exceeded: ${status.used.toLocaleString('en-US')} of ${status.limit.toLocaleString('en-US')} tokens`;
+}
+
+export { Meter };
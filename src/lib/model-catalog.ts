@@ -0,0 +1,155 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import type { PlatformId, PlanType, ModelTierMap } from '../types/config.js';
+import type { ModelMetadata } from '../types/provider.js';
+import { platformManager } from './platform-manager.js';
+import { logger } from './logger.js';
+
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+const MODEL_CATALOG_FILE = path.join(CPA_STATE_DIR, 'model-catalog.json');
+
+export type ModelCatalogSource = 'live' | 'cache' | 'builtin';
+
+export interface ModelCatalogEntry {
+  platform: PlatformId;
+  models: string[];
+  source: ModelCatalogSource;
+  /** ISO timestamp of the last successful fetch (live and cache entries only) */
+  fetchedAt?: string;
+  /** Why a refresh fell back to cached or built-in data */
+  error?: string;
+}
+
+interface CachedModels {
+  models: string[];
+  fetchedAt: string;
+}
+
+type ModelCatalogCache = Record<PlatformId, CachedModels>;
+
+export interface ModelCatalogMatch {
+  platform: PlatformId;
+  model: string;
+  /** Undefined when the model is listed but the provider has no metadata for it */
+  info?: ModelMetadata;
+}
+
+/**
+ * Model lists per platform: the last live listing cached in the state dir,
+ * falling back to the provider definition's built-in list.
+ */
+class ModelCatalog {
+  private static instance: ModelCatalog;
+
+  private constructor() {}
+
+  static getInstance(): ModelCatalog {
+    if (!ModelCatalog.instance) {
+      ModelCatalog.instance = new ModelCatalog();
+    }
+    return ModelCatalog.instance;
+  }
+
+  private readCache(): ModelCatalogCache {
+    try {
+      if (!fs.existsSync(MODEL_CATALOG_FILE)) {
+        return {};
+      }
+      const content = fs.readFileSync(MODEL_CATALOG_FILE, 'utf-8');
+      return JSON.parse(content) as ModelCatalogCache;
+    } catch {
+      return {};
+    }
+  }
+
+  private writeCache(cache: ModelCatalogCache): void {
+    if (!fs.existsSync(CPA_STATE_DIR)) {
+      fs.mkdirSync(CPA_STATE_DIR, { recursive: true });
+    }
+    fs.writeFileSync(MODEL_CATALOG_FILE, JSON.stringify(cache, null, 2));
+  }
+
+  /**
+   * Current catalog entry without touching the network
+   */
+  getEntry(platformId: PlatformId): ModelCatalogEntry {
+    const cached = this.readCache()[platformId];
+    if (cached && Array.isArray(cached.models) && cached.models.length > 0) {
+      return { platform: platformId, models: cached.models, source: 'cache', fetchedAt: cached.fetchedAt };
+    }
+    return {
+      platform: platformId,
+      models: platformManager.getPlatform(platformId)?.models || [],
+      source: 'builtin'
+    };
+  }
+
+  getModels(platformId: PlatformId): string[] {
+    return this.getEntry(platformId).models;
+  }
+
+  isKnownModel(platformId: PlatformId, model: string): boolean {
+    return this.getModels(platformId).includes(model);
+  }
+
+  /**
+   * Models in a tier map that the platform's catalog does not list
+   */
+  getUnknownModels(platformId: PlatformId, tiers: ModelTierMap): string[] {
+    const models = this.getModels(platformId);
+    return Object.values(tiers).filter((model): model is string => !!model && !models.includes(model));
+  }
+
+  getModelInfo(platformId: PlatformId, model: string): ModelMetadata | undefined {
+    return platformManager.getPlatform(platformId)?.getModelInfo(model);
+  }
+
+  /**
+   * Every platform that lists or describes a model id
+   */
+  findModel(model: string): ModelCatalogMatch[] {
+    const matches: ModelCatalogMatch[] = [];
+    for (const platform of platformManager.getAllPlatforms()) {
+      const info = platform.getModelInfo(model);
+      if (info || this.isKnownModel(platform.id, model)) {
+        matches.push({ platform: platform.id, model, info });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Query the platform's model listing endpoint and cache the result.
+   * Falls back to the cached or built-in list when the request fails.
+   */
+  async refresh(platformId: PlatformId, plan: PlanType, apiKey: string): Promise<ModelCatalogEntry> {
+    const platform = platformManager.getPlatform(platformId);
+    if (!platform) {
+      return { platform: platformId, models: [], source: 'builtin', error: `Platform not found: ${platformId}` };
+    }
+
+    try {
+      const models = await platform.fetchModels(plan, apiKey);
+      if (!models) {
+        return { ...this.getEntry(platformId), error: 'Provider does not publish a model listing endpoint' };
+      }
+      if (models.length === 0) {
+        return { ...this.getEntry(platformId), error: 'Model listing endpoint returned no models' };
+      }
+
+      const fetchedAt = new Date().toISOString();
+      const cache = this.readCache();
+      cache[platformId] = { models, fetchedAt };
+      this.writeCache(cache);
+      return { platform: platformId, models, source: 'live', fetchedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug(`Model listing failed for ${platformId}: ${message}`);
+      return { ...this.getEntry(platformId), error: message };
+    }
+  }
+}
+
+export const modelCatalog = ModelCatalog.getInstance();
+export { ModelCatalog };
@@ -1,153 +1,271 @@
-import type { Platform, PlanType, ToolConfig } from '../types/platform.js';
-import type { PlatformConfig, PlatformId } from '../types/config.js';
+import type { Platform, PlanType, ToolConfig, PlatformInfo, KeyValidationResult, UsageReport } from '../types/platform.js';
+import type { PlatformId, ModelTier, ModelTierMap } from '../types/config.js';
+import type { ModelMetadata, ProviderDefinition, ProviderProtocol, ProviderRegion } from '../types/provider.js';
+import { providerRegistry, renderTemplate } from './provider-registry.js';
+import { classifyProbeResponse, classifyNetworkError } from './key-validation.js';
+import { httpClient } from './http-client.js';
+import { mapUsageResponse } from './usage-providers.js';
 import { logger } from './logger.js';
 
-// GLM Platform Configuration
-const GLM_CONFIG = {
-  id: 'glm' as const,
-  name: 'GLM (Z.AI)',
-  globalUrl: 'https://open.bigmodel.cn/api/paas/v4/',
-  chinaUrl: 'https://open.bigmodel.cn/api/paas/v4/',
-  models: ['glm-coding-plan', 'glm-coding-plan-china'],
-  defaultModel: 'glm-coding-plan',
-  apiDocsUrl: 'https://open.bigmodel.cn/dev/api'
-};
-
-// MiniMax Platform Configuration
-const MINIMAX_CONFIG = {
-  id: 'minimax' as const,
-  name: 'MiniMax',
-  globalUrl: 'https://api.minimax.io/anthropic',
-  chinaUrl: 'https://api.minimaxi.com/anthropic',
-  globalOpenAiUrl: 'https://api.minimax.io/v1',
-  chinaOpenAiUrl: 'https://api.minimaxi.com/v1',
-  models: [
-    'MiniMax-M2.5',
-    'MiniMax-M2.5-highspeed',
-    'MiniMax-M2.1',
-    'MiniMax-M2.1-highspeed'
-  ],
-  defaultModel: 'MiniMax-M2.5',
-  apiDocsUrl: 'https://platform.minimax.io/docs/coding-plan/'
-};
-
-class GLMPlatform implements Platform {
-  id = GLM_CONFIG.id;
-  name = GLM_CONFIG.name;
-  globalUrl = GLM_CONFIG.globalUrl;
-  chinaUrl = GLM_CONFIG.chinaUrl;
-  models = GLM_CONFIG.models;
-  defaultModel = GLM_CONFIG.defaultModel;
+export const MODEL_TIERS: ModelTier[] = ['opus', 'sonnet', 'haiku', 'subagent'];
+
+function toOrigin(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Platform backed by a declarative provider definition
+ */
+class ProviderPlatform implements Platform {
+  id: PlatformId;
+  name: string;
+  description: string;
+  globalUrl: string;
+  chinaUrl: string;
+  protocols: ProviderProtocol[];
+  models: string[];
+  defaultModel: string;
+
+  constructor(private readonly definition: ProviderDefinition) {
+    this.id = definition.id;
+    this.name = definition.name;
+    this.description = definition.description || definition.name;
+    this.protocols = definition.protocols;
+    this.globalUrl = this.getPrimaryEndpoint('global');
+    this.chinaUrl = this.getPrimaryEndpoint('china');
+    this.models = definition.models;
+    this.defaultModel = definition.defaultModel;
+  }
+
+  getDefinition(): ProviderDefinition {
+    return this.definition;
+  }
 
   getApiDocsUrl(): string {
-    return GLM_CONFIG.apiDocsUrl;
+    return this.definition.apiDocsUrl;
   }
 
-  async validateApiKey(key: string): Promise<boolean> {
-    try {
-      // Basic format validation
-      if (!key || key.length < 10) {
-        logger.debug(`API key validation failed for ${this.name}: key too short or empty`);
-        return false;
-      }
-      // Actual API validation call to /models endpoint
-      const response = await fetch(`${this.globalUrl}models`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${key}`,
-          'Content-Type': 'application/json'
-        },
-        signal: AbortSignal.timeout(10000) // 10 second timeout
-      });
-      if (!response.ok) {
-        logger.debug(`API key validation failed for ${this.name}: HTTP ${response.status} - ${response.statusText}`);
-      }
-      return response.ok;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.debug(`API key validation error for ${this.name}: ${errorMessage}`);
-      return false;
+  /**
+   * Region endpoints for a plan; falls back to the global region when the plan is not defined
+   */
+  getRegion(plan: PlanType): ProviderRegion {
+    return this.definition.regions[plan] || this.definition.regions.global!;
+  }
+
+  supportsProtocol(protocol: ProviderProtocol): boolean {
+    return this.protocols.includes(protocol);
+  }
+
+  /**
+   * Base URL for a protocol in the given region, or undefined when the provider does not speak it
+   */
+  getEndpoint(plan: PlanType, protocol: ProviderProtocol): string | undefined {
+    if (!this.supportsProtocol(protocol)) {
+      return undefined;
+    }
+    return this.getRegion(plan)[protocol] || this.definition.regions.global?.[protocol];
+  }
+
+  // Endpoint of the first declared protocol, used for the legacy globalUrl/chinaUrl fields
+  private getPrimaryEndpoint(plan: PlanType): string {
+    return this.getEndpoint(plan, this.protocols[0]) || '';
+  }
+
+  /**
+   * Fill every tier from the configured map, falling back to the default model
+   */
+  resolveModelTiers(tiers: ModelTierMap = {}): Record<ModelTier, string> {
+    const resolved = {} as Record<ModelTier, string>;
+    for (const tier of MODEL_TIERS) {
+      resolved[tier] = tiers[tier] || this.defaultModel;
     }
+    return resolved;
+  }
+
+  getModelInfo(model: string): ModelMetadata | undefined {
+    return this.definition.modelInfo?.[model];
   }
 
-  getToolConfig(plan: PlanType, apiKey: string, endpoint: string): ToolConfig {
-    const baseUrl = endpoint || (plan === 'china' ? this.chinaUrl : this.globalUrl);
+  /**
+   * Template variables for env and validation templates.
+   * A configured endpoint override replaces the Anthropic base URL only, since that is
+   * the endpoint users historically set; `baseUrl` is the endpoint for the requested protocol.
+   * Local services such as the bridge pass `baseUrls` to replace the URL of each protocol.
+   */
+  private getTemplateVars(
+    plan: PlanType,
+    apiKey: string,
+    protocol: ProviderProtocol,
+    endpointOverride?: string,
+    tiers?: ModelTierMap,
+    baseUrls?: Partial<Record<ProviderProtocol, string>>
+  ): Record<string, string | undefined> {
+    const anthropicBaseUrl = baseUrls?.anthropic
+      || (this.supportsProtocol('anthropic') && endpointOverride)
+      || this.getEndpoint(plan, 'anthropic');
+    const openAiBaseUrl = baseUrls?.openai || this.getEndpoint(plan, 'openai');
+    const models = this.resolveModelTiers(tiers);
     return {
-      baseUrl,
+      baseUrl: protocol === 'anthropic' ? anthropicBaseUrl : openAiBaseUrl,
+      anthropicBaseUrl,
+      openAiBaseUrl,
+      anthropicOrigin: toOrigin(anthropicBaseUrl),
+      openAiOrigin: toOrigin(openAiBaseUrl),
       apiKey,
-      model: this.defaultModel,
-      env: {
-        ANTHROPIC_BASE_URL: baseUrl,
-        ANTHROPIC_AUTH_TOKEN: apiKey,
-        ANTHROPIC_MODEL: this.defaultModel,
-        ANTHROPIC_DEFAULT_SONNET_MODEL: this.defaultModel,
-        ANTHROPIC_DEFAULT_OPUS_MODEL: this.defaultModel,
-        ANTHROPIC_DEFAULT_HAIKU_MODEL: this.defaultModel
-      }
+      // The sonnet tier is the main model tools start with
+      model: models.sonnet,
+      opusModel: models.opus,
+      sonnetModel: models.sonnet,
+      haikuModel: models.haiku,
+      subagentModel: models.subagent
     };
   }
-}
 
-class MiniMaxPlatform implements Platform {
-  id = MINIMAX_CONFIG.id;
-  name = MINIMAX_CONFIG.name;
-  globalUrl = MINIMAX_CONFIG.globalUrl;
-  chinaUrl = MINIMAX_CONFIG.chinaUrl;
-  models = MINIMAX_CONFIG.models;
-  defaultModel = MINIMAX_CONFIG.defaultModel;
+  /**
+   * Probe the provider with an API key in the given region.
+   * A key rejected by one region is retried against the other to detect region mismatches.
+   */
+  async validateApiKey(key: string, plan: PlanType = 'global'): Promise<KeyValidationResult> {
+    // Basic format validation
+    if (!key || key.length < 10) {
+      logger.debug(`API key validation failed for ${this.name}: key too short or empty`);
+      return { status: 'invalid_format', valid: false, plan, message: 'key too short or empty' };
+    }
 
-  getApiDocsUrl(): string {
-    return MINIMAX_CONFIG.apiDocsUrl;
+    const result = await this.probeKey(key, plan);
+    if (result.status === 'unauthorized') {
+      const otherPlan: PlanType = plan === 'global' ? 'china' : 'global';
+      if (this.getPrimaryEndpoint(otherPlan) !== this.getPrimaryEndpoint(plan)) {
+        const other = await this.probeKey(key, otherPlan);
+        if (other.valid) {
+          return { ...result, status: 'region_mismatch', suggestedPlan: otherPlan };
+        }
+      }
+    }
+    return result;
   }
 
-  async validateApiKey(key: string): Promise<boolean> {
+  private async probeKey(key: string, plan: PlanType): Promise<KeyValidationResult> {
+    const probe = this.definition.validation;
+    const vars = this.getTemplateVars(plan, key, this.protocols[0]);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    for (const [name, value] of Object.entries(probe.headers || {})) {
+      headers[name] = renderTemplate(value, vars);
+    }
+
+    const started = Date.now();
     try {
-      // Basic format validation
-      if (!key || key.length < 10) {
-        logger.debug(`API key validation failed for ${this.name}: key too short or empty`);
-        return false;
-      }
-      // Actual API validation call to /models endpoint
-      const response = await fetch(`${this.globalUrl}models`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${key}`,
-          'Content-Type': 'application/json'
-        },
-        signal: AbortSignal.timeout(10000) // 10 second timeout
+      const response = await httpClient.request(renderTemplate(probe.url, vars), {
+        method: probe.method || 'GET',
+        headers
       });
-      if (!response.ok) {
+      const latencyMs = Date.now() - started;
+      const body = response.ok ? '' : await response.text().catch(() => '');
+      const status = classifyProbeResponse(response.status, body);
+      if (status !== 'valid') {
         logger.debug(`API key validation failed for ${this.name}: HTTP ${response.status} - ${response.statusText}`);
       }
-      return response.ok;
+      return {
+        status,
+        valid: status === 'valid',
+        plan,
+        httpStatus: response.status,
+        latencyMs,
+        message: body ? body.slice(0, 200) : undefined
+      };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.debug(`API key validation error for ${this.name}: ${errorMessage}`);
-      return false;
+      const { status, message } = classifyNetworkError(error);
+      logger.debug(`API key validation error for ${this.name}: ${message}`);
+      return { status, valid: false, plan, latencyMs: Date.now() - started, message };
+    }
+  }
+
+  async fetchModels(plan: PlanType, apiKey: string): Promise<string[] | undefined> {
+    const catalog = this.definition.catalog;
+    if (!catalog) {
+      return undefined;
+    }
+    const vars = this.getTemplateVars(plan, apiKey, this.protocols[0]);
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(catalog.headers || {})) {
+      headers[name] = renderTemplate(value, vars);
+    }
+    const response = await httpClient.request(renderTemplate(catalog.url, vars), { headers });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} - ${response.statusText}`);
+    }
+    const body = await response.json() as { data?: Array<{ id?: unknown }> };
+    if (!Array.isArray(body.data)) {
+      throw new Error('unexpected model listing response');
     }
+    return body.data
+      .map(entry => entry.id)
+      .filter((id): id is string => typeof id === 'string');
   }
 
-  getToolConfig(plan: PlanType, apiKey: string, endpoint: string): ToolConfig {
-    const baseUrl = endpoint || (plan === 'china' ? this.chinaUrl : this.globalUrl);
-    const openAiBaseUrl = plan === 'china' ? MINIMAX_CONFIG.chinaOpenAiUrl : MINIMAX_CONFIG.globalOpenAiUrl;
+  hasUsageEndpoint(): boolean {
+    return !!this.definition.usage;
+  }
 
+  async fetchUsage(plan: PlanType, apiKey: string, endpointOverride?: string): Promise<UsageReport | undefined> {
+    const usage = this.definition.usage;
+    if (!usage) {
+      return undefined;
+    }
+    const vars = this.getTemplateVars(plan, apiKey, this.protocols[0], endpointOverride);
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    for (const [name, value] of Object.entries(usage.headers || {})) {
+      headers[name] = renderTemplate(value, vars);
+    }
+    const response = await httpClient.request(renderTemplate(usage.url, vars), { headers });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} - ${response.statusText}`);
+    }
+    const { windows, balance } = mapUsageResponse(usage, await response.json());
     return {
-      baseUrl,
-      apiKey,
-      model: this.defaultModel,
-      env: {
-        ANTHROPIC_BASE_URL: baseUrl,
-        ANTHROPIC_AUTH_TOKEN: apiKey,
-        ANTHROPIC_MODEL: this.defaultModel,
-        ANTHROPIC_DEFAULT_SONNET_MODEL: this.defaultModel,
-        ANTHROPIC_DEFAULT_OPUS_MODEL: this.defaultModel,
-        ANTHROPIC_DEFAULT_HAIKU_MODEL: this.defaultModel,
-        OPENAI_BASE_URL: openAiBaseUrl,
-        OPENAI_API_KEY: apiKey,
-        OPENAI_MODEL: this.defaultModel,
-        MINIMAX_API_KEY: apiKey,
-        MINIMAX_BASE_URL: baseUrl
+      platform: this.id,
+      plan,
+      windows,
+      ...(balance ? { balance } : {}),
+      fetchedAt: new Date().toISOString()
+    };
+  }
+
+  getToolConfig(
+    plan: PlanType,
+    apiKey: string,
+    endpoint: string,
+    protocol: ProviderProtocol = this.protocols[0],
+    tiers?: ModelTierMap,
+    baseUrls?: Partial<Record<ProviderProtocol, string>>
+  ): ToolConfig {
+    if (!this.supportsProtocol(protocol) && !baseUrls?.[protocol]) {
+      throw new Error(`${this.name} does not provide an ${protocol}-compatible endpoint`);
+    }
+    const vars = this.getTemplateVars(plan, apiKey, protocol, endpoint, tiers, baseUrls);
+    const env: Record<string, string> = {};
+    for (const [name, template] of Object.entries(this.definition.env)) {
+      const value = renderTemplate(template, vars);
+      // Skip variables that reference an endpoint this region does not have
+      if (!/\{\{\w+\}\}/.test(value)) {
+        env[name] = value;
       }
+    }
+
+    return {
+      baseUrl: vars.baseUrl!,
+      protocol,
+      apiKey,
+      model: vars.model!,
+      models: this.resolveModelTiers(tiers),
+      env
     };
   }
 }
@@ -157,8 +275,7 @@ class PlatformManager {
   private platforms: Map<PlatformId, Platform> = new Map();
 
   private constructor() {
-    this.platforms.set('glm', new GLMPlatform());
-    this.platforms.set('minimax', new MiniMaxPlatform());
+    this.loadPlatforms();
   }
 
   static getInstance(): PlatformManager {
@@ -168,10 +285,29 @@ class PlatformManager {
     return PlatformManager.instance;
   }
 
+  private loadPlatforms(): void {
+    this.platforms.clear();
+    for (const definition of providerRegistry.getDefinitions()) {
+      this.platforms.set(definition.id, new ProviderPlatform(definition));
+    }
+  }
+
+  /**
+   * Re-read provider definitions from disk (e.g. after adding a user provider file)
+   */
+  reload(): void {
+    providerRegistry.reload();
+    this.loadPlatforms();
+  }
+
   getPlatform(id: PlatformId): Platform | undefined {
     return this.platforms.get(id);
   }
 
+  hasPlatform(id: PlatformId): boolean {
+    return this.platforms.has(id);
+  }
+
   getAllPlatforms(): Platform[] {
     return Array.from(this.platforms.values());
   }
@@ -180,26 +316,76 @@ class PlatformManager {
     return Array.from(this.platforms.keys());
   }
 
-  async validateApiKey(platformId: PlatformId, apiKey: string): Promise<boolean> {
+  /**
+   * Summary of every registered platform for listings and the programmatic API
+   */
+  getPlatformInfos(): PlatformInfo[] {
+    return this.getAllPlatforms().map(platform => ({
+      id: platform.id,
+      name: platform.name,
+      description: platform.description,
+      apiDocsUrl: platform.getApiDocsUrl(),
+      models: platform.models
+    }));
+  }
+
+  /**
+   * Choices for inquirer platform prompts
+   */
+  getPlatformChoices(): Array<{ name: string; value: PlatformId }> {
+    return this.getAllPlatforms().map(platform => ({ name: platform.name, value: platform.id }));
+  }
+
+  async validateApiKey(platformId: PlatformId, apiKey: string, plan: PlanType = 'global'): Promise<KeyValidationResult> {
     const platform = this.getPlatform(platformId);
     if (!platform) {
       logger.warning(`Platform not found: ${platformId}. Available platforms: ${this.getPlatformIds().join(', ')}`);
-      return false;
+      return { status: 'unknown_platform', valid: false, plan, message: platformId };
     }
-    const isValid = await platform.validateApiKey(apiKey);
-    if (!isValid) {
-      logger.debug(`API key validation failed for platform: ${platformId}`);
+    const result = await platform.validateApiKey(apiKey, plan);
+    if (!result.valid) {
+      logger.debug(`API key validation failed for platform: ${platformId} (${result.status})`);
     }
-    return isValid;
+    return result;
   }
 
-  getToolConfig(platformId: PlatformId, plan: PlanType, apiKey: string, endpoint: string): ToolConfig | undefined {
+  /**
+   * Current coding plan consumption; rejects when the platform has no usage endpoint or the query fails.
+   * A configured endpoint override applies to the usage templates as it does to tool configs.
+   */
+  async getUsage(platformId: PlatformId, plan: PlanType, apiKey: string, endpointOverride?: string): Promise<UsageReport> {
+    const platform = this.getPlatform(platformId);
+    if (!platform) {
+      throw new Error(`Platform not found: ${platformId}`);
+    }
+    const report = await platform.fetchUsage(plan, apiKey, endpointOverride);
+    if (!report) {
+      throw new Error(`${platform.name} does not provide a usage endpoint`);
+    }
+    return report;
+  }
+
+  getToolConfig(
+    platformId: PlatformId,
+    plan: PlanType,
+    apiKey: string,
+    endpoint: string,
+    protocol?: ProviderProtocol,
+    tiers?: ModelTierMap,
+    baseUrls?: Partial<Record<ProviderProtocol, string>>
+  ): ToolConfig | undefined {
     const platform = this.getPlatform(platformId);
     if (!platform) {
       logger.warning(`Cannot get tool config: Platform not found '${platformId}'. Available platforms: ${this.getPlatformIds().join(', ')}`);
       return undefined;
     }
-    return platform.getToolConfig(plan, apiKey, endpoint);
+    // Without a protocol the tool gets the platform's first one
+    const resolvedProtocol = protocol ?? platform.protocols[0];
+    if (!platform.supportsProtocol(resolvedProtocol) && !baseUrls?.[resolvedProtocol]) {
+      logger.warning(`Cannot get tool config: ${platform.name} has no ${resolvedProtocol}-compatible endpoint (supports: ${platform.protocols.join(', ')})`);
+      return undefined;
+    }
+    return platform.getToolConfig(plan, apiKey, endpoint, resolvedProtocol, tiers, baseUrls);
   }
 
   getApiDocsUrl(platformId: PlatformId): string {
@@ -209,4 +395,4 @@ class PlatformManager {
 }
 
 export const platformManager = PlatformManager.getInstance();
-export { GLMPlatform, MiniMaxPlatform };
+export { ProviderPlatform };
@@ -0,0 +1,60 @@
+import { spawn } from 'node:child_process';
+import os from 'node:os';
+import { logger } from './logger.js';
+
+// Keyboard signals reach the whole foreground process group, so the child already has them
+const IGNORED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGQUIT'];
+
+// Signals sent to cpa alone, passed on to the child instead of ending cpa first
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGHUP'];
+
+// Shell convention for a command that could not be found
+const COMMAND_NOT_FOUND_EXIT_CODE = 127;
+
+/**
+ * Run a command with extra environment variables, sharing the terminal.
+ * The variables only exist in the child's environment and are never written
+ * to disk. Resolves with the child's exit code. When the child was killed by a
+ * signal, cpa re-raises it on itself so callers see the same termination; the
+ * promise then resolves with 128 + the signal number only if that did not end cpa.
+ */
+export function runWithEnvironment(command: string, args: string[], environment: Record<string, string>): Promise<number> {
+  return new Promise(resolve => {
+    const child = spawn(command, args, {
+      stdio: 'inherit',
+      env: { ...process.env, ...environment }
+    });
+
+    const forward = (signal: NodeJS.Signals) => {
+      child.kill(signal);
+    };
+    const ignore = () => undefined;
+    for (const signal of FORWARDED_SIGNALS) {
+      process.on(signal, forward);
+    }
+    for (const signal of IGNORED_SIGNALS) {
+      process.on(signal, ignore);
+    }
+    const cleanup = () => {
+      for (const signal of FORWARDED_SIGNALS) {
+        process.off(signal, forward);
+      }
+      for (const signal of IGNORED_SIGNALS) {
+        process.off(signal, ignore);
+      }
+    };
+
+    child.once('error', (error: NodeJS.ErrnoException) => {
+      cleanup();
+      logger.error(`Failed to run ${command}: ${error.message}`);
+      resolve(error.code === 'ENOENT' ? COMMAND_NOT_FOUND_EXIT_CODE : 1);
+    });
+    child.once('exit', (code, signal) => {
+      cleanup();
+      if (signal) {
+        process.kill(process.pid, signal);
+      }
+      resolve(code ?? 128 + (signal ? os.constants.signals[signal] : 0));
+    });
+  });
+}
@@ -0,0 +1,594 @@
+/**
+ * Translation between OpenAI chat completions and the Anthropic Messages API,
+ * for requests, complete responses and server-sent event streams. Payloads are
+ * plain JSON, so they are typed loosely and unknown fields are dropped.
+ */
+
+type Json = Record<string, any>;
+
+// Anthropic rejects requests without max_tokens; OpenAI clients often leave it out
+const DEFAULT_MAX_TOKENS = 4096;
+
+const ANTHROPIC_STOP_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+  content_filter: 'end_turn'
+};
+
+const OPENAI_FINISH_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  pause_turn: 'stop',
+  refusal: 'content_filter'
+};
+
+export function toOpenAIFinishReason(stopReason?: string | null): string | null {
+  return stopReason ? OPENAI_FINISH_REASONS[stopReason] || 'stop' : null;
+}
+
+export function toAnthropicStopReason(finishReason?: string | null): string | null {
+  return finishReason ? ANTHROPIC_STOP_REASONS[finishReason] || 'end_turn' : null;
+}
+
+function parseArguments(text: unknown): Json {
+  if (typeof text !== 'string' || !text.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    return {};
+  }
+}
+
+// Text of an OpenAI content value (string or content parts) or Anthropic text blocks
+function textOf(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content
+    .filter((part: Json) => part && part.type === 'text' && typeof part.text === 'string')
+    .map((part: Json) => part.text)
+    .join('\n');
+}
+
+function sse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Splits an event stream into the data payloads of complete events
+ */
+class SseReader {
+  private buffer = '';
+
+  push(text: string): Array<{ event?: string; data: string }> {
+    this.buffer += text.replace(/\r\n/g, '\n');
+    const events: Array<{ event?: string; data: string }> = [];
+    let boundary;
+    while ((boundary = this.buffer.indexOf('\n\n')) >= 0) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+      const parsed = this.parse(block);
+      if (parsed) {
+        events.push(parsed);
+      }
+    }
+    return events;
+  }
+
+  flush(): Array<{ event?: string; data: string }> {
+    const parsed = this.parse(this.buffer);
+    this.buffer = '';
+    return parsed ? [parsed] : [];
+  }
+
+  private parse(block: string): { event?: string; data: string } | undefined {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+  }
+}
+
+// ==================== OpenAI -> Anthropic ====================
+
+function toAnthropicImage(url: string): Json {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(url);
+  return match
+    ? { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+    : { type: 'image', source: { type: 'url', url } };
+}
+
+function toAnthropicContent(content: unknown): Json[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  const blocks: Json[] = [];
+  for (const part of content as Json[]) {
+    if (part?.type === 'text' && typeof part.text === 'string') {
+      blocks.push({ type: 'text', text: part.text });
+    } else if (part?.type === 'image_url') {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+      if (url) {
+        blocks.push(toAnthropicImage(url));
+      }
+    }
+  }
+  return blocks;
+}
+
+function toAnthropicToolChoice(choice: unknown): Json | undefined {
+  if (choice === 'auto') return { type: 'auto' };
+  if (choice === 'required') return { type: 'any' };
+  if (choice === 'none') return { type: 'none' };
+  if (choice && typeof choice === 'object' && (choice as Json).function?.name) {
+    return { type: 'tool', name: (choice as Json).function.name };
+  }
+  return undefined;
+}
+
+/**
+ * Convert an OpenAI chat completions request into an Anthropic Messages request
+ */
+export function openAIToAnthropicRequest(body: Json): Json {
+  const system: string[] = [];
+  const messages: Json[] = [];
+
+  // Anthropic requires alternating roles, so consecutive turns of one role are merged
+  const append = (role: 'user' | 'assistant', blocks: Json[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of (body.messages || []) as Json[]) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(textOf(message.content));
+        break;
+      case 'assistant': {
+        const blocks = toAnthropicContent(message.content);
+        for (const call of (message.tool_calls || []) as Json[]) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.function?.name, input: parseArguments(call.function?.arguments) });
+        }
+        append('assistant', blocks);
+        break;
+      }
+      case 'tool':
+        append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: textOf(message.content) }]);
+        break;
+      default:
+        append('user', toAnthropicContent(message.content));
+    }
+  }
+
+  const request: Json = {
+    model: body.model,
+    messages,
+    max_tokens: body.max_completion_tokens ?? body.max_tokens ?? DEFAULT_MAX_TOKENS
+  };
+  if (system.some(Boolean)) {
+    request.system = system.filter(Boolean).join('\n\n');
+  }
+  if (body.temperature !== undefined) request.temperature = body.temperature;
+  if (body.top_p !== undefined) request.top_p = body.top_p;
+  if (body.stop !== undefined && body.stop !== null) {
+    request.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+  }
+  if (body.stream) request.stream = true;
+  if (typeof body.user === 'string') request.metadata = { user_id: body.user };
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    request.tools = (body.tools as Json[])
+      .filter(tool => tool.type === 'function' && tool.function?.name)
+      .map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters || { type: 'object', properties: {} }
+      }));
+    const choice = toAnthropicToolChoice(body.tool_choice);
+    if (choice) {
+      request.tool_choice = choice;
+    }
+  }
+  return request;
+}
+
+/**
+ * Convert an Anthropic Messages response into an OpenAI chat completion
+ */
+export function anthropicToOpenAIResponse(body: Json): Json {
+  const blocks = (body.content || []) as Json[];
+  const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+  const toolCalls = blocks
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({ id: block.id, type: 'function', function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } }));
+
+  const message: Json = { role: 'assistant', content: text || (toolCalls.length > 0 ? null : '') };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  const inputTokens = body.usage?.input_tokens ?? 0;
+  const outputTokens = body.usage?.output_tokens ?? 0;
+  return {
+    id: body.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: body.model,
+    choices: [{ index: 0, message, finish_reason: toOpenAIFinishReason(body.stop_reason) }],
+    usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+  };
+}
+
+/**
+ * Re-emits an Anthropic event stream as OpenAI chat completion chunks
+ */
+export class AnthropicToOpenAIStream {
+  private readonly reader = new SseReader();
+  private id = '';
+  private model: string;
+  private readonly created = Math.floor(Date.now() / 1000);
+  // Anthropic content block index -> OpenAI tool call index
+  private readonly toolIndexes = new Map<number, number>();
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private done = false;
+
+  constructor(model: string, private readonly includeUsage = false) {
+    this.model = model;
+  }
+
+  push(text: string): string {
+    return this.reader.push(text).map(event => this.translate(event.data)).join('');
+  }
+
+  finish(): string {
+    const rest = this.reader.flush().map(event => this.translate(event.data)).join('');
+    return rest + (this.done ? '' : this.end());
+  }
+
+  private chunk(delta: Json, finishReason: string | null = null): string {
+    const chunk = {
+      id: this.id,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    };
+    return `data: ${JSON.stringify(chunk)}\n\n`;
+  }
+
+  private end(): string {
+    this.done = true;
+    let output = '';
+    if (this.includeUsage) {
+      const usage = { prompt_tokens: this.inputTokens, completion_tokens: this.outputTokens, total_tokens: this.inputTokens + this.outputTokens };
+      output += `data: ${JSON.stringify({ id: this.id, object: 'chat.completion.chunk', created: this.created, model: this.model, choices: [], usage })}\n\n`;
+    }
+    return output + 'data: [DONE]\n\n';
+  }
+
+  private translate(data: string): string {
+    let event: Json;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return '';
+    }
+
+    switch (event.type) {
+      case 'message_start':
+        this.id = event.message?.id || this.id;
+        this.model = event.message?.model || this.model;
+        this.inputTokens = event.message?.usage?.input_tokens ?? 0;
+        this.outputTokens = event.message?.usage?.output_tokens ?? 0;
+        return this.chunk({ role: 'assistant', content: '' });
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          const index = this.toolIndexes.size;
+          this.toolIndexes.set(event.index, index);
+          return this.chunk({
+            tool_calls: [{ index, id: event.content_block.id, type: 'function', function: { name: event.content_block.name, arguments: '' } }]
+          });
+        }
+        return '';
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta') {
+          return this.chunk({ content: event.delta.text });
+        }
+        if (event.delta?.type === 'input_json_delta' && this.toolIndexes.has(event.index)) {
+          return this.chunk({ tool_calls: [{ index: this.toolIndexes.get(event.index), function: { arguments: event.delta.partial_json } }] });
+        }
+        return '';
+      case 'message_delta':
+        this.inputTokens = event.usage?.input_tokens ?? this.inputTokens;
+        this.outputTokens = event.usage?.output_tokens ?? this.outputTokens;
+        return event.delta?.stop_reason ? this.chunk({}, toOpenAIFinishReason(event.delta.stop_reason)) : '';
+      case 'message_stop':
+        return this.end();
+      case 'error':
+        return `data: ${JSON.stringify({ error: anthropicToOpenAIError(event).error })}\n\n`;
+      default:
+        return '';
+    }
+  }
+}
+
+// ==================== Anthropic -> OpenAI ====================
+
+function toOpenAIContent(blocks: Json[]): string | Json[] {
+  const parts: Json[] = [];
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      parts.push({ type: 'text', text: block.text });
+    } else if (block.type === 'image') {
+      const source = block.source || {};
+      const url = source.type === 'base64' ? `data:${source.media_type};base64,${source.data}` : source.url;
+      if (url) {
+        parts.push({ type: 'image_url', image_url: { url } });
+      }
+    }
+  }
+  // Plain strings are understood by every OpenAI-compatible endpoint
+  return parts.every(part => part.type === 'text') ? parts.map(part => part.text).join('\n') : parts;
+}
+
+function toOpenAIToolChoice(choice: Json | undefined): unknown {
+  switch (choice?.type) {
+    case 'auto': return 'auto';
+    case 'any': return 'required';
+    case 'none': return 'none';
+    case 'tool': return { type: 'function', function: { name: choice.name } };
+    default: return undefined;
+  }
+}
+
+/**
+ * Convert an Anthropic Messages request into an OpenAI chat completions request
+ */
+export function anthropicToOpenAIRequest(body: Json): Json {
+  const messages: Json[] = [];
+  const system = typeof body.system === 'string' ? body.system : textOf(body.system);
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (const message of (body.messages || []) as Json[]) {
+    const blocks: Json[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : (message.content || []);
+
+    if (message.role === 'assistant') {
+      const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+      const toolCalls = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, type: 'function', function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } }));
+      const translated: Json = { role: 'assistant', content: text || null };
+      if (toolCalls.length > 0) {
+        translated.tool_calls = toolCalls;
+      }
+      messages.push(translated);
+      continue;
+    }
+
+    // Tool results become tool messages, which must directly follow the assistant's calls
+    for (const block of blocks.filter(block => block.type === 'tool_result')) {
+      const content = typeof block.content === 'string' ? block.content : textOf(block.content);
+      messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.is_error ? `Error: ${content}` : content });
+    }
+    const rest = blocks.filter(block => block.type !== 'tool_result');
+    if (rest.length > 0) {
+      messages.push({ role: 'user', content: toOpenAIContent(rest) });
+    }
+  }
+
+  const request: Json = { model: body.model, messages };
+  if (body.max_tokens !== undefined) request.max_tokens = body.max_tokens;
+  if (body.temperature !== undefined) request.temperature = body.temperature;
+  if (body.top_p !== undefined) request.top_p = body.top_p;
+  if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) request.stop = body.stop_sequences;
+  if (body.stream) {
+    request.stream = true;
+    request.stream_options = { include_usage: true };
+  }
+  if (body.metadata?.user_id) request.user = body.metadata.user_id;
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    request.tools = (body.tools as Json[])
+      .filter(tool => tool.name && tool.input_schema)
+      .map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+      }));
+    const choice = toOpenAIToolChoice(body.tool_choice);
+    if (choice) {
+      request.tool_choice = choice;
+    }
+  }
+  return request;
+}
+
+/**
+ * Convert an OpenAI chat completion into an Anthropic Messages response
+ */
+export function openAIToAnthropicResponse(body: Json): Json {
+  const choice = (body.choices || [])[0] || {};
+  const message = choice.message || {};
+  const content: Json[] = [];
+  const text = textOf(message.content);
+  if (text) {
+    content.push({ type: 'text', text });
+  }
+  for (const call of (message.tool_calls || []) as Json[]) {
+    content.push({ type: 'tool_use', id: call.id, name: call.function?.name, input: parseArguments(call.function?.arguments) });
+  }
+  return {
+    id: body.id,
+    type: 'message',
+    role: 'assistant',
+    model: body.model,
+    content,
+    stop_reason: toAnthropicStopReason(choice.finish_reason) || 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: body.usage?.prompt_tokens ?? 0, output_tokens: body.usage?.completion_tokens ?? 0 }
+  };
+}
+
+/**
+ * Re-emits OpenAI chat completion chunks as an Anthropic event stream
+ */
+export class OpenAIToAnthropicStream {
+  private readonly reader = new SseReader();
+  private started = false;
+  private stopped = false;
+  private blockIndex = -1;
+  private openBlock?: { type: 'text' | 'tool_use'; toolIndex?: number };
+  private stopReason: string | null = null;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  constructor(private model: string) {}
+
+  push(text: string): string {
+    return this.reader.push(text).map(event => this.translate(event.data)).join('');
+  }
+
+  finish(): string {
+    const rest = this.reader.flush().map(event => this.translate(event.data)).join('');
+    return rest + this.stop();
+  }
+
+  private start(id: string): string {
+    this.started = true;
+    return sse('message_start', {
+      type: 'message_start',
+      message: {
+        id,
+        type: 'message',
+        role: 'assistant',
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 }
+      }
+    });
+  }
+
+  private closeBlock(): string {
+    if (!this.openBlock) {
+      return '';
+    }
+    this.openBlock = undefined;
+    return sse('content_block_stop', { type: 'content_block_stop', index: this.blockIndex });
+  }
+
+  private openNewBlock(block: Json, type: 'text' | 'tool_use', toolIndex?: number): string {
+    const output = this.closeBlock();
+    this.blockIndex++;
+    this.openBlock = { type, toolIndex };
+    return output + sse('content_block_start', { type: 'content_block_start', index: this.blockIndex, content_block: block });
+  }
+
+  private stop(): string {
+    if (this.stopped) {
+      return '';
+    }
+    this.stopped = true;
+    let output = this.started ? '' : this.start('');
+    output += this.closeBlock();
+    output += sse('message_delta', {
+      type: 'message_delta',
+      delta: { stop_reason: this.stopReason || 'end_turn', stop_sequence: null },
+      usage: { input_tokens: this.inputTokens, output_tokens: this.outputTokens }
+    });
+    return output + sse('message_stop', { type: 'message_stop' });
+  }
+
+  private translate(data: string): string {
+    if (data === '[DONE]') {
+      return this.stop();
+    }
+    let chunk: Json;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return '';
+    }
+    if (chunk.error) {
+      return sse('error', openAIToAnthropicError(chunk));
+    }
+
+    let output = '';
+    if (!this.started) {
+      this.model = chunk.model || this.model;
+      output += this.start(chunk.id || '');
+    }
+    if (chunk.usage) {
+      this.inputTokens = chunk.usage.prompt_tokens ?? this.inputTokens;
+      this.outputTokens = chunk.usage.completion_tokens ?? this.outputTokens;
+    }
+
+    const choice = (chunk.choices || [])[0];
+    const delta = choice?.delta || {};
+    if (typeof delta.content === 'string' && delta.content) {
+      if (this.openBlock?.type !== 'text') {
+        output += this.openNewBlock({ type: 'text', text: '' }, 'text');
+      }
+      output += sse('content_block_delta', { type: 'content_block_delta', index: this.blockIndex, delta: { type: 'text_delta', text: delta.content } });
+    }
+    for (const call of (delta.tool_calls || []) as Json[]) {
+      const toolIndex = call.index ?? 0;
+      if (this.openBlock?.type !== 'tool_use' || this.openBlock.toolIndex !== toolIndex) {
+        output += this.openNewBlock({ type: 'tool_use', id: call.id, name: call.function?.name, input: {} }, 'tool_use', toolIndex);
+      }
+      if (call.function?.arguments) {
+        output += sse('content_block_delta', {
+          type: 'content_block_delta',
+          index: this.blockIndex,
+          delta: { type: 'input_json_delta', partial_json: call.function.arguments }
+        });
+      }
+    }
+    if (choice?.finish_reason) {
+      this.stopReason = toAnthropicStopReason(choice.finish_reason);
+    }
+    return output;
+  }
+}
+
+// ==================== Errors ====================
+
+export function anthropicToOpenAIError(body: Json): Json {
+  const error = body.error || {};
+  return { error: { message: error.message || 'Upstream error', type: error.type || 'api_error', code: null } };
+}
+
+export function openAIToAnthropicError(body: Json): Json {
+  const error = body.error || {};
+  const message = typeof error === 'string' ? error : error.message || 'Upstream error';
+  return { type: 'error', error: { type: error.type || 'api_error', message } };
+}
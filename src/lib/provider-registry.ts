@@ -0,0 +1,387 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { fileURLToPath } from 'node:url';
+import yaml from 'js-yaml';
+import type { PlanType, UnifiedConfig } from '../types/config.js';
+import type {
+  ModelCapability,
+  ModelMetadata,
+  ModelModality,
+  ModelSpeedTier,
+  ProviderDefinition,
+  ProviderProtocol,
+  ProviderSource
+} from '../types/provider.js';
+import { logger } from './logger.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const BUILTIN_PROVIDERS_DIR = path.join(__dirname, '../providers');
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+const USER_PROVIDERS_DIR = path.join(CPA_STATE_DIR, 'providers');
+
+// Supported provider definition file extensions
+const SUPPORTED_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+const PROTOCOLS: ProviderProtocol[] = ['anthropic', 'openai'];
+const PLANS: PlanType[] = ['global', 'china'];
+const SPEED_TIERS: ModelSpeedTier[] = ['standard', 'fast'];
+const MODALITIES: ModelModality[] = ['text', 'image'];
+const CAPABILITIES: ModelCapability[] = ['tools', 'thinking'];
+
+// Provider ids become top-level keys in config.yaml, so they must not shadow other settings.
+// Typed against UnifiedConfig so a new top-level setting cannot be left out.
+const RESERVED_SETTINGS: Record<Exclude<keyof UnifiedConfig, 'glm' | 'minimax'>, true> = {
+  lang: true,
+  platform: true,
+  plan: true,
+  active_platform: true,
+  credentialStorage: true,
+  network: true,
+  gateway: true,
+  meter: true,
+  bridge: true,
+  agent: true,
+  auth: true,
+  profiles: true,
+  active_profile: true,
+  master_password_hash: true
+};
+const RESERVED_IDS = Object.keys(RESERVED_SETTINGS);
+
+/**
+ * Replace {{name}} placeholders with values from vars.
+ * Unknown placeholders are left untouched.
+ */
+export function renderTemplate(template: string, vars: Record<string, string | undefined>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match: string, name: string) => {
+    const value = vars[name];
+    return value !== undefined ? value : match;
+  });
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(v => typeof v === 'string');
+}
+
+// YAML definitions are parsed with FAILSAFE_SCHEMA, so numbers and booleans arrive as strings
+function toPositiveInteger(value: unknown, field: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`'${field}' must be a positive integer`);
+  }
+  return parsed;
+}
+
+function toBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined || typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  throw new Error(`'${field}' must be true or false`);
+}
+
+function toEnumList<T extends string>(value: unknown, allowed: T[], field: string): T[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every(v => allowed.includes(v as T))) {
+    throw new Error(`'${field}' must list values from ${allowed.join(', ')}`);
+  }
+  return value as T[];
+}
+
+function validateModelMetadata(model: string, raw: unknown): ModelMetadata {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`'modelInfo.${model}' must be an object`);
+  }
+  const info = raw as Record<string, unknown>;
+  const prefix = `modelInfo.${model}`;
+  if (info.speed !== undefined && !SPEED_TIERS.includes(info.speed as ModelSpeedTier)) {
+    throw new Error(`'${prefix}.speed' must be one of ${SPEED_TIERS.join(', ')}`);
+  }
+  return {
+    contextLength: toPositiveInteger(info.contextLength, `${prefix}.contextLength`),
+    maxOutputTokens: toPositiveInteger(info.maxOutputTokens, `${prefix}.maxOutputTokens`),
+    speed: info.speed as ModelSpeedTier | undefined,
+    modalities: toEnumList(info.modalities, MODALITIES, `${prefix}.modalities`),
+    capabilities: toEnumList(info.capabilities, CAPABILITIES, `${prefix}.capabilities`),
+    deprecated: toBoolean(info.deprecated, `${prefix}.deprecated`)
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function validateUsageSource(raw: unknown): void {
+  const usage = raw as Record<string, unknown> | undefined;
+  if (!usage || typeof usage !== 'object' || typeof usage.url !== 'string') {
+    throw new Error(`'usage.url' is required when 'usage' is set`);
+  }
+  if (usage.headers !== undefined && !isStringRecord(usage.headers)) {
+    throw new Error(`'usage.headers' must map header names to strings`);
+  }
+  if (usage.windows === undefined && usage.balance === undefined) {
+    throw new Error(`'usage' must declare 'windows' or 'balance'`);
+  }
+
+  const error = usage.error as Record<string, unknown> | undefined;
+  if (error !== undefined && (!error || typeof error.code !== 'string' || !isStringList(error.ok) ||
+    (error.message !== undefined && typeof error.message !== 'string'))) {
+    throw new Error(`'usage.error' must set 'code' and list the 'ok' values`);
+  }
+
+  const windows = usage.windows as Record<string, unknown> | undefined;
+  if (windows !== undefined) {
+    if (!windows || typeof windows.path !== 'string' || typeof windows.unit !== 'string') {
+      throw new Error(`'usage.windows' must set 'path' and 'unit'`);
+    }
+    for (const field of ['name', 'used', 'limit', 'remaining', 'resetsAt']) {
+      if (windows[field] !== undefined && typeof windows[field] !== 'string') {
+        throw new Error(`'usage.windows.${field}' must be a field path`);
+      }
+    }
+    const labels = windows.labels as Record<string, unknown> | undefined;
+    if (labels !== undefined && (!labels || typeof labels !== 'object' || Array.isArray(labels) ||
+      !Object.values(labels).every(label => isStringRecord(label) && typeof label.name === 'string'))) {
+      throw new Error(`'usage.windows.labels' must map window names to a 'name' and optional 'unit'`);
+    }
+  }
+
+  const balance = usage.balance as Record<string, unknown> | undefined;
+  if (balance !== undefined && (!isStringRecord(balance) || typeof balance.amount !== 'string')) {
+    throw new Error(`'usage.balance' must set 'amount' and optional 'currency' field paths`);
+  }
+}
+
+function validateMcpServices(raw: unknown): void {
+  if (!Array.isArray(raw)) {
+    throw new Error(`'mcp' must be a list of services`);
+  }
+  for (const service of raw) {
+    if (!isStringRecord(service) || !['id', 'name', 'description', 'skill'].every(field => typeof service[field] === 'string')) {
+      throw new Error(`each 'mcp' service must set 'id', 'name', 'description' and 'skill'`);
+    }
+    if (!PROVIDER_ID_PATTERN.test(service.skill)) {
+      throw new Error(`invalid mcp skill '${service.skill}' (use lowercase letters, digits and dashes)`);
+    }
+  }
+}
+
+/**
+ * Validate a parsed provider definition and return it typed.
+ * Throws with a descriptive message when a required field is missing or malformed.
+ */
+export function validateProviderDefinition(raw: unknown): ProviderDefinition {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('definition must be an object');
+  }
+  const def = raw as Record<string, unknown>;
+
+  for (const field of ['id', 'name', 'apiDocsUrl', 'defaultModel']) {
+    if (typeof def[field] !== 'string' || (def[field] as string).trim().length === 0) {
+      throw new Error(`missing required field '${field}'`);
+    }
+  }
+
+  const id = def.id as string;
+  if (!PROVIDER_ID_PATTERN.test(id)) {
+    throw new Error(`invalid id '${id}' (use lowercase letters, digits and dashes)`);
+  }
+  if (RESERVED_IDS.includes(id)) {
+    throw new Error(`id '${id}' is reserved`);
+  }
+
+  const regions = def.regions as Record<string, unknown> | undefined;
+  if (!regions || typeof regions !== 'object') {
+    throw new Error(`missing required field 'regions'`);
+  }
+
+  const protocols = def.protocols;
+  if (!Array.isArray(protocols) || protocols.length === 0 ||
+    !protocols.every(p => PROTOCOLS.includes(p as ProviderProtocol))) {
+    throw new Error(`'protocols' must list at least one of ${PROTOCOLS.join(', ')}`);
+  }
+
+  for (const [plan, region] of Object.entries(regions)) {
+    if (!PLANS.includes(plan as PlanType)) {
+      throw new Error(`unknown region '${plan}' (expected ${PLANS.join(', ')})`);
+    }
+    if (!isStringRecord(region) || Object.keys(region).length === 0) {
+      throw new Error(`region '${plan}' must map protocols to endpoint URLs`);
+    }
+    for (const protocol of Object.keys(region)) {
+      if (!protocols.includes(protocol)) {
+        throw new Error(`region '${plan}' defines an endpoint for undeclared protocol '${protocol}'`);
+      }
+    }
+  }
+  const globalRegion = regions.global as Record<string, string> | undefined;
+  if (!globalRegion) {
+    throw new Error(`region 'global' is required`);
+  }
+  for (const protocol of protocols) {
+    if (!globalRegion[protocol]) {
+      throw new Error(`region 'global' has no endpoint for protocol '${protocol}'`);
+    }
+  }
+
+  const models = def.models;
+  if (!Array.isArray(models) || models.length === 0 || !models.every(m => typeof m === 'string')) {
+    throw new Error(`'models' must be a non-empty list of model ids`);
+  }
+  if (!models.includes(def.defaultModel as string)) {
+    throw new Error(`defaultModel '${def.defaultModel}' is not listed in models`);
+  }
+
+  if (!isStringRecord(def.env)) {
+    throw new Error(`'env' must map variable names to string templates`);
+  }
+
+  const validation = def.validation as Record<string, unknown> | undefined;
+  if (!validation || typeof validation.url !== 'string') {
+    throw new Error(`'validation.url' is required`);
+  }
+  if (validation.method !== undefined && validation.method !== 'GET' && validation.method !== 'POST') {
+    throw new Error(`'validation.method' must be GET or POST`);
+  }
+  if (validation.headers !== undefined && !isStringRecord(validation.headers)) {
+    throw new Error(`'validation.headers' must map header names to strings`);
+  }
+
+  if (def.modelInfo !== undefined) {
+    if (!def.modelInfo || typeof def.modelInfo !== 'object' || Array.isArray(def.modelInfo)) {
+      throw new Error(`'modelInfo' must map model ids to metadata`);
+    }
+    const modelInfo: Record<string, ModelMetadata> = {};
+    for (const [model, info] of Object.entries(def.modelInfo)) {
+      modelInfo[model] = validateModelMetadata(model, info);
+    }
+    def.modelInfo = modelInfo;
+  }
+
+  const catalog = def.catalog as Record<string, unknown> | undefined;
+  if (catalog !== undefined) {
+    if (!catalog || typeof catalog.url !== 'string') {
+      throw new Error(`'catalog.url' is required when 'catalog' is set`);
+    }
+    if (catalog.headers !== undefined && !isStringRecord(catalog.headers)) {
+      throw new Error(`'catalog.headers' must map header names to strings`);
+    }
+  }
+
+  if (def.usage !== undefined) {
+    validateUsageSource(def.usage);
+  }
+
+  if (def.mcp !== undefined) {
+    validateMcpServices(def.mcp);
+  }
+
+  return def as unknown as ProviderDefinition;
+}
+
+class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private providers: Map<string, ProviderDefinition> = new Map();
+  private sources: Map<string, ProviderSource> = new Map();
+
+  private constructor() {
+    this.reload();
+  }
+
+  static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  /**
+   * (Re)load built-in definitions, then user definitions.
+   * A user definition with the same id as a built-in one replaces it.
+   */
+  reload(): void {
+    this.providers.clear();
+    this.sources.clear();
+    this.loadDirectory(BUILTIN_PROVIDERS_DIR, 'builtin');
+    this.loadDirectory(USER_PROVIDERS_DIR, 'user');
+  }
+
+  private loadDirectory(dir: string, source: ProviderSource): void {
+    let files: string[];
+    try {
+      if (!fs.existsSync(dir)) {
+        return;
+      }
+      files = fs.readdirSync(dir).sort();
+    } catch (error) {
+      logger.debug(`Failed to read provider directory ${dir}: ${error}`);
+      return;
+    }
+
+    for (const file of files) {
+      const ext = path.extname(file).toLowerCase();
+      if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+        continue;
+      }
+      const filePath = path.join(dir, file);
+      try {
+        const definition = this.parseFile(filePath, ext);
+        if (source === 'user' && this.providers.has(definition.id)) {
+          logger.debug(`User provider ${definition.id} overrides built-in definition`);
+        }
+        this.providers.set(definition.id, definition);
+        this.sources.set(definition.id, source);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warning(`Skipping provider definition ${filePath}: ${message}`);
+      }
+    }
+  }
+
+  private parseFile(filePath: string, ext: string): ProviderDefinition {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const raw = ext === '.json'
+      ? JSON.parse(content)
+      // Use FAILSAFE_SCHEMA to prevent unsafe YAML deserialization (CVE-2023-2251)
+      : yaml.load(content, { schema: (yaml as any).FAILSAFE_SCHEMA });
+    return validateProviderDefinition(raw);
+  }
+
+  getDefinition(id: string): ProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  getDefinitions(): ProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  getProviderIds(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  hasProvider(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  getSource(id: string): ProviderSource | undefined {
+    return this.sources.get(id);
+  }
+
+  getUserProvidersDir(): string {
+    return USER_PROVIDERS_DIR;
+  }
+}
+
+export const providerRegistry = ProviderRegistry.getInstance();
+export { ProviderRegistry };
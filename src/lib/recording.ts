@@ -0,0 +1,436 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import type { PlatformId } from '../types/config.js';
+import type { ProviderProtocol } from '../types/provider.js';
+import { httpClient } from './http-client.js';
+import { logger } from './logger.js';
+
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+const RECORDINGS_DIR = path.join(CPA_STATE_DIR, 'recordings');
+const SESSION_FILE = 'session.json';
+
+export const DEFAULT_RECORD_PORT = 8790;
+export const RECORD_HOST = '127.0.0.1';
+
+const REDACTED = '[REDACTED]';
+
+// Headers whose values are credentials
+const SECRET_HEADERS = ['authorization', 'x-api-key', 'proxy-authorization', 'cookie', 'set-cookie', 'api-key'];
+
+// Headers that describe one connection and would be wrong when replayed
+const HOP_HEADERS = ['host', 'connection', 'content-length', 'accept-encoding', 'content-encoding', 'transfer-encoding', 'keep-alive'];
+
+// Key-shaped tokens (sk-..., sk-ant-...) that may appear inside bodies
+const KEY_PATTERN = /\bsk-[A-Za-z0-9_-]{16,}/g;
+
+export interface RecordingSession {
+  id: string;
+  tool: string;
+  platform: PlatformId;
+  protocol: ProviderProtocol;
+  /** Upstream the requests were forwarded to */
+  baseUrl: string;
+  startedAt: string;
+}
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    path: string;
+    headers: Record<string, string>;
+    /** Parsed JSON when the body is JSON, otherwise text */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: unknown;
+    /** Server-sent events, one entry per event, with the time since the response started */
+    frames?: Array<{ offsetMs: number; data: string }>;
+  };
+  durationMs: number;
+}
+
+/**
+ * Replace credentials and the given secret values in a string
+ */
+export function redactSecrets(text: string, secrets: string[] = []): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    if (secret.length >= 8) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted.replace(KEY_PATTERN, REDACTED);
+}
+
+/**
+ * Headers without per-connection fields, with credential values redacted
+ */
+export function redactHeaders(headers: Record<string, string>, secrets: string[] = []): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (HOP_HEADERS.includes(key)) {
+      continue;
+    }
+    redacted[key] = SECRET_HEADERS.includes(key) ? REDACTED : redactSecrets(value, secrets);
+  }
+  return redacted;
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Credential values sent by the tool, so they can be scrubbed from bodies too
+function credentialValues(headers: Record<string, string>): string[] {
+  const values: string[] = [];
+  for (const name of SECRET_HEADERS) {
+    const value = headers[name];
+    if (value) {
+      values.push(value, value.replace(/^Bearer\s+/i, ''));
+    }
+  }
+  return values;
+}
+
+function flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      flat[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return flat;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function listen(server: http.Server, port: number): Promise<number> {
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, RECORD_HOST, () => resolve());
+  });
+  return (server.address() as AddressInfo).port;
+}
+
+async function close(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+}
+
+export function getRecordingsDir(): string {
+  return RECORDINGS_DIR;
+}
+
+/**
+ * Recorded sessions, newest first
+ */
+export function listRecordings(): Array<RecordingSession & { exchanges: number }> {
+  if (!fs.existsSync(RECORDINGS_DIR)) {
+    return [];
+  }
+  const sessions: Array<RecordingSession & { exchanges: number }> = [];
+  for (const entry of fs.readdirSync(RECORDINGS_DIR)) {
+    const dir = path.join(RECORDINGS_DIR, entry);
+    try {
+      const session = JSON.parse(fs.readFileSync(path.join(dir, SESSION_FILE), 'utf-8')) as RecordingSession;
+      const exchanges = fs.readdirSync(dir).filter(file => /^\d+\.json$/.test(file)).length;
+      sessions.push({ ...session, exchanges });
+    } catch {
+      logger.debug(`Skipping ${dir}: not a recording session`);
+    }
+  }
+  return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Load a session by id or directory path, with its exchanges in recording order
+ */
+export function loadRecording(idOrPath: string): { session: RecordingSession; exchanges: RecordedExchange[] } {
+  const dir = fs.existsSync(path.join(idOrPath, SESSION_FILE)) ? idOrPath : path.join(RECORDINGS_DIR, idOrPath);
+  if (!fs.existsSync(path.join(dir, SESSION_FILE))) {
+    throw new Error(`Recording not found: ${idOrPath}`);
+  }
+  const session = JSON.parse(fs.readFileSync(path.join(dir, SESSION_FILE), 'utf-8')) as RecordingSession;
+  const exchanges = fs.readdirSync(dir)
+    .filter(file => /^\d+\.json$/.test(file))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as RecordedExchange);
+  return { session, exchanges };
+}
+
+export interface RecorderOptions {
+  port?: number;
+  tool: string;
+  platform: PlatformId;
+  protocol: ProviderProtocol;
+  baseUrl: string;
+  /** Wait for upstream response headers, long enough that a slow answer is recorded rather than a timeout; 0 means no limit */
+  timeoutMs?: number;
+}
+
+/**
+ * Forwarding proxy that writes every request/response pair of a tool, with
+ * credentials redacted, to a session directory
+ */
+class Recorder {
+  private server?: http.Server;
+  private sequence = 0;
+  readonly session: RecordingSession;
+  readonly dir: string;
+
+  constructor(private readonly options: RecorderOptions) {
+    const startedAt = new Date();
+    const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    this.session = {
+      id: `${stamp}-${options.tool}`,
+      tool: options.tool,
+      platform: options.platform,
+      protocol: options.protocol,
+      baseUrl: options.baseUrl,
+      startedAt: startedAt.toISOString()
+    };
+    this.dir = path.join(RECORDINGS_DIR, this.session.id);
+  }
+
+  async start(): Promise<number> {
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(path.join(this.dir, SESSION_FILE), JSON.stringify(this.session, null, 2), { mode: 0o600 });
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Recorder error: ${error instanceof Error ? error.message : error}`);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end();
+      });
+    });
+    this.server = server;
+    return listen(server, this.options.port ?? DEFAULT_RECORD_PORT);
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await close(this.server);
+      this.server = undefined;
+    }
+  }
+
+  getExchangeCount(): number {
+    return this.sequence;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const requestHeaders = flattenHeaders(req.headers);
+    const secrets = credentialValues(requestHeaders);
+    const body = await readBody(req);
+    const started = Date.now();
+
+    const forwardHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(requestHeaders)) {
+      if (!HOP_HEADERS.includes(name)) {
+        forwardHeaders[name] = value;
+      }
+    }
+
+    const aborted = new AbortController();
+    res.on('close', () => aborted.abort());
+
+    const exchange: RecordedExchange = {
+      request: {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        headers: redactHeaders(requestHeaders, secrets),
+        body: parseBody(redactSecrets(body.toString('utf-8'), secrets))
+      },
+      response: { status: 0, headers: {} },
+      durationMs: 0
+    };
+
+    let response;
+    try {
+      response = await httpClient.request(this.options.baseUrl.replace(/\/$/, '') + (req.url || '/'), {
+        method: req.method,
+        headers: forwardHeaders,
+        body: body.length > 0 ? body : undefined,
+        signal: aborted.signal
+      }, { retries: 0, stream: true, timeoutMs: this.options.timeoutMs });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      exchange.response = { status: 502, headers: {}, body: { error: `upstream unreachable: ${message}` } };
+      exchange.durationMs = Date.now() - started;
+      this.save(exchange);
+      if (!aborted.signal.aborted) {
+        res.writeHead(502, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { type: 'api_error', message: `${this.options.platform} unreachable: ${message}` } }));
+      }
+      return;
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name] = value;
+    });
+    const clientHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(responseHeaders)) {
+      if (!HOP_HEADERS.includes(name)) {
+        clientHeaders[name] = value;
+      }
+    }
+    res.writeHead(response.status, clientHeaders);
+    res.flushHeaders();
+
+    const eventStream = (responseHeaders['content-type'] || '').includes('text/event-stream');
+    const decoder = new TextDecoder();
+    const frames: Array<{ offsetMs: number; data: string }> = [];
+    let text = '';
+    let pending = '';
+    if (response.body) {
+      try {
+        for await (const chunk of response.body) {
+          res.write(chunk);
+          const decoded = decoder.decode(chunk, { stream: true });
+          if (!eventStream) {
+            text += decoded;
+            continue;
+          }
+          // One frame per complete event
+          pending += decoded;
+          let boundary;
+          while ((boundary = pending.indexOf('\n\n')) >= 0) {
+            frames.push({ offsetMs: Date.now() - started, data: redactSecrets(pending.slice(0, boundary + 2), secrets) });
+            pending = pending.slice(boundary + 2);
+          }
+        }
+      } catch (error) {
+        logger.debug(`Upstream stream ended early: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    res.end();
+
+    pending += decoder.decode();
+    if (eventStream && pending) {
+      frames.push({ offsetMs: Date.now() - started, data: redactSecrets(pending, secrets) });
+    }
+    exchange.response = {
+      status: response.status,
+      headers: redactHeaders(responseHeaders, secrets),
+      ...(eventStream ? { frames } : { body: parseBody(redactSecrets(text, secrets)) })
+    };
+    exchange.durationMs = Date.now() - started;
+    this.save(exchange);
+    logger.info(`${exchange.request.method} ${exchange.request.path} -> ${response.status} (${exchange.durationMs}ms${eventStream ? `, ${frames.length} events` : ''})`);
+  }
+
+  private save(exchange: RecordedExchange): void {
+    this.sequence++;
+    const file = path.join(this.dir, `${String(this.sequence).padStart(4, '0')}.json`);
+    try {
+      fs.writeFileSync(file, JSON.stringify(exchange, null, 2), { mode: 0o600 });
+    } catch (error) {
+      logger.error(`Failed to write recording: ${error}`);
+    }
+  }
+}
+
+export interface ReplayerOptions {
+  port?: number;
+  exchanges: RecordedExchange[];
+  /** Reproduce the recorded delays between events */
+  realtime?: boolean;
+}
+
+/**
+ * Fake upstream that answers requests with recorded responses. Requests are
+ * matched by method and path, in recording order; once a path's recordings are
+ * used up its last response is repeated.
+ */
+class Replayer {
+  private server?: http.Server;
+  private readonly queues = new Map<string, RecordedExchange[]>();
+  private readonly last = new Map<string, RecordedExchange>();
+
+  constructor(private readonly options: ReplayerOptions) {
+    for (const exchange of options.exchanges) {
+      const key = this.key(exchange.request.method, exchange.request.path);
+      const queue = this.queues.get(key) || [];
+      queue.push(exchange);
+      this.queues.set(key, queue);
+    }
+  }
+
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Replay error: ${error instanceof Error ? error.message : error}`);
+        res.end();
+      });
+    });
+    this.server = server;
+    return listen(server, this.options.port ?? DEFAULT_RECORD_PORT);
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await close(this.server);
+      this.server = undefined;
+    }
+  }
+
+  private key(method: string, url: string): string {
+    return `${method.toUpperCase()} ${url}`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    await readBody(req);
+    const key = this.key(req.method || 'GET', req.url || '/');
+    const exchange = this.queues.get(key)?.shift() || this.last.get(key);
+    if (!exchange) {
+      logger.warning(`No recording for ${key}`);
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ type: 'error', error: { type: 'not_found_error', message: `No recording for ${key}` } }));
+      return;
+    }
+    this.last.set(key, exchange);
+    logger.info(`${key} -> ${exchange.response.status}`);
+
+    const { status, headers, body, frames } = exchange.response;
+    res.writeHead(status, headers);
+    if (frames) {
+      res.flushHeaders();
+      let elapsed = 0;
+      for (const frame of frames) {
+        if (this.options.realtime && frame.offsetMs > elapsed) {
+          await new Promise(resolve => setTimeout(resolve, frame.offsetMs - elapsed));
+          elapsed = frame.offsetMs;
+        }
+        res.write(frame.data);
+      }
+      res.end();
+      return;
+    }
+    res.end(body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body));
+  }
+}
+
+export { Recorder, Replayer };
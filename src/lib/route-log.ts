@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import type { PlatformId } from '../types/config.js';
+import { logger } from './logger.js';
+
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+const ROUTE_LOG_FILE = path.join(CPA_STATE_DIR, 'routes.jsonl');
+
+// Once the log passes this size it is cut back to the newest entries
+const MAX_LOG_BYTES = 1024 * 1024;
+const KEPT_ENTRIES = 2000;
+
+/** One request dispatched by the gateway, stored as a line of routes.jsonl */
+export interface RouteLogEntry {
+  /** ISO timestamp of the request */
+  timestamp: string;
+  /** Model the tool asked for */
+  model?: string;
+  /** Routing table key that matched; undefined when the failover order was used */
+  route?: string;
+  platform: PlatformId;
+  /** Pool key that served the request, for platforms with a key pool */
+  key?: string;
+  /** Model sent to the platform */
+  upstreamModel?: string;
+  status: number;
+  /** Whether earlier platforms were skipped after a failure */
+  failover: boolean;
+}
+
+/**
+ * Log of where the gateway sent each request, read by `cpa route log`
+ */
+class RouteLog {
+  private static instance: RouteLog;
+
+  private constructor() {}
+
+  static getInstance(): RouteLog {
+    if (!RouteLog.instance) {
+      RouteLog.instance = new RouteLog();
+    }
+    return RouteLog.instance;
+  }
+
+  getFilePath(): string {
+    return ROUTE_LOG_FILE;
+  }
+
+  append(entry: RouteLogEntry): void {
+    try {
+      if (!fs.existsSync(CPA_STATE_DIR)) {
+        fs.mkdirSync(CPA_STATE_DIR, { recursive: true });
+      }
+      fs.appendFileSync(ROUTE_LOG_FILE, JSON.stringify(entry) + '\n', { encoding: 'utf-8', mode: 0o600 });
+      if (fs.statSync(ROUTE_LOG_FILE).size > MAX_LOG_BYTES) {
+        const kept = this.read(KEPT_ENTRIES).map(line => JSON.stringify(line) + '\n').join('');
+        fs.writeFileSync(ROUTE_LOG_FILE, kept, { encoding: 'utf-8', mode: 0o600 });
+      }
+    } catch (error) {
+      logger.error(`Failed to write route log: ${error}`);
+    }
+  }
+
+  /**
+   * The newest `limit` entries, oldest first. Malformed lines are skipped.
+   */
+  read(limit?: number): RouteLogEntry[] {
+    if (!fs.existsSync(ROUTE_LOG_FILE)) {
+      return [];
+    }
+    let content: string;
+    try {
+      content = fs.readFileSync(ROUTE_LOG_FILE, 'utf-8');
+    } catch (error) {
+      logger.error(`Failed to read route log: ${error}`);
+      return [];
+    }
+
+    const entries: RouteLogEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as RouteLogEntry);
+      } catch {
+        logger.debug(`Skipping malformed route log entry: ${line.slice(0, 80)}`);
+      }
+    }
+    return limit !== undefined ? entries.slice(-limit) : entries;
+  }
+}
+
+export const routeLog = RouteLog.getInstance();
@@ -0,0 +1,369 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { toolRegistry } from './tool-registry.js';
+import { toolManager, getApiKeyHelperCommand } from './tool-manager.js';
+import { platformManager } from './platform-manager.js';
+import { secureCredentialManager } from './secure-credential-manager.js';
+import { formatSourceCommand, type ShellType } from './shell.js';
+
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+const TOOL_BACKUP_FILE = path.join(CPA_STATE_DIR, 'tool-backups.json');
+
+// Shell startup files, with the shell that reads them
+const SHELL_FILES: Array<{ file: string; shell: ShellType }> = [
+  { file: '.bashrc', shell: 'bash' },
+  { file: '.bash_profile', shell: 'bash' },
+  { file: '.profile', shell: 'sh' },
+  { file: '.zshrc', shell: 'zsh' },
+  { file: '.zprofile', shell: 'zsh' },
+  { file: path.join('.config', 'fish', 'config.fish'), shell: 'fish' }
+];
+
+// .env, .env.local, .env.production, ...
+const ENV_FILE_PATTERN = /^\.env(\..+)?$/;
+const ENV_FILE_SKIP_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'vendor', '.venv']);
+const ENV_FILE_MAX_DEPTH = 4;
+
+// Larger files are not configs or shell profiles
+const MAX_SCANNED_FILE_BYTES = 1024 * 1024;
+
+// Platform recorded for keys that match a vendor pattern but none of the stored keys
+const UNKNOWN_PLATFORM = 'local';
+
+/**
+ * Shapes of keys issued by coding plan and model vendors. More specific
+ * patterns come first; a later match inside an earlier one is not reported twice.
+ */
+export const VENDOR_KEY_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'sk- API key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { name: 'GLM API key', pattern: /\b[0-9a-f]{32}\.[A-Za-z0-9]{16}\b/g },
+  { name: 'JWT API key', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g }
+];
+
+/**
+ * A file that is scanned
+ */
+export interface AuditTarget {
+  path: string;
+  /**
+   * `tool` is a tool config, `backup` the tool config backups, `vscode` the
+   * VS Code settings, `shell` a startup file and `dotenv` a .env file
+   */
+  kind: 'tool' | 'vscode' | 'backup' | 'shell' | 'dotenv';
+  toolId?: string;
+  shell?: ShellType;
+}
+
+/**
+ * Secret value cpa knows, such as a decrypted platform key
+ */
+export interface KnownSecret {
+  label: string;
+  platform?: string;
+  value: string;
+}
+
+export interface SecretFinding {
+  target: AuditTarget;
+  /** 1-based line number */
+  line: number;
+  /** Permission bits of the file */
+  mode: number;
+  value: string;
+  /** Label of the matching stored key, or the name of the vendor pattern */
+  source: string;
+  known: boolean;
+  platform?: string;
+  /** Setting or variable the line assigns, used to name the stored credential */
+  variable?: string;
+}
+
+/**
+ * Key with all but its first and last characters hidden, safe to print
+ */
+export function maskSecret(value: string): string {
+  return value.length > 16 ? `${value.slice(0, 6)}…${value.slice(-4)}` : '****';
+}
+
+/**
+ * Permission bits as printed by `ls` and `chmod`, e.g. 0644
+ */
+export function formatMode(mode: number): string {
+  return (mode & 0o777).toString(8).padStart(4, '0');
+}
+
+/**
+ * Whether users other than the owner can read a file with this mode
+ */
+export function isReadableByOthers(mode: number): boolean {
+  return process.platform !== 'win32' && (mode & 0o044) !== 0;
+}
+
+// JSON key, or variable name of a shell/.env assignment, on the line
+function findVariable(line: string, kind: AuditTarget['kind']): string | undefined {
+  const match = kind === 'shell' || kind === 'dotenv'
+    ? /^\s*(?:export\s+|set\s+-gx\s+)?([A-Za-z_][A-Za-z0-9_]*)(?:=|\s)/.exec(line)
+    : /"([^"]+)"\s*:/.exec(line);
+  return match?.[1];
+}
+
+/**
+ * Stored keys and vendor-shaped keys in a text, line by line
+ */
+export function scanContent(
+  text: string,
+  known: KnownSecret[],
+  kind: AuditTarget['kind']
+): Array<Omit<SecretFinding, 'target' | 'mode'>> {
+  const findings: Array<Omit<SecretFinding, 'target' | 'mode'>> = [];
+  text.split('\n').forEach((line, index) => {
+    const values: string[] = [];
+    const add = (value: string, source: string, isKnown: boolean, platform?: string) => {
+      if (values.some(found => found.includes(value))) {
+        return;
+      }
+      values.push(value);
+      findings.push({ line: index + 1, value, source, known: isKnown, platform, variable: findVariable(line, kind) });
+    };
+    for (const secret of known) {
+      if (secret.value.length >= 8 && line.includes(secret.value)) {
+        add(secret.value, secret.label, true, secret.platform);
+      }
+    }
+    for (const { name, pattern } of VENDOR_KEY_PATTERNS) {
+      for (const match of line.matchAll(pattern)) {
+        add(match[0], name, false);
+      }
+    }
+  });
+  return findings;
+}
+
+// Top of the git repository around `cwd`, or `cwd` itself outside a repository
+function findRepoRoot(cwd: string): string {
+  try {
+    return execFileSync('git', ['rev-parse', '--show-toplevel'], { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim() || cwd;
+  } catch {
+    return cwd;
+  }
+}
+
+/**
+ * .env files below `root`, skipping dependency and build directories
+ */
+export function findEnvFiles(root: string, depth = ENV_FILE_MAX_DEPTH): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(root, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(root, entry.name);
+    if (entry.isFile() && ENV_FILE_PATTERN.test(entry.name)) {
+      files.push(entryPath);
+    } else if (entry.isDirectory() && depth > 0 && !ENV_FILE_SKIP_DIRS.has(entry.name)) {
+      files.push(...findEnvFiles(entryPath, depth - 1));
+    }
+  }
+  return files;
+}
+
+/**
+ * Files the audit looks at: every tool config, VS Code settings, the tool
+ * config backups, shell startup files and the .env files of the repository
+ * around `cwd`
+ */
+export function getAuditTargets(cwd = process.cwd()): AuditTarget[] {
+  const targets: AuditTarget[] = [];
+  for (const toolId of toolRegistry.getToolIds()) {
+    const configPath = toolRegistry.getTool(toolId)?.configPath;
+    if (!configPath) {
+      continue;
+    }
+    // Some tools (Copilot) keep several JSON files in a directory
+    if (fs.existsSync(configPath) && fs.statSync(configPath).isDirectory()) {
+      for (const file of fs.readdirSync(configPath).filter(name => name.endsWith('.json'))) {
+        targets.push({ path: path.join(configPath, file), kind: 'tool', toolId });
+      }
+    } else {
+      targets.push({ path: configPath, kind: 'tool', toolId });
+    }
+  }
+  const vscodeSettings = toolManager.getVSCodeSettingsPath();
+  if (vscodeSettings) {
+    targets.push({ path: vscodeSettings, kind: 'vscode', toolId: 'vscode' });
+  }
+  targets.push({ path: TOOL_BACKUP_FILE, kind: 'backup' });
+  for (const { file, shell } of SHELL_FILES) {
+    targets.push({ path: path.join(os.homedir(), file), kind: 'shell', shell });
+  }
+  for (const file of findEnvFiles(findRepoRoot(cwd))) {
+    targets.push({ path: file, kind: 'dotenv' });
+  }
+  return targets;
+}
+
+/**
+ * Scan the targets that exist. Each file is read once, even when it is
+ * listed twice.
+ */
+export function auditSecrets(targets: AuditTarget[], known: KnownSecret[]): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const seen = new Set<string>();
+  for (const target of targets) {
+    if (seen.has(target.path)) {
+      continue;
+    }
+    seen.add(target.path);
+    let stat: fs.Stats;
+    let text: string;
+    try {
+      stat = fs.statSync(target.path);
+      if (!stat.isFile() || stat.size > MAX_SCANNED_FILE_BYTES) {
+        continue;
+      }
+      text = fs.readFileSync(target.path, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const finding of scanContent(text, known, target.kind)) {
+      findings.push({ ...finding, target, mode: stat.mode });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Targets whose file holds the secret, such as every place a rotated platform
+ * key was written to
+ */
+export function findSecretTargets(targets: AuditTarget[], value: string): AuditTarget[] {
+  const found = new Map<string, AuditTarget>();
+  for (const finding of auditSecrets(targets, [{ label: 'secret', value }])) {
+    if (finding.value === value) {
+      found.set(finding.target.path, finding.target);
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Replace every occurrence of a secret in the target's file and keep the rest
+ * of the text. Returns false when the file could not be rewritten.
+ */
+export function replaceSecret(target: AuditTarget, oldValue: string, newValue: string): boolean {
+  try {
+    const text = fs.readFileSync(target.path, 'utf-8');
+    fs.writeFileSync(target.path, text.split(oldValue).join(newValue));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Name the secret of a finding is stored under in the credential store:
+ * the finding's platform, the tool (or kind of file) and the variable
+ */
+export function getCredentialName(finding: SecretFinding): { platform: string; tool: string; key: string } {
+  const platform = finding.platform ?? UNKNOWN_PLATFORM;
+  const tool = finding.target.toolId ?? finding.target.kind;
+  const base = (finding.variable ?? 'API_KEY').toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'API_KEY';
+  // Another secret may already be stored under the name
+  let key = base;
+  for (let n = 2; ; n++) {
+    const existing = secureCredentialManager.getCredential(platform, tool, key);
+    if (existing === undefined || existing === finding.value) {
+      return { platform, tool, key };
+    }
+    key = `${base}_${n}`;
+  }
+}
+
+/**
+ * How a finding can be moved out of its file: `reference` replaces the key with
+ * an environment variable reference, which only VS Code settings and shell files
+ * expand; `api-key-helper` lets Claude Code fetch a stored platform key with
+ * `cpa auth print-token`. Other files would keep a literal placeholder, so their
+ * findings are only reported.
+ */
+export type ConversionForm = 'reference' | 'api-key-helper';
+
+export function getConversionForm(finding: SecretFinding): ConversionForm | undefined {
+  const { kind, toolId } = finding.target;
+  if (kind === 'vscode' || kind === 'shell') {
+    return 'reference';
+  }
+  if (kind === 'tool' && toolId === 'claude-code' && finding.platform && platformManager.hasPlatform(finding.platform)) {
+    // Another helper the user set up is left alone
+    const helper = toolManager.getToolConfig('claude-code')?.apiKeyHelper;
+    return !helper || toolManager.usesApiKeyHelper('claude-code') ? 'api-key-helper' : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Text the key is replaced with: a reference to the variable `cpa env export`
+ * sets, in the syntax of VS Code settings or of the shell
+ */
+export function formatReference(finding: SecretFinding, envVar: string): string {
+  return finding.target.kind === 'vscode' ? `\${env:${envVar}}` : `"$${envVar}"`;
+}
+
+/**
+ * Move the secret of a finding into the credential store and replace it in
+ * the file (see getConversionForm). Shell startup files also get a line that
+ * loads the variables from cpa. Returns the rewritten line, or undefined when
+ * the finding cannot be converted, the key is no longer in the file or could
+ * not be stored.
+ */
+export function convertFinding(finding: SecretFinding): string | undefined {
+  const form = getConversionForm(finding);
+  if (form === 'api-key-helper') {
+    const platform = finding.platform!;
+    if (!toolManager.moveClaudeKeyToApiKeyHelper(platform, finding.value)
+      || fs.readFileSync(finding.target.path, 'utf-8').includes(finding.value)) {
+      return undefined;
+    }
+    return `"apiKeyHelper": "${getApiKeyHelperCommand(platform)}"`;
+  }
+  if (!form) {
+    return undefined;
+  }
+
+  const { platform, tool, key } = getCredentialName(finding);
+  const text = fs.readFileSync(finding.target.path, 'utf-8');
+  const lines = text.split('\n');
+  // Earlier conversions in the same file may have moved the line
+  const index = lines[finding.line - 1]?.includes(finding.value)
+    ? finding.line - 1
+    : lines.findIndex(line => line.includes(finding.value));
+  if (index === -1 || !secureCredentialManager.setCredential(platform, tool, key, finding.value, 'env')) {
+    return undefined;
+  }
+
+  const envVar = secureCredentialManager.getEnvVarName(platform, tool, key);
+  const reference = formatReference(finding, envVar);
+  let line = lines[index];
+  if (finding.target.kind === 'shell') {
+    // Quotes around the key would stop the shell from expanding the reference
+    line = line.split(`'${finding.value}'`).join(reference).split(`"${finding.value}"`).join(reference);
+  }
+  const rewritten = line.split(finding.value).join(reference);
+  lines[index] = rewritten;
+
+  if (finding.target.kind === 'shell') {
+    const shell = finding.target.shell ?? 'sh';
+    const loader = formatSourceCommand(`cpa env export ${platform} ${tool} --shell ${shell}`, shell);
+    if (!lines.includes(loader)) {
+      lines.splice(index, 0, loader);
+    }
+  }
+  fs.writeFileSync(finding.target.path, lines.join('\n'));
+  return rewritten;
+}
@@ -3,6 +3,8 @@ import path from 'node:path';
 import os from 'node:os';
 import crypto from 'node:crypto';
 import { logger } from './logger.js';
+import { formatExport, type ShellType } from './shell.js';
+import { configManager } from './config.js';
 
 const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
 const WRAPPER_SCRIPTS_DIR = path.join(CPA_STATE_DIR, 'wrapper-scripts');
@@ -106,10 +108,21 @@ function decrypt(encryptedData: string): string {
 
 class SecureCredentialManager {
   private static instance: SecureCredentialManager;
-  private store: CredentialStore;
+  private loadedStore?: CredentialStore;
 
-  private constructor() {
-    this.store = this.loadStore();
+  private constructor() {}
+
+  // Loaded on first use rather than at import, so a command can route log
+  // output (e.g. to stderr) before any load or migration message is written
+  private get store(): CredentialStore {
+    if (!this.loadedStore) {
+      this.loadedStore = this.loadStore();
+    }
+    return this.loadedStore;
+  }
+
+  private set store(store: CredentialStore) {
+    this.loadedStore = store;
   }
 
   static getInstance(): SecureCredentialManager {
@@ -187,12 +200,15 @@ class SecureCredentialManager {
     try {
       const credentialKey = this.generateCredentialKey(platformId, toolId, key);
       const now = Date.now();
+      // A configured credential helper keeps the value; the store only records the entry
+      const helper = configManager.getCredentialHelper();
+      const storedExternally = !!helper?.store({ platform: platformId, tool: toolId, name: key }, value);
 
       this.store.credentials[credentialKey] = {
         platformId,
         toolId,
         key,
-        value,
+        value: storedExternally ? '' : value,
         storageType,
         createdAt: this.store.credentials[credentialKey]?.createdAt || now,
         updatedAt: now
@@ -215,7 +231,18 @@ class SecureCredentialManager {
 
   getCredential(platformId: string, toolId: string, key: string): string | undefined {
     const credentialKey = this.generateCredentialKey(platformId, toolId, key);
-    return this.store.credentials[credentialKey]?.value;
+    const credential = this.store.credentials[credentialKey];
+    return credential ? this.resolveValue(credential) : undefined;
+  }
+
+  // Value from the credential helper when one is configured and has it, else from the store
+  private resolveValue(credential: CredentialEntry): string {
+    const helperValue = configManager.getCredentialHelper()?.get({
+      platform: credential.platformId,
+      tool: credential.toolId,
+      name: credential.key
+    });
+    return helperValue ?? credential.value;
   }
 
   removeCredential(platformId: string, toolId: string, key: string): boolean {
@@ -230,6 +257,7 @@ class SecureCredentialManager {
       if (credential.storageType === 'wrapper') {
         this.removeWrapperScript(platformId, toolId);
       }
+      configManager.getCredentialHelper()?.erase({ platform: platformId, tool: toolId, name: key });
 
       delete this.store.credentials[credentialKey];
       this.saveStore();
@@ -249,6 +277,21 @@ class SecureCredentialManager {
     return Object.values(this.store.credentials).filter(c => c.platformId === platformId);
   }
 
+  /**
+   * Store a new value for every credential of the platform that holds the old
+   * one, e.g. after the platform key was rotated. Returns the affected tools.
+   */
+  replaceCredentialValue(platformId: string, oldValue: string, newValue: string): string[] {
+    const tools = new Set<string>();
+    for (const credential of this.getAllCredentialsForPlatform(platformId)) {
+      if (this.resolveValue(credential) === oldValue
+        && this.setCredential(platformId, credential.toolId, credential.key, newValue, credential.storageType)) {
+        tools.add(credential.toolId);
+      }
+    }
+    return [...tools];
+  }
+
   clearAllCredentials(): void {
     const toolIds = [...new Set(Object.values(this.store.credentials).map(c => c.toolId))];
     const platformIds = [...new Set(Object.values(this.store.credentials).map(c => c.platformId))];
@@ -279,7 +322,10 @@ class SecureCredentialManager {
     }
   }
 
-  private getEnvVarName(platformId: string, toolId: string, key: string): string {
+  /**
+   * Variable a credential is exported as by `cpa env export`
+   */
+  getEnvVarName(platformId: string, toolId: string, key: string): string {
     const sanitizedPlatform = platformId.toUpperCase().replace(/-/g, '_');
     const sanitizedTool = toolId.toUpperCase().replace(/-/g, '_');
     const sanitizedKey = key.toUpperCase().replace(/-/g, '_');
@@ -402,7 +448,7 @@ REM To use: run "cpa env source ${platformId} ${toolId}" before your command
       const credentials = Object.values(this.store.credentials);
       const envContent = credentials.map(c => {
         const envKey = this.getEnvVarName(c.platformId, c.toolId, c.key);
-        return `${envKey}=${c.value}`;
+        return `${envKey}=${this.resolveValue(c)}`;
       }).join('\n');
 
       fs.writeFileSync(filePath, envContent, 'utf-8');
@@ -413,16 +459,20 @@ REM To use: run "cpa env source ${platformId} ${toolId}" before your command
     }
   }
 
-  // Export credentials to stdout for sourcing (used by wrapper scripts)
-  exportCredentialsForSourcing(platformId: string, toolId: string): string {
-    const credentials = this.getAllCredentialsForTool(toolId).filter(
-      c => c.platformId === platformId
-    );
+  // Environment variables holding a tool's credentials for one platform
+  getCredentialEnvironment(platformId: string, toolId: string): Record<string, string> {
+    const environment: Record<string, string> = {};
+    for (const c of this.getAllCredentialsForTool(toolId).filter(c => c.platformId === platformId)) {
+      environment[this.getEnvVarName(c.platformId, c.toolId, c.key)] = this.resolveValue(c);
+    }
+    return environment;
+  }
 
-    return credentials.map(c => {
-      const envKey = this.getEnvVarName(c.platformId, c.toolId, c.key);
-      return `export ${envKey}="${c.value}"`;
-    }).join('\n');
+  // Export credentials to stdout for sourcing (used by wrapper scripts)
+  exportCredentialsForSourcing(platformId: string, toolId: string, shell: ShellType = 'bash'): string {
+    return Object.entries(this.getCredentialEnvironment(platformId, toolId))
+      .map(([envKey, value]) => formatExport(envKey, value, shell))
+      .join('\n');
   }
 
   isToolUsingSecureStorage(toolId: string, platformId: string): boolean {
@@ -442,7 +492,7 @@ REM To use: run "cpa env source ${platformId} ${toolId}" before your command
     for (const credential of credentials) {
       if (credential.storageType === 'env') {
         const envKey = this.getEnvVarName(credential.platformId, credential.toolId, credential.key);
-        process.env[envKey] = credential.value;
+        process.env[envKey] = this.resolveValue(credential);
       }
     }
   }
@@ -0,0 +1,51 @@
+import path from 'node:path';
+
+export type ShellType = 'bash' | 'zsh' | 'fish' | 'sh';
+
+export const SHELL_TYPES: ShellType[] = ['bash', 'zsh', 'fish', 'sh'];
+
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isShellType(value: string): value is ShellType {
+  return (SHELL_TYPES as string[]).includes(value);
+}
+
+/**
+ * Shell of the current user from $SHELL; anything unknown is treated as POSIX sh
+ */
+export function detectShell(shellPath: string | undefined = process.env.SHELL): ShellType {
+  const name = shellPath ? path.basename(shellPath) : '';
+  return isShellType(name) ? name : 'sh';
+}
+
+/**
+ * Quote a value so the shell reads it back byte for byte, without expanding
+ * variables, globs or command substitutions
+ */
+export function quoteShellValue(value: string, shell: ShellType): string {
+  if (shell === 'fish') {
+    // fish single quotes only treat \' and \\ specially
+    return `'${value.replace(/[\\']/g, '\\$&')}'`;
+  }
+  // POSIX single quotes have no escapes at all, so close, escape and reopen
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Statement exporting one environment variable to child processes of the shell
+ */
+export function formatExport(name: string, value: string, shell: ShellType): string {
+  if (!ENV_VAR_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid environment variable name: ${name}`);
+  }
+  return shell === 'fish'
+    ? `set -gx ${name} ${quoteShellValue(value, shell)}`
+    : `export ${name}=${quoteShellValue(value, shell)}`;
+}
+
+/**
+ * Command that evaluates the output of `command` in the current shell
+ */
+export function formatSourceCommand(command: string, shell: ShellType): string {
+  return shell === 'fish' ? `${command} | source` : `eval "$(${command})"`;
+}
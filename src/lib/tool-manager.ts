@@ -4,90 +4,17 @@ import os from 'node:os';
 import { execSync, execFileSync } from 'node:child_process';
 import type { ToolInfo, PlatformId } from '../types/tools.js';
 import type { ToolConfig, PlanType } from '../types/platform.js';
+import type { ResolvedCredentials } from '../types/config.js';
+import type { ProviderProtocol } from '../types/provider.js';
 import { configManager } from './config.js';
 import { platformManager } from './platform-manager.js';
 import { logger } from './logger.js';
 import { secureCredentialManager } from './secure-credential-manager.js';
-
-const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
-const TOOL_BACKUP_FILE = path.join(CPA_STATE_DIR, 'tool-backups.json');
-
-const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
-  'claude-code': {
-    id: 'claude-code',
-    name: 'Claude Code',
-    command: 'claude',
-    installCommand: 'npm install -g @anthropic-ai/claude-code',
-    configPath: path.join(os.homedir(), '.claude', 'settings.json'),
-    displayName: 'Claude Code',
-    supported: true
-  },
-  'cursor': {
-    id: 'cursor',
-    name: 'Cursor',
-    command: 'cursor',
-    installCommand: 'cursor --version || echo "Install from https://cursor.sh"',
-    configPath: path.join(os.homedir(), '.cursor', 'settings.json'),
-    displayName: 'Cursor',
-    supported: true
-  },
-  'cline': {
-    id: 'cline',
-    name: 'Cline',
-    command: 'code --list-extensions | grep -i cline',
-    installCommand: 'code --install-extension abc.cline',
-    configPath: '', // VS Code workspace settings.json
-    displayName: 'Cline (VS Code)',
-    supported: true
-  },
-  'roo-code': {
-    id: 'roo-code',
-    name: 'Roo Code',
-    command: 'code --list-extensions | grep -i "roo code"',
-    installCommand: 'code --install-extension roovetterinc.roo-code',
-    configPath: '', // VS Code workspace settings.json
-    displayName: 'Roo Code (VS Code)',
-    supported: true
-  },
-  'kilo-code': {
-    id: 'kilo-code',
-    name: 'Kilo Code',
-    command: 'code --list-extensions | grep -i "kilo code"',
-    installCommand: 'code --install-extension kilinc.kilo-code',
-    configPath: '', // VS Code workspace settings.json
-    displayName: 'Kilo Code (VS Code)',
-    supported: true
-  },
-  'opencode': {
-    id: 'opencode',
-    name: 'OpenCode',
-    command: 'opencode --version',
-    installCommand: 'npm install -g opencode',
-    configPath: path.join(os.homedir(), '.opencode', 'config.json'),
-    displayName: 'OpenCode',
-    supported: true
-  },
-  'factory-droid': {
-    id: 'factory-droid',
-    name: 'Factory Droid',
-    command: 'droid --version',
-    installCommand: 'curl -fsSL https://app.factory.ai/cli | sh',
-    configPath: path.join(os.homedir(), '.factory', 'config.json'),
-    displayName: 'Factory Droid',
-    supported: true
-  }
-};
-
-const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
-const TOOL_BACKUP_FILE = path.join(CPA_STATE_DIR, 'tool-backups.json');
-
-interface LegacyClaudeBackup {
-  env?: Record<string, string>;
-}
-
-interface ToolBackups {
-  toolConfigs?: Record<string, any>;
-}
+import { toolRegistry } from './tool-registry.js';
+import { modelCatalog } from './model-catalog.js';
+import { GATEWAY_HOST } from './gateway.js';
+import { getMeterBaseUrl } from './meter.js';
+import { DEFAULT_BRIDGE_PORT, getBridgeBaseUrl, getBridgeTarget } from './bridge.js';
 
 // Shell metacharacters that require shell interpretation
 const SHELL_METACHARACTERS = /[;&|`$(){}[\]<>\\!#*?"'\n\r]/;
@@ -164,6 +91,7 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'npm install -g @anthropic-ai/claude-code',
     configPath: path.join(os.homedir(), '.claude', 'settings.json'),
     displayName: 'Claude Code',
+    protocol: 'anthropic',
     supported: true
   },
   'cursor': {
@@ -173,6 +101,7 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'cursor --version || echo "Install from https://cursor.sh"',
     configPath: path.join(os.homedir(), '.cursor', 'settings.json'),
     displayName: 'Cursor',
+    protocol: 'openai',
     supported: true
   },
   'cline': {
@@ -182,6 +111,7 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension abc.cline',
     configPath: '', // VS Code workspace settings.json
     displayName: 'Cline (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'roo-code': {
@@ -191,6 +121,7 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension roovetterinc.roo-code',
     configPath: '', // VS Code workspace settings.json
     displayName: 'Roo Code (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'kilo-code': {
@@ -200,6 +131,7 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension kilinc.kilo-code',
     configPath: '', // VS Code workspace settings.json
     displayName: 'Kilo Code (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'opencode': {
@@ -209,6 +141,7 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'npm install -g opencode',
     configPath: path.join(os.homedir(), '.opencode', 'config.json'),
     displayName: 'OpenCode',
+    protocol: 'anthropic',
     supported: true
   },
   'factory-droid': {
@@ -218,6 +151,27 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
     installCommand: 'curl -fsSL https://app.factory.ai/cli | sh',
     configPath: path.join(os.homedir(), '.factory', 'config.json'),
     displayName: 'Factory Droid',
+    protocol: 'anthropic',
+    supported: true
+  },
+  'continue': {
+    id: 'continue',
+    name: 'Continue',
+    command: 'code --list-extensions | grep -i continue',
+    installCommand: 'code --install-extension continue.continue',
+    configPath: path.join(os.homedir(), '.continue', 'config.json'),
+    displayName: 'Continue (VS Code)',
+    protocol: 'anthropic',
+    supported: true
+  },
+  'zed-ai': {
+    id: 'zed-ai',
+    name: 'Zed AI',
+    command: 'zed --version',
+    installCommand: 'curl -fsSL https://zed.dev/install | sh',
+    configPath: path.join(os.homedir(), '.config', 'zed', 'settings.json'),
+    displayName: 'Zed AI',
+    protocol: 'anthropic',
     supported: true
   }
 };
@@ -225,6 +179,34 @@ const SUPPORTED_TOOLS: Record<string, ToolInfo> = {
 const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
 const TOOL_BACKUP_FILE = path.join(CPA_STATE_DIR, 'tool-backups.json');
 
+// Limits written for models the model catalog has no metadata for
+const DEFAULT_CONTEXT_LENGTH = 128000;
+const DEFAULT_MAX_OUTPUT_TOKENS = 64000;
+
+// Credential the key is stored under for `cpa auth print-token`
+export const API_KEY_HELPER_CREDENTIAL = 'ANTHROPIC_AUTH_TOKEN';
+const API_KEY_HELPER_COMMAND = 'cpa auth print-token';
+
+/**
+ * Command Claude Code runs as `apiKeyHelper` to get the platform key
+ */
+export function getApiKeyHelperCommand(platformId: string, profile?: string): string {
+  return profile ? `${API_KEY_HELPER_COMMAND} ${platformId} --profile ${profile}` : `${API_KEY_HELPER_COMMAND} ${platformId}`;
+}
+
+// Platform of an apiKeyHelper command written by cpa, or undefined for any other value
+function parseApiKeyHelperCommand(command: unknown): string | undefined {
+  if (typeof command !== 'string' || !command.startsWith(API_KEY_HELPER_COMMAND + ' ')) {
+    return undefined;
+  }
+  return command.slice(API_KEY_HELPER_COMMAND.length + 1).split(' ')[0] || undefined;
+}
+
+// A Zed model entry updateZedConfig added, labelled `<model> (<platform>)`
+function isPlatformModel(model: Record<string, unknown>, platformId: string): boolean {
+  return typeof model.display_name === 'string' && model.display_name.endsWith(` (${platformId})`);
+}
+
 interface LegacyClaudeBackup {
   env?: Record<string, string>;
 }
@@ -398,85 +380,42 @@ class ToolManager {
     return true;
   }
 
-  loadPlatformConfig(toolId: string, platformId: PlatformId): boolean {
-    const tool = SUPPORTED_TOOLS[toolId];
-    if (!tool) {
-      logger.error(`Tool not found: ${toolId}`);
-      return false;
-    }
-
-    const apiKey = configManager.getApiKey(platformId);
-    const plan = configManager.getPlan();
-    const endpoint = configManager.getEndpoint(platformId);
-
-    if (!apiKey) {
-      logger.error(`API key not set for ${platformId}`);
-      return false;
-    }
-
-    const toolConfig = platformManager.getToolConfig(platformId, plan, apiKey, endpoint || '');
-    if (!toolConfig) {
-      logger.error(`Failed to get tool config for ${platformId}`);
-      return false;
-    }
-  }
-
-  getToolConfig(toolId: string): any | undefined {
-    const tool = SUPPORTED_TOOLS[toolId];
-    if (!tool || !tool.configPath) return undefined;
-
-    try {
-      if (fs.existsSync(tool.configPath)) {
-        const content = fs.readFileSync(tool.configPath, 'utf-8');
-        return JSON.parse(content);
-      }
-    } catch (error) {
-      logger.warning(`Failed to read config for ${tool.name}`);
-    }
-    return undefined;
+  /**
+   * Whether the tool gets its key from a `cpa auth print-token` apiKeyHelper
+   */
+  usesApiKeyHelper(toolId: string): boolean {
+    return parseApiKeyHelperCommand(this.getToolConfig(toolId)?.apiKeyHelper) !== undefined;
   }
 
-  updateToolConfig(toolId: string, config: any): boolean {
-    const tool = SUPPORTED_TOOLS[toolId];
-    if (!tool || !tool.configPath) return false;
-
-    try {
-      const configDir = path.dirname(tool.configPath);
-      if (!fs.existsSync(configDir)) {
-        fs.mkdirSync(configDir, { recursive: true });
-      }
-
-      const existing: any = {};
-      if (fs.existsSync(tool.configPath)) {
-        const content = fs.readFileSync(tool.configPath, 'utf-8');
-        Object.assign(existing, JSON.parse(content));
-      }
-
-      const merged = { ...existing, ...config };
-      fs.writeFileSync(tool.configPath, JSON.stringify(merged, null, 2));
-      return true;
-    } catch (error) {
-      logger.error(`Failed to update config for ${tool.name}: ${error}`);
+  // Store the key for `cpa auth print-token` and write only the non-secret settings
+  private setupClaudeApiKeyHelper(platformId: PlatformId, profile: string | undefined, apiKey: string, env: Record<string, string> = {}): boolean {
+    if (!secureCredentialManager.setCredential(platformId, 'claude-code', API_KEY_HELPER_CREDENTIAL, apiKey, 'env')) {
       return false;
     }
+    // Platforms may set the key in several variables (ANTHROPIC_AUTH_TOKEN, OPENAI_API_KEY)
+    const publicEnv = Object.fromEntries(Object.entries(env).filter(([, value]) => !value.includes(apiKey)));
+    return this.updateToolConfig('claude-code', { env: publicEnv, apiKeyHelper: getApiKeyHelperCommand(platformId, profile) });
   }
 
-  private replaceToolConfig(toolId: string, config: any): boolean {
-    const tool = SUPPORTED_TOOLS[toolId];
-    if (!tool || !tool.configPath) return false;
-
-    try {
-      const configDir = path.dirname(tool.configPath);
-      if (!fs.existsSync(configDir)) {
-        fs.mkdirSync(configDir, { recursive: true });
-      }
+  /**
+   * Move a key found in the Claude Code settings behind a `cpa auth print-token`
+   * apiKeyHelper; the other settings are kept
+   */
+  moveClaudeKeyToApiKeyHelper(platformId: PlatformId, apiKey: string): boolean {
+    const config = this.getToolConfig('claude-code');
+    return !!config && this.setupClaudeApiKeyHelper(platformId, undefined, apiKey, config.env);
+  }
 
-      fs.writeFileSync(tool.configPath, JSON.stringify(config, null, 2));
+  // Drop an apiKeyHelper written by cpa, and the key stored for it. Other helpers are kept.
+  private removeClaudeApiKeyHelper(): boolean {
+    const config = this.getToolConfig('claude-code');
+    const platformId = parseApiKeyHelperCommand(config?.apiKeyHelper);
+    if (!platformId) {
       return true;
-    } catch (error) {
-      logger.error(`Failed to replace config for ${tool.name}: ${error}`);
-      return false;
     }
+    secureCredentialManager.removeCredential(platformId, 'claude-code', API_KEY_HELPER_CREDENTIAL);
+    const { apiKeyHelper: _apiKeyHelper, ...rest } = config;
+    return this.replaceToolConfig('claude-code', rest);
   }
 
   private setupSecureEnvConfig(
@@ -745,6 +684,21 @@ class ToolManager {
     }
   }
 
+  /**
+   * User settings file of VS Code, where the extension tools keep their config
+   */
+  getVSCodeSettingsPath(): string | undefined {
+    const home = os.homedir();
+    switch (process.platform) {
+      case 'darwin':
+        return path.join(home, 'Library', 'Application Support', 'Code', 'User', 'settings.json');
+      case 'win32':
+        return process.env.APPDATA ? path.join(process.env.APPDATA, 'Code', 'User', 'settings.json') : undefined;
+      default:
+        return path.join(home, '.config', 'Code', 'User', 'settings.json');
+    }
+  }
+
   private getExtensionConfigWithEnvRefs(
     toolId: string,
     toolConfig: ToolConfig,
@@ -789,75 +743,76 @@ class ToolManager {
     }
   }
 
-  private readBackups(): ToolBackups {
-    try {
-      if (!fs.existsSync(TOOL_BACKUP_FILE)) {
-        return {};
-      }
-      const content = fs.readFileSync(TOOL_BACKUP_FILE, 'utf-8');
-      return JSON.parse(content) as ToolBackups;
-    } catch {
-      return {};
-    }
-  }
-
-  private writeBackups(backups: ToolBackups): void {
-    if (!fs.existsSync(CPA_STATE_DIR)) {
-      fs.mkdirSync(CPA_STATE_DIR, { recursive: true });
+  /**
+   * Write platform settings into a tool. With a profile, its platform, plan,
+   * endpoint, key and tier map are used instead of the platform's defaults.
+   * In gateway mode the tool is pointed at the local gateway with a placeholder
+   * key, and the gateway holds the real keys. In meter and bridge mode the tool
+   * keeps the real key but sends its requests through the local metering proxy
+   * or protocol bridge. Tools whose protocol the platform lacks use the bridge.
+   * With `apiKeyHelper`, Claude Code is given a `cpa auth print-token` command
+   * instead of the key, which is kept in the secure credential store.
+   */
+  loadPlatformConfig(
+    toolId: string,
+    platformId: PlatformId,
+    options: {
+      profile?: string;
+      password?: string;
+      gateway?: { port: number };
+      meter?: { port: number };
+      bridge?: { port: number };
+      apiKeyHelper?: boolean;
+    } = {}
+  ): boolean {
+    const tool = SUPPORTED_TOOLS[toolId];
+    if (!tool) {
+      logger.error(`Tool not found: ${toolId}`);
+      return false;
     }
-    fs.writeFileSync(TOOL_BACKUP_FILE, JSON.stringify(backups, null, 2));
-  }
-
-  private backupToolConfigIfNeeded(toolId: string): void {
-    const backups = this.readBackups();
-    backups.toolConfigs = backups.toolConfigs || {};
-
-    if (Object.prototype.hasOwnProperty.call(backups.toolConfigs, toolId)) {
-      return;
+    if (options.apiKeyHelper && (toolId !== 'claude-code' || options.gateway)) {
+      logger.error('apiKeyHelper mode is only available for Claude Code with a platform key');
+      return false;
     }
-
-    const current = this.getToolConfig(toolId) || {};
-    backups.toolConfigs[toolId] = current;
-    this.writeBackups(backups);
-  }
-
-  private restoreToolConfigFromBackup(toolId: string): boolean {
-    const backups = this.readBackups();
-    const backupConfig = backups.toolConfigs && backups.toolConfigs[toolId];
-
-    if (backupConfig === undefined) {
-      return this.replaceToolConfig(toolId, {});
+    if (options.gateway && tool.protocol !== 'anthropic') {
+      logger.error(`${tool.name} speaks the ${tool.protocol} protocol; the gateway only serves the Anthropic Messages API`);
+      return false;
     }
 
-    const restored = this.replaceToolConfig(toolId, backupConfig);
-    if (!restored) {
+    let credentials: ResolvedCredentials;
+    try {
+      credentials = configManager.resolveCredentials(platformId, options.profile);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
       return false;
     }
-
-    if (backups.toolConfigs) {
-      delete backups.toolConfigs[toolId];
+    platformId = credentials.platform;
+    const apiKey = options.gateway ? configManager.getGatewayToken() : configManager.decryptCredentials(credentials, options.password);
+    const endpoint = options.gateway ? `http://${GATEWAY_HOST}:${options.gateway.port}` : credentials.endpoint;
+
+    const protocol: ProviderProtocol = tool.protocol || 'anthropic';
+    const platform = platformManager.getPlatform(platformId);
+    let bridgePort = options.bridge?.port;
+    if (bridgePort === undefined && !options.gateway && !options.meter && platform
+      && !platform.supportsProtocol(protocol) && platform.supportsProtocol(getBridgeTarget(protocol))) {
+      bridgePort = configManager.getBridgeConfig().port ?? DEFAULT_BRIDGE_PORT;
+      logger.info(`${platform.name} has no ${protocol}-compatible endpoint; pointing ${tool.name} at the protocol bridge (start it with 'cpa bridge')`);
     }
-    this.writeBackups(backups);
-    return true;
-  }
-
-  loadPlatformConfig(toolId: string, platformId: PlatformId): boolean {
-    const tool = SUPPORTED_TOOLS[toolId];
-    if (!tool) {
-      logger.error(`Tool not found: ${toolId}`);
+    if (bridgePort !== undefined && platform && !platform.supportsProtocol(getBridgeTarget(protocol))) {
+      logger.error(`${platform.name} has no ${getBridgeTarget(protocol)}-compatible endpoint for the bridge to translate to`);
       return false;
     }
-
-    const apiKey = configManager.getApiKey(platformId);
-    const plan = configManager.getPlan();
-    const endpoint = configManager.getEndpoint(platformId);
+    const baseUrls: Partial<Record<ProviderProtocol, string>> | undefined = bridgePort !== undefined
+      ? { [protocol]: getBridgeBaseUrl(bridgePort, protocol) }
+      : options.meter ? { [protocol]: getMeterBaseUrl(options.meter.port, toolId, protocol) } : undefined;
+    const source = credentials.profile ? `profile '${credentials.profile}'` : platformId;
 
     if (!apiKey) {
-      logger.error(`API key not set for ${platformId}`);
+      logger.error(`API key not set for ${source}`);
       return false;
     }
 
-    const toolConfig = platformManager.getToolConfig(platformId, plan, apiKey, endpoint || '');
+    const toolConfig = platformManager.getToolConfig(platformId, credentials.plan, apiKey, endpoint || '', tool.protocol, credentials.models, baseUrls);
     if (!toolConfig) {
       logger.error(`Failed to get tool config for ${platformId}`);
       logger.debug(`Tool config retrieval failed for tool: ${toolId}, platform: ${platformId}`);
@@ -870,19 +825,84 @@ class ToolManager {
 
     switch (toolId) {
       case 'claude-code':
+        this.backupToolConfigIfNeeded(toolId);
+        // A helper left from an earlier load would be asked instead of the key in the file
+        if (!this.removeClaudeApiKeyHelper()) {
+          return false;
+        }
+        return options.apiKeyHelper
+          ? this.setupClaudeApiKeyHelper(platformId, credentials.profile, apiKey, toolConfig.env)
+          : this.updateToolConfig(toolId, { env: toolConfig.env });
       case 'cursor':
       case 'opencode':
         this.backupToolConfigIfNeeded(toolId);
         return this.updateToolConfig(toolId, { env: toolConfig.env });
       case 'factory-droid':
-        return this.updateFactoryDroidConfig(toolConfig);
+        return this.updateFactoryDroidConfig(platformId, toolConfig);
+      case 'continue':
+        return this.updateContinueConfig(platformId, toolConfig);
+      case 'zed-ai':
+        return this.updateZedConfig(platformId, toolConfig);
       default:
         logger.warning(`Load config not implemented for ${tool.name}`);
         return false;
     }
   }
 
-  private updateFactoryDroidConfig(toolConfig: ToolConfig): boolean {
+  /**
+   * Binary that starts the tool, taken from its detection command. Tools that
+   * are editor extensions or run in the browser have none.
+   */
+  getLaunchCommand(toolId: string): string | undefined {
+    const tool = this.getTool(toolId);
+    if (!tool || tool.command.includes('|')) {
+      return undefined;
+    }
+    const binary = tool.command.trim().split(/\s+/)[0];
+    return binary && binary !== 'echo' && binary !== 'code' ? binary : undefined;
+  }
+
+  /**
+   * Environment variables that point a tool at a platform for a single run,
+   * computed like loadPlatformConfig but without writing any file. `model`
+   * replaces the platform's main (sonnet tier) model.
+   */
+  getLaunchEnvironment(
+    toolId: string,
+    platformId: PlatformId,
+    options: { password?: string; model?: string } = {}
+  ): Record<string, string> | undefined {
+    const tool = this.getTool(toolId);
+    if (!tool) {
+      logger.error(`Tool not found: ${toolId}`);
+      return undefined;
+    }
+
+    const credentials = configManager.resolveCredentials(platformId);
+    const apiKey = configManager.decryptCredentials(credentials, options.password);
+    if (!apiKey) {
+      logger.error(`API key not set for ${platformId}`);
+      return undefined;
+    }
+
+    const tiers = options.model ? { ...credentials.models, sonnet: options.model } : credentials.models;
+    const toolConfig = platformManager.getToolConfig(platformId, credentials.plan, apiKey, credentials.endpoint || '', tool.protocol, tiers);
+    if (!toolConfig) {
+      logger.error(`Failed to get tool config for ${platformId}`);
+      return undefined;
+    }
+    return toolConfig.env || {};
+  }
+
+  private getModelLimits(platformId: PlatformId, model: string): { contextLength: number; maxOutputTokens: number } {
+    const info = modelCatalog.getModelInfo(platformId, model);
+    return {
+      contextLength: info?.contextLength || DEFAULT_CONTEXT_LENGTH,
+      maxOutputTokens: info?.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS
+    };
+  }
+
+  private updateFactoryDroidConfig(platformId: PlatformId, toolConfig: ToolConfig): boolean {
     try {
       const configPath = path.join(os.homedir(), '.factory', 'config.json');
       const configDir = path.dirname(configPath);
@@ -897,25 +917,28 @@ class ToolManager {
         existing = JSON.parse(content) as Record<string, unknown>;
       }
 
-      const customModel = {
-        model_display_name: toolConfig.model,
-        model: toolConfig.model,
-        base_url: toolConfig.baseUrl,
-        api_key: toolConfig.apiKey,
-        provider: 'anthropic',
-        max_tokens: 64000
-      };
-
-      // Check if model already exists
+      // Droid has no tier slots, so register every distinct model of the tier map
       const customModels = (existing.custom_models as Array<Record<string, unknown>>) || [];
-      const index = customModels.findIndex(
-        (m: Record<string, unknown>) => m.model === customModel.model
-      );
+      for (const model of new Set(Object.values(toolConfig.models))) {
+        const customModel = {
+          model_display_name: model,
+          model,
+          base_url: toolConfig.baseUrl,
+          api_key: toolConfig.apiKey,
+          provider: toolConfig.protocol === 'anthropic' ? 'anthropic' : 'generic-chat-completion-api',
+          max_tokens: this.getModelLimits(platformId, model).maxOutputTokens
+        };
 
-      if (index >= 0) {
-        customModels[index] = customModel;
-      } else {
-        customModels.push(customModel);
+        // Check if model already exists
+        const index = customModels.findIndex(
+          (m: Record<string, unknown>) => m.model === customModel.model
+        );
+
+        if (index >= 0) {
+          customModels[index] = customModel;
+        } else {
+          customModels.push(customModel);
+        }
       }
 
       existing.custom_models = customModels;
@@ -927,26 +950,156 @@ class ToolManager {
     }
   }
 
+  /**
+   * Add one Continue model entry per distinct tier model, replacing earlier entries for the same models
+   */
+  private updateContinueConfig(platformId: PlatformId, toolConfig: ToolConfig): boolean {
+    const existing = this.getToolConfig('continue') || {};
+    const tierModels = [...new Set(Object.values(toolConfig.models))];
+
+    const entries = tierModels.map(model => {
+      const limits = this.getModelLimits(platformId, model);
+      return {
+        title: `${model} (${platformId})`,
+        provider: toolConfig.protocol === 'anthropic' ? 'anthropic' : 'openai',
+        model,
+        apiKey: toolConfig.apiKey,
+        apiBase: toolConfig.baseUrl,
+        contextLength: limits.contextLength,
+        completionOptions: { maxTokens: limits.maxOutputTokens }
+      };
+    });
+    const models = Array.isArray(existing.models) ? existing.models as Array<Record<string, unknown>> : [];
+    const kept = models.filter(m => !tierModels.includes(m.model as string));
+
+    return this.updateToolConfig('continue', { models: [...kept, ...entries] });
+  }
+
+  /**
+   * Point Zed's Anthropic or OpenAI language model provider at the platform.
+   * Zed does not read API keys from settings.json, so only the URL and models are written.
+   */
+  private updateZedConfig(platformId: PlatformId, toolConfig: ToolConfig): boolean {
+    const configPath = SUPPORTED_TOOLS['zed-ai'].configPath;
+    const existing = this.getToolConfig('zed-ai');
+    if (!existing && fs.existsSync(configPath)) {
+      // Zed settings may contain comments; refuse to overwrite a file we cannot parse
+      logger.error(`Cannot parse ${configPath}; remove comments or add the language_models entry manually`);
+      return false;
+    }
+
+    const providerKey = toolConfig.protocol === 'anthropic' ? 'anthropic' : 'openai';
+    const languageModels = { ...(existing?.language_models || {}) };
+    const provider = languageModels[providerKey] || {};
+    // The user's own models stay; this platform's models from an earlier load are replaced
+    const ownModels = Array.isArray(provider.available_models)
+      ? provider.available_models.filter((m: Record<string, unknown>) => !isPlatformModel(m, platformId))
+      : [];
+    languageModels[providerKey] = {
+      ...provider,
+      api_url: toolConfig.baseUrl,
+      available_models: [...ownModels, ...[...new Set(Object.values(toolConfig.models))].map(model => {
+        const limits = this.getModelLimits(platformId, model);
+        return {
+          name: model,
+          display_name: `${model} (${platformId})`,
+          max_tokens: limits.contextLength,
+          max_output_tokens: limits.maxOutputTokens
+        };
+      })]
+    };
+
+    const updated = this.updateToolConfig('zed-ai', { language_models: languageModels });
+    if (updated) {
+      const keyVar = providerKey === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY';
+      logger.info(`Zed reads the API key from ${keyVar} or its agent panel settings`);
+    }
+    return updated;
+  }
+
   unloadPlatformConfig(toolId: string, platformId: PlatformId): boolean {
     const tool = SUPPORTED_TOOLS[toolId];
     if (!tool) return false;
 
-    const toolConfig = platformManager.getToolConfig(platformId, 'global', '', '');
+    const tiers = configManager.getModelTiers(platformId);
+    const toolConfig = platformManager.getToolConfig(platformId, 'global', '', '', tool.protocol, tiers);
     if (!toolConfig) return false;
 
     switch (toolId) {
       case 'claude-code':
+        return this.removeClaudeApiKeyHelper() && this.restoreToolConfigFromBackup(toolId);
       case 'cursor':
       case 'opencode':
         return this.restoreToolConfigFromBackup(toolId);
+      case 'continue':
+        return this.removeContinueModels(platformId);
+      case 'zed-ai':
+        return this.removeZedModels(platformId);
       case 'factory-droid':
-        return this.removeFactoryDroidModel(toolConfig?.model || '');
+        return this.removeFactoryDroidModels(Object.values(toolConfig.models));
       default:
         return false;
     }
   }
 
-  private removeFactoryDroidModel(model: string): boolean {
+  // Continue's models titled `<model> (<platform>)` by updateContinueConfig; the rest of the config is kept
+  private removeContinueModels(platformId: PlatformId): boolean {
+    const config = this.getToolConfig('continue');
+    if (!config || !Array.isArray(config.models)) {
+      return true;
+    }
+    const suffix = ` (${platformId})`;
+    const models = (config.models as Array<Record<string, unknown>>)
+      .filter(m => !(typeof m.title === 'string' && m.title.endsWith(suffix)));
+    return this.replaceToolConfig('continue', { ...config, models });
+  }
+
+  /**
+   * Drop the models and api_url updateZedConfig added for the platform. Zed's
+   * settings.json holds the whole editor configuration, so other provider
+   * fields and models stay, and a provider is only removed once it is empty.
+   */
+  private removeZedModels(platformId: PlatformId): boolean {
+    const configPath = SUPPORTED_TOOLS['zed-ai'].configPath;
+    const config = this.getToolConfig('zed-ai');
+    if (!config) {
+      if (fs.existsSync(configPath)) {
+        logger.error(`Cannot parse ${configPath}; remove the language_models entry manually`);
+        return false;
+      }
+      return true;
+    }
+    const languageModels = { ...(config.language_models || {}) };
+    for (const providerKey of ['anthropic', 'openai']) {
+      const provider = languageModels[providerKey];
+      const models = provider?.available_models;
+      if (!Array.isArray(models) || !models.some((m: Record<string, unknown>) => isPlatformModel(m, platformId))) {
+        continue;
+      }
+      // The api_url was written together with the platform's models
+      const remaining = { ...provider };
+      delete remaining.api_url;
+      const ownModels = models.filter((m: Record<string, unknown>) => !isPlatformModel(m, platformId));
+      if (ownModels.length > 0) {
+        remaining.available_models = ownModels;
+      } else {
+        delete remaining.available_models;
+      }
+      if (Object.keys(remaining).length > 0) {
+        languageModels[providerKey] = remaining;
+      } else {
+        delete languageModels[providerKey];
+      }
+    }
+    if (Object.keys(languageModels).length > 0) {
+      config.language_models = languageModels;
+    } else {
+      delete config.language_models;
+    }
+    return this.replaceToolConfig('zed-ai', config);
+  }
+
+  private removeFactoryDroidModels(models: string[]): boolean {
     try {
       const configPath = path.join(os.homedir(), '.factory', 'config.json');
       if (!fs.existsSync(configPath)) return true;
@@ -956,7 +1109,7 @@ class ToolManager {
 
       if (config.custom_models && Array.isArray(config.custom_models)) {
         config.custom_models = (config.custom_models as Array<Record<string, unknown>>).filter(
-          (m: Record<string, unknown>) => m.model !== model
+          (m: Record<string, unknown>) => !models.includes(m.model as string)
         );
       }
 
@@ -1,6 +1,7 @@
 import type { PlatformId, ToolConfig as ToolConfigType } from '../types/config.js';
 import { configManager } from './config.js';
 import { platformManager } from './platform-manager.js';
+import { modelCatalog } from './model-catalog.js';
 import { logger } from './logger.js';
 
 class ToolPlatformConfig {
@@ -37,7 +38,9 @@ class ToolPlatformConfig {
       return undefined;
     }
 
-    return platformManager.getToolConfig(platformId, plan as 'global' | 'china', apiKey, endpoint || '');
+    const tiers = configManager.getModelTiers(platformId);
+    const protocol = platformManager.getPlatform(platformId)?.protocols[0];
+    return platformManager.getToolConfig(platformId, plan as 'global' | 'china', apiKey, endpoint || '', protocol, tiers);
   }
 
   isConfigured(platformId: PlatformId): boolean {
@@ -46,8 +49,7 @@ class ToolPlatformConfig {
   }
 
   getConfiguredPlatforms(): PlatformId[] {
-    const platformIds: PlatformId[] = ['glm', 'minimax'];
-    return platformIds.filter(id => this.isConfigured(id));
+    return platformManager.getPlatformIds().filter(id => this.isConfigured(id));
   }
 
   validatePlatform(platformId: PlatformId): Promise<boolean> {
@@ -55,7 +57,7 @@ class ToolPlatformConfig {
     if (!apiKey) {
       return Promise.resolve(false);
     }
-    return platformManager.validateApiKey(platformId, apiKey);
+    return platformManager.validateApiKey(platformId, apiKey, configManager.getPlan()).then(result => result.valid);
   }
 
   getApiDocsUrl(platformId: PlatformId): string {
@@ -63,8 +65,7 @@ class ToolPlatformConfig {
   }
 
   getModels(platformId: PlatformId): string[] {
-    const platform = platformManager.getPlatform(platformId);
-    return platform?.models || [];
+    return modelCatalog.getModels(platformId);
   }
 
   getDefaultModel(platformId: PlatformId): string | undefined {
@@ -11,6 +11,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'npm install -g @anthropic-ai/claude-code',
     configPath: path.join(os.homedir(), '.claude', 'settings.json'),
     displayName: 'Claude Code',
+    protocol: 'anthropic',
     supported: true
   },
   'cursor': {
@@ -20,6 +21,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'cursor --version || echo "Install from https://cursor.sh"',
     configPath: path.join(os.homedir(), '.cursor', 'settings.json'),
     displayName: 'Cursor',
+    protocol: 'openai',
     supported: true
   },
   'cline': {
@@ -29,6 +31,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension abc.cline',
     configPath: '',
     displayName: 'Cline (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'roo-code': {
@@ -38,6 +41,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension roovetterinc.roo-code',
     configPath: '',
     displayName: 'Roo Code (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'kilo-code': {
@@ -47,6 +51,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension kilinc.kilo-code',
     configPath: '',
     displayName: 'Kilo Code (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'opencode': {
@@ -56,6 +61,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'npm install -g opencode',
     configPath: path.join(os.homedir(), '.opencode', 'config.json'),
     displayName: 'OpenCode',
+    protocol: 'anthropic',
     supported: true
   },
   'factory-droid': {
@@ -65,6 +71,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'curl -fsSL https://app.factory.ai/cli | sh',
     configPath: path.join(os.homedir(), '.factory', 'config.json'),
     displayName: 'Factory Droid',
+    protocol: 'anthropic',
     supported: true
   },
   'windsurf': {
@@ -74,6 +81,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'echo "Install from https://windsurf.com"',
     configPath: path.join(os.homedir(), '.windsurf', 'config.json'),
     displayName: 'Windsurf',
+    protocol: 'openai',
     supported: true
   },
   'zed-ai': {
@@ -83,6 +91,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'curl -fsSL https://zed.dev/install | sh',
     configPath: path.join(os.homedir(), '.config', 'zed', 'settings.json'),
     displayName: 'Zed AI',
+    protocol: 'anthropic',
     supported: true
   },
   'copilot': {
@@ -92,6 +101,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'gh extension install github/copilot-cli',
     configPath: path.join(os.homedir(), '.github-copilot'),
     displayName: 'GitHub Copilot',
+    protocol: 'openai',
     supported: true
   },
   'aider': {
@@ -101,6 +111,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'pip install aider',
     configPath: path.join(os.homedir(), '.aider.conf.json'),
     displayName: 'Aider',
+    protocol: 'openai',
     supported: true
   },
   'codeium': {
@@ -110,6 +121,7 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     installCommand: 'code --install-extension codeium.codeium',
     configPath: '',
     displayName: 'Codeium (VS Code)',
+    protocol: 'openai',
     supported: true
   },
   'continue': {
@@ -117,8 +129,9 @@ const TOOL_DEFINITIONS: Record<string, ToolInfo> = {
     name: 'Continue',
     command: 'code --list-extensions | grep -i continue',
     installCommand: 'code --install-extension continue.continue',
-    configPath: '',
+    configPath: path.join(os.homedir(), '.continue', 'config.json'),
     displayName: 'Continue (VS Code)',
+    protocol: 'anthropic',
     supported: true
   },
   'bolt-new': {
@@ -0,0 +1,87 @@
+import type { UsageReport, UsageWindow } from '../types/platform.js';
+import type { ProviderUsageSource, ProviderUsageWindows } from '../types/provider.js';
+
+/**
+ * Read a dotted path (e.g. `data.limits` or `balance_infos.0.total_balance`) from a parsed response
+ */
+export function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+// Epoch milliseconds or a date string
+function toIsoTime(value: unknown): string | undefined {
+  const ms = toNumber(value) ?? (typeof value === 'string' ? Date.parse(value) : undefined);
+  return ms && ms > 0 ? new Date(ms).toISOString() : undefined;
+}
+
+function withRemaining(window: UsageWindow): UsageWindow {
+  if (window.remaining === undefined && window.limit !== undefined && window.used !== undefined) {
+    return { ...window, remaining: Math.max(window.limit - window.used, 0) };
+  }
+  return window;
+}
+
+function mapWindows(body: unknown, mapping: ProviderUsageWindows): UsageWindow[] {
+  const entries = readPath(body, mapping.path);
+  if (entries === undefined) {
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`unexpected usage response: '${mapping.path}' is not a list`);
+  }
+  const field = (entry: unknown, path?: string) => (path ? readPath(entry, path) : undefined);
+  return entries.map(entry => {
+    const rawName = toText(field(entry, mapping.name));
+    const label = rawName !== undefined ? mapping.labels?.[rawName] : undefined;
+    return withRemaining({
+      name: label?.name || rawName || mapping.unit,
+      unit: label?.unit || mapping.unit,
+      used: toNumber(field(entry, mapping.used)),
+      limit: toNumber(field(entry, mapping.limit)),
+      remaining: toNumber(field(entry, mapping.remaining)),
+      resetsAt: toIsoTime(field(entry, mapping.resetsAt))
+    });
+  });
+}
+
+/**
+ * Map a usage endpoint response to quota windows and balance as declared by the provider.
+ * Throws when the response reports an error status.
+ */
+export function mapUsageResponse(source: ProviderUsageSource, body: unknown): Pick<UsageReport, 'windows' | 'balance'> {
+  if (source.error) {
+    const code = toText(readPath(body, source.error.code));
+    if (code !== undefined && !source.error.ok.includes(code)) {
+      const message = source.error.message ? toText(readPath(body, source.error.message)) : undefined;
+      throw new Error(message || `unexpected response code ${code}`);
+    }
+  }
+
+  const report: Pick<UsageReport, 'windows' | 'balance'> = {
+    windows: source.windows ? mapWindows(body, source.windows) : []
+  };
+  if (source.balance) {
+    const amount = toNumber(readPath(body, source.balance.amount));
+    const currency = (source.balance.currency && toText(readPath(body, source.balance.currency))) || source.balance.defaultCurrency;
+    if (amount !== undefined) {
+      report.balance = { amount, currency: currency || '' };
+    }
+  }
+  return report;
+}
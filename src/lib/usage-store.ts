@@ -0,0 +1,215 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import type { PlatformId, BudgetConfig } from '../types/config.js';
+import type { ProviderProtocol } from '../types/provider.js';
+import { logger } from './logger.js';
+
+const CPA_STATE_DIR = path.join(os.homedir(), '.unified-coding-helper');
+const USAGE_FILE = path.join(CPA_STATE_DIR, 'usage.jsonl');
+
+export type UsageGroupBy = 'tool' | 'model' | 'day' | 'platform' | 'project';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['tool', 'model', 'day', 'platform', 'project'];
+
+/** One metered request, stored as a line of usage.jsonl */
+export interface UsageRecord {
+  /** ISO timestamp of the request */
+  timestamp: string;
+  tool: string;
+  platform: PlatformId;
+  protocol: ProviderProtocol;
+  model: string;
+  project?: string;
+  status: number;
+  stream: boolean;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+export interface UsageSummaryRow {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface BudgetStatus {
+  /** 'all' for the overall budget, otherwise a tool id */
+  scope: string;
+  limit: number;
+  used: number;
+  exceeded: boolean;
+}
+
+interface DailyTotals {
+  day: string;
+  /** Log size the totals were computed from; a change means another process appended */
+  size: number;
+  total: number;
+  tools: Record<string, number>;
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) of a timestamp; budgets reset at local midnight
+ */
+export function usageDay(timestamp: string | Date = new Date()): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function totalTokens(record: UsageRecord): number {
+  return record.inputTokens + record.outputTokens;
+}
+
+/**
+ * Append-only log of metered requests with per-day totals for budget checks
+ */
+class UsageStore {
+  private static instance: UsageStore;
+  private today?: DailyTotals;
+
+  private constructor() {}
+
+  static getInstance(): UsageStore {
+    if (!UsageStore.instance) {
+      UsageStore.instance = new UsageStore();
+    }
+    return UsageStore.instance;
+  }
+
+  getFilePath(): string {
+    return USAGE_FILE;
+  }
+
+  append(record: UsageRecord): void {
+    // Bring the totals up to date before the log grows
+    const totals = this.getTodayTotals();
+    try {
+      if (!fs.existsSync(CPA_STATE_DIR)) {
+        fs.mkdirSync(CPA_STATE_DIR, { recursive: true });
+      }
+      fs.appendFileSync(USAGE_FILE, JSON.stringify(record) + '\n', { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      logger.error(`Failed to write usage record: ${error}`);
+      return;
+    }
+
+    if (usageDay(record.timestamp) === totals.day) {
+      totals.total += totalTokens(record);
+      totals.tools[record.tool] = (totals.tools[record.tool] || 0) + totalTokens(record);
+    }
+    totals.size = this.getFileSize();
+  }
+
+  /**
+   * Stored records, optionally only those at or after `since`. Malformed lines are skipped.
+   */
+  readRecords(since?: Date): UsageRecord[] {
+    if (!fs.existsSync(USAGE_FILE)) {
+      return [];
+    }
+    let content: string;
+    try {
+      content = fs.readFileSync(USAGE_FILE, 'utf-8');
+    } catch (error) {
+      logger.error(`Failed to read usage records: ${error}`);
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        if (!since || new Date(record.timestamp) >= since) {
+          records.push(record);
+        }
+      } catch {
+        logger.debug(`Skipping malformed usage record: ${line.slice(0, 80)}`);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Group records by a dimension. Days are listed chronologically, other
+   * dimensions by total tokens, largest first.
+   */
+  summarize(records: UsageRecord[], by: UsageGroupBy): UsageSummaryRow[] {
+    const rows = new Map<string, UsageSummaryRow>();
+    for (const record of records) {
+      const key = by === 'day' ? usageDay(record.timestamp) : record[by] || '-';
+      const row = rows.get(key) || { key, requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      row.requests++;
+      row.inputTokens += record.inputTokens;
+      row.outputTokens += record.outputTokens;
+      row.totalTokens += totalTokens(record);
+      rows.set(key, row);
+    }
+    const sorted = [...rows.values()];
+    return by === 'day'
+      ? sorted.sort((a, b) => a.key.localeCompare(b.key))
+      : sorted.sort((a, b) => b.totalTokens - a.totalTokens);
+  }
+
+  /**
+   * Today's consumption against the overall budget and, when a tool is given,
+   * that tool's budget. Tools without a budget of their own are not listed.
+   */
+  getBudgetStatus(budget: BudgetConfig, tool?: string): BudgetStatus[] {
+    const totals = this.getTodayTotals();
+    const statuses: BudgetStatus[] = [];
+    if (budget.dailyTokens) {
+      statuses.push({ scope: 'all', limit: budget.dailyTokens, used: totals.total, exceeded: totals.total >= budget.dailyTokens });
+    }
+    const tools = tool ? [tool] : Object.keys(budget.tools || {});
+    for (const toolId of tools) {
+      const limit = budget.tools?.[toolId];
+      if (limit) {
+        const used = totals.tools[toolId] || 0;
+        statuses.push({ scope: toolId, limit, used, exceeded: used >= limit });
+      }
+    }
+    return statuses;
+  }
+
+  private getFileSize(): number {
+    try {
+      return fs.existsSync(USAGE_FILE) ? fs.statSync(USAGE_FILE).size : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Totals are rebuilt from the log when the day changes or another process
+   * wrote to it, and are otherwise kept up to date by append()
+   */
+  private getTodayTotals(): DailyTotals {
+    const day = usageDay();
+    if (this.today?.day === day && this.today.size === this.getFileSize()) {
+      return this.today;
+    }
+
+    const totals: DailyTotals = { day, size: this.getFileSize(), total: 0, tools: {} };
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    for (const record of this.readRecords(startOfDay)) {
+      totals.total += totalTokens(record);
+      totals.tools[record.tool] = (totals.tools[record.tool] || 0) + totalTokens(record);
+    }
+    this.today = totals;
+    return totals;
+  }
+}
+
+export const usageStore = UsageStore.getInstance();
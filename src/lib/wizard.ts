@@ -2,16 +2,21 @@ import inquirer from 'inquirer';
 import ora from 'ora';
 import type { Language, PlatformId, PlanType, CredentialStorageType } from '../types/config.js';
 import type { ToolInfo } from '../types/tools.js';
-import { configManager } from './config.js';
-import { platformManager } from './platform-manager.js';
+import { configManager, PROFILE_NAME_PATTERN } from './config.js';
+import { platformManager, MODEL_TIERS } from './platform-manager.js';
+import { modelCatalog } from './model-catalog.js';
 import { toolManager } from './tool-manager.js';
 import { toolRegistry } from './tool-registry.js';
 import { toolInstaller } from './tool-installer.js';
 import { toolConfigManager } from './tool-config-manager.js';
 import { mcpManager } from './mcp-manager.js';
+import { describeKeyValidation } from './key-validation.js';
 import { logger } from './logger.js';
 import { i18n } from './i18n.js';
 import { secureCredentialManager } from './secure-credential-manager.js';
+import { getAgentPassword } from './agent.js';
+import { readProvidedMasterPassword, type MasterPasswordOptions } from './master-password.js';
+import { AuthError, ErrorCode } from './errors.js';
 
 class Wizard {
   private static instance: Wizard;
@@ -63,6 +68,19 @@ class Wizard {
     await this.configLanguage();
     await this.configPlatform();
     await this.configPlan();
+
+    const { customizeModels } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'customizeModels',
+        message: i18n.t('wizard.customize_models'),
+        default: false
+      }
+    ]);
+    if (customizeModels) {
+      await this.configModelTiers(configManager.getActivePlatform());
+    }
+
     await this.configCredentialStorage();
     await this.configApiKey(configManager.getActivePlatform());
 
@@ -103,7 +121,7 @@ class Wizard {
         }
       ]);
 
-      // Store the master password hash in config
+      // Store the master password verifier in config
       configManager.setMasterPassword(password);
       logger.success(i18n.t('wizard.master_password_set'));
 
@@ -137,10 +155,7 @@ class Wizard {
         type: 'list',
         name: 'platform',
         message: i18n.t('wizard.select_platform'),
-        choices: [
-          { name: 'GLM (Z.AI)', value: 'glm' as PlatformId },
-          { name: 'MiniMax', value: 'minimax' as PlatformId }
-        ],
+        choices: platformManager.getPlatformChoices(),
         default: configManager.getPlatform()
       }
     ]);
@@ -168,6 +183,28 @@ class Wizard {
     return plan;
   }
 
+  async configModelTiers(platformId: PlatformId): Promise<void> {
+    const platform = platformManager.getPlatform(platformId);
+    if (!platform) {
+      logger.error(i18n.t('platform.invalid', { platform: platformId }));
+      return;
+    }
+
+    const current = platform.resolveModelTiers(configManager.getModelTiers(platformId));
+    const answers = await inquirer.prompt(MODEL_TIERS.map(tier => ({
+      type: 'list',
+      name: tier,
+      message: i18n.t('wizard.select_tier_model', { tier }),
+      choices: modelCatalog.getModels(platformId),
+      default: current[tier]
+    })));
+
+    for (const tier of MODEL_TIERS) {
+      configManager.setModelTier(platformId, tier, answers[tier]);
+    }
+    logger.success(i18n.t('model.saved', { platform: platform.name }));
+  }
+
   async configCredentialStorage(): Promise<CredentialStorageType> {
     const currentType = configManager.getCredentialStorageType() || 'env';
 
@@ -184,12 +221,31 @@ class Wizard {
           {
             name: i18n.t('wizard.credential_storage_config'),
             value: 'config' as CredentialStorageType
+          },
+          {
+            name: i18n.t('wizard.credential_storage_external'),
+            value: 'external' as CredentialStorageType
           }
         ],
         default: currentType
       }
     ]);
 
+    if (storageType === 'external') {
+      const { helper } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'helper',
+          message: i18n.t('wizard.credential_helper_prompt'),
+          default: configManager.getCredentialStorageExternalProvider(),
+          validate: (input: string) => input.trim().length > 0 || i18n.t('wizard.credential_helper_required')
+        }
+      ]);
+      configManager.setCredentialStorageExternalProvider(helper.trim());
+      logger.info(i18n.t('wizard.credential_storage_external_info'));
+      return storageType;
+    }
+
     configManager.setCredentialStorageType(storageType);
 
     if (storageType === 'env') {
@@ -201,8 +257,15 @@ class Wizard {
     return storageType;
   }
 
-  async configApiKey(platform: PlatformId): Promise<string> {
-    const existingKey = configManager.getApiKey(platform);
+  /**
+   * Prompt for a platform key and store it encrypted. Without a password the
+   * master password is asked for, or set up when there is none yet.
+   */
+  async configApiKey(platform: PlatformId, password?: string): Promise<string> {
+    if (!password) {
+      password = configManager.hasMasterPassword() ? await this.promptMasterPassword() : await this.configMasterPassword();
+    }
+    const existingKey = configManager.getApiKey(platform, password);
     const apiDocsUrl = platformManager.getApiDocsUrl(platform);
 
     console.log('\n' + i18n.t('auth.get_api_key_hint', { url: apiDocsUrl }));
@@ -222,6 +285,11 @@ class Wizard {
       }
     ]);
 
+    const plan = await this.checkApiKey(platform, apiKey.trim(), configManager.getPlan());
+    if (plan !== configManager.getPlan()) {
+      configManager.setPlan(plan);
+    }
+
     // Store API key only if password is provided (required for encryption)
     if (password) {
       configManager.setApiKey(platform, apiKey.trim(), password);
@@ -232,6 +300,158 @@ class Wizard {
     return apiKey.trim();
   }
 
+  /**
+   * Probe a freshly entered key and return the plan to use with it, which
+   * differs from the given plan when the key belongs to the other region
+   */
+  private async checkApiKey(platform: PlatformId, apiKey: string, plan: PlanType): Promise<PlanType> {
+    const spinner = ora(i18n.t('wizard.validating_api_key'));
+    spinner.start();
+    const result = await platformManager.validateApiKey(platform, apiKey, plan);
+    spinner.stop();
+
+    if (result.valid) {
+      logger.success(i18n.t('key_validation.valid') + ` (${result.latencyMs}ms)`);
+    } else if (result.status === 'region_mismatch' && result.suggestedPlan) {
+      logger.info(i18n.t('wizard.plan_switched', { from: result.plan, to: result.suggestedPlan }));
+      return result.suggestedPlan;
+    } else {
+      logger.warning(describeKeyValidation(result));
+    }
+    return plan;
+  }
+
+  /**
+   * Create a credential profile, prompting for whatever the caller did not supply
+   */
+  async createProfile(defaults: { name?: string; platform?: PlatformId; plan?: PlanType; endpoint?: string } = {}): Promise<void> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: i18n.t('profile.name_prompt'),
+        when: !defaults.name,
+        validate: (input: string) => {
+          if (!PROFILE_NAME_PATTERN.test(input)) {
+            return i18n.t('profile.invalid_name', { name: input });
+          }
+          if (configManager.hasProfile(input)) {
+            return i18n.t('profile.exists', { name: input });
+          }
+          return true;
+        }
+      },
+      {
+        type: 'list',
+        name: 'platform',
+        message: i18n.t('wizard.select_platform'),
+        choices: platformManager.getPlatformChoices(),
+        default: configManager.getActivePlatform(),
+        when: !defaults.platform
+      },
+      {
+        type: 'list',
+        name: 'plan',
+        message: i18n.t('wizard.select_plan'),
+        choices: [
+          { name: i18n.t('wizard.plan_global'), value: 'global' as PlanType },
+          { name: i18n.t('wizard.plan_china'), value: 'china' as PlanType }
+        ],
+        default: configManager.getPlan(),
+        when: !defaults.plan
+      },
+      {
+        type: 'password',
+        name: 'apiKey',
+        message: i18n.t('wizard.input_api_key'),
+        validate: (input: string) => input.trim().length > 0 || i18n.t('wizard.api_key_required')
+      },
+      {
+        type: 'password',
+        name: 'password',
+        message: i18n.t('wizard.enter_master_password'),
+        validate: (input: string) => {
+          if (input.length === 0) {
+            return i18n.t('wizard.password_required');
+          }
+          return configManager.verifyMasterPassword(input) || i18n.t('wizard.invalid_master_password');
+        }
+      }
+    ]);
+
+    const name: string = defaults.name || answers.name;
+    const platform: PlatformId = defaults.platform || answers.platform;
+    const apiKey = answers.apiKey.trim();
+    const plan = await this.checkApiKey(platform, apiKey, defaults.plan || answers.plan);
+
+    configManager.setProfile(name, {
+      platform,
+      plan,
+      ...(defaults.endpoint ? { endpoint: defaults.endpoint } : {}),
+      models: configManager.getModelTiers(platform)
+    });
+    configManager.setProfileApiKey(name, apiKey, answers.password);
+    logger.success(i18n.t('profile.added', { name, platform, plan }));
+
+    const { activate } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'activate',
+        message: i18n.t('profile.activate_prompt', { name }),
+        default: !configManager.getActiveProfileName()
+      }
+    ]);
+    if (activate) {
+      configManager.useProfile(name);
+      logger.success(i18n.t('profile.activated', { name, platform, plan }));
+    }
+  }
+
+  async showProfileMenu(): Promise<void> {
+    while (true) {
+      const profiles = configManager.getProfiles();
+      const active = configManager.getActiveProfileName();
+      const choices = [
+        ...Object.entries(profiles).map(([name, profile]) => ({
+          name: `${name === active ? '* ' : '  '}${name} (${profile.platform}, ${profile.plan})`,
+          value: `use:${name}`
+        })),
+        { name: i18n.t('profile.action_add'), value: 'add' },
+        ...(Object.keys(profiles).length > 0 ? [{ name: i18n.t('profile.action_remove'), value: 'remove' }] : []),
+        { name: i18n.t('wizard.action_back'), value: 'back' }
+      ];
+
+      const { action } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'action',
+          message: i18n.t('profile.menu_title'),
+          choices
+        }
+      ]);
+
+      if (action === 'back') break;
+      if (action === 'add') {
+        await this.createProfile();
+      } else if (action === 'remove') {
+        const { name } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'name',
+            message: i18n.t('profile.select_remove'),
+            choices: Object.keys(profiles)
+          }
+        ]);
+        configManager.removeProfile(name);
+        logger.success(i18n.t('profile.removed', { name }));
+      } else {
+        const name = action.slice('use:'.length);
+        configManager.useProfile(name);
+        logger.success(i18n.t('profile.activated', { name, platform: profiles[name].platform, plan: profiles[name].plan }));
+      }
+    }
+  }
+
   async selectTool(): Promise<string> {
     const tools = toolRegistry.getSupportedTools();
     const { tool } = await inquirer.prompt([
@@ -258,8 +478,10 @@ class Wizard {
         { name: i18n.t('menu_config_language'), value: 'lang' },
         { name: i18n.t('menu_select_platform'), value: 'platform' },
         { name: i18n.t('menu_select_plan'), value: 'plan' },
+        { name: i18n.t('wizard.menu_config_models'), value: 'models' },
         { name: i18n.t('menu_config_credential_storage'), value: 'credential_storage' },
         { name: i18n.t('menu_config_api_key'), value: 'apikey' },
+        { name: i18n.t('wizard.menu_config_profiles'), value: 'profiles' },
         { name: i18n.t('menu_config_tool'), value: 'tool' },
         { name: i18n.t('menu_exit'), value: 'exit' }
       ];
@@ -293,23 +515,49 @@ class Wizard {
       case 'plan':
         await this.configPlan();
         break;
+      case 'models':
+        await this.configModelTiers(configManager.getActivePlatform());
+        break;
       case 'credential_storage':
         await this.configCredentialStorage();
         break;
       case 'apikey':
         await this.configApiKeyWithPassword();
         break;
+      case 'profiles':
+        await this.showProfileMenu();
+        break;
       case 'tool':
         await this.showToolMenu();
         break;
     }
   }
 
-  async promptMasterPassword(): Promise<string | undefined> {
+  /**
+   * Master password given by `--password-stdin`, `--password-file` or
+   * `CPA_MASTER_PASSWORD`, else from a running `cpa agent`, otherwise asked for
+   * until it is correct. Undefined when no master password has been set up.
+   * A wrong password from a non-interactive source throws instead of prompting,
+   * so scripts fail rather than hang.
+   */
+  async promptMasterPassword(options: MasterPasswordOptions = {}): Promise<string | undefined> {
     if (!configManager.hasMasterPassword()) {
       return undefined;
     }
 
+    const provided = await readProvidedMasterPassword(options);
+    if (provided) {
+      if (!configManager.verifyMasterPassword(provided.password)) {
+        throw new AuthError(ErrorCode.AUTH_FAILED, i18n.t('auth.invalid_password_source', { source: i18n.t(`auth.password_source_${provided.source}`) }));
+      }
+      return provided.password;
+    }
+
+    const cached = await getAgentPassword();
+    if (cached && configManager.verifyMasterPassword(cached)) {
+      return cached;
+    }
+
     while (true) {
       const { password } = await inquirer.prompt([
         {
@@ -391,16 +639,17 @@ class Wizard {
 
   async loadConfig(toolId: string, platform: PlatformId): Promise<void> {
     const useSecureStorage = configManager.getCredentialStorageType() === 'env';
-    const supportsSecureStorage = toolManager.supportsSecureStorage(toolId);
+    const password = await this.promptMasterPassword();
     const spinner = ora(i18n.t('wizard.loading_config'));
     spinner.start();
 
     try {
-      const success = toolManager.loadPlatformConfig(toolId, platform);
+      const success = toolManager.loadPlatformConfig(toolId, platform, { password });
       spinner.stop();
 
       if (success) {
         logger.success(i18n.t('wizard.config_loaded', { tool: toolId }));
+        const supportsSecureStorage = secureCredentialManager.isToolUsingSecureStorage(toolId, platform);
 
         // Show secure storage info if enabled
         if (useSecureStorage) {
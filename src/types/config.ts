@@ -1,37 +1,189 @@
 import type { EncryptedData } from './crypto.js';
+import type { ProviderProtocol } from './provider.js';
 
-export type PlatformId = 'glm' | 'minimax';
+/**
+ * Platform ids come from the provider registry (built-in and user definitions),
+ * e.g. 'glm' or 'minimax'.
+ */
+export type PlatformId = string;
 export type PlanType = 'global' | 'china';
 export type Language = 'en_US' | 'zh_CN';
 export type CredentialStorageType = 'env' | 'config' | 'external';
 
+/**
+ * Model slots exposed by tools such as Claude Code (ANTHROPIC_DEFAULT_*_MODEL,
+ * CLAUDE_CODE_SUBAGENT_MODEL)
+ */
+export type ModelTier = 'opus' | 'sonnet' | 'haiku' | 'subagent';
+
+/** Model id per tier; tiers left unset use the platform's default model */
+export type ModelTierMap = Partial<Record<ModelTier, string>>;
+
 export interface CredentialStorageConfig {
   type: CredentialStorageType;
   externalProvider?: string;
   envPrefix?: string;
 }
 
+/**
+ * Settings for outgoing HTTP requests. The proxy falls back to the
+ * HTTPS_PROXY / HTTP_PROXY environment variables when unset.
+ */
+export interface NetworkConfig {
+  proxy?: string;
+  /** PEM bundle trusted in addition to the system CAs */
+  caFile?: string;
+  timeoutMs?: number;
+  /** Wait for response headers in the local proxies (gateway, meter, bridge, recorder); 0 means no limit */
+  proxyTimeoutMs?: number;
+  /** Extra attempts after a 429, 5xx or connection failure */
+  retries?: number;
+}
+
+/**
+ * A further key for a platform (e.g. another plan seat), managed with `cpa auth pool`
+ */
+export interface PooledApiKey {
+  name: string;
+  encrypted_api_key: EncryptedData;
+  /** ISO timestamp the key was added */
+  added_at?: string;
+}
+
 export interface PlatformConfig {
   api_key?: string;
   encrypted_api_key?: EncryptedData;
   endpoint?: string;
   plan?: PlanType;
+  models?: ModelTierMap;
+  /** Keys the gateway rotates through together with `encrypted_api_key` */
+  key_pool?: PooledApiKey[];
+  /** ISO timestamp the platform key was stored, for rotation reminders */
+  api_key_created_at?: string;
+}
+
+/**
+ * Where the gateway sends requests for a tier or model
+ */
+export interface RouteTarget {
+  platform: PlatformId;
+  /** Model sent upstream; defaults to the platform's model for the request's tier */
+  model?: string;
+}
+
+/**
+ * Local gateway settings used by `cpa gateway start`
+ */
+export interface GatewayConfig {
+  port?: number;
+  /** Upstream platforms in failover order; defaults to the active platform followed by every other platform with a key */
+  platforms?: PlatformId[];
+  /** Routing table keyed by tier (opus, sonnet, haiku, subagent) or exact model id, managed with `cpa route` */
+  routes?: Record<string, RouteTarget>;
+  /** Random per-install token that tools loaded with `--gateway` present as their API key */
+  token?: string;
+}
+
+/**
+ * Protocol bridge settings used by `cpa bridge`
+ */
+export interface BridgeConfig {
+  port?: number;
+}
+
+/**
+ * Unlock agent settings used by `cpa agent`
+ */
+export interface AgentConfig {
+  /** Minutes without use after which the agent forgets the master password */
+  idleTimeoutMinutes?: number;
+}
+
+/**
+ * API key settings
+ */
+export interface AuthConfig {
+  /** Days after which `cpa` reminds you to rotate a platform key; 0 turns the reminder off */
+  keyRotationDays?: number;
+}
+
+export type BudgetAction = 'warn' | 'block';
+
+/**
+ * Daily token budgets enforced by `cpa meter`; input and output tokens both count
+ */
+export interface BudgetConfig {
+  /** Tokens per day across all tools */
+  dailyTokens?: number;
+  /** Tokens per day for single tools, keyed by tool id */
+  tools?: Record<string, number>;
+  /** Reject requests once a budget is spent, or only warn (default) */
+  action?: BudgetAction;
+}
+
+/**
+ * Metering proxy settings used by `cpa meter`
+ */
+export interface MeterConfig {
+  port?: number;
+  budget?: BudgetConfig;
+}
+
+/**
+ * A named account (e.g. "work" or "personal") that can be loaded into tools
+ * independently of the platform's default key
+ */
+export interface CredentialProfile {
+  platform: PlatformId;
+  plan: PlanType;
+  endpoint?: string;
+  encrypted_api_key?: EncryptedData;
+  models?: ModelTierMap;
+}
+
+/**
+ * Platform settings resolved from a profile or from the platform's own section
+ */
+export interface ResolvedCredentials {
+  /** Profile the settings came from; undefined for the platform section */
+  profile?: string;
+  platform: PlatformId;
+  plan: PlanType;
+  endpoint?: string;
+  models: ModelTierMap;
+  encrypted_api_key?: EncryptedData;
 }
 
 export interface UnifiedConfig {
   lang: Language;
   platform: PlatformId;
   plan: PlanType;
-  glm: PlatformConfig;
-  minimax: PlatformConfig;
+  /** Built-in platform sections; other providers get a section under their id */
+  glm?: PlatformConfig;
+  minimax?: PlatformConfig;
   active_platform: PlatformId;
   credentialStorage?: CredentialStorageConfig;
+  network?: NetworkConfig;
+  gateway?: GatewayConfig;
+  meter?: MeterConfig;
+  bridge?: BridgeConfig;
+  agent?: AgentConfig;
+  auth?: AuthConfig;
+  profiles?: Record<string, CredentialProfile>;
+  /** Profile selected with `cpa profile use` */
+  active_profile?: string;
+  /** Known text encrypted with the master password, used to check the password before decrypting keys */
+  master_password_hash?: EncryptedData;
 }
 
 export interface ToolConfig {
+  /** Base URL for the protocol the tool speaks */
   baseUrl: string;
+  protocol: ProviderProtocol;
   apiKey: string;
   model: string;
+  /** Resolved model for every tier */
+  models: Record<ModelTier, string>;
   env?: Record<string, string>;
 }
 
@@ -1,17 +1,94 @@
-import type { PlanType, ToolConfig, PlatformId } from './config.js';
+import type { PlanType, ToolConfig, PlatformId, ModelTier, ModelTierMap } from './config.js';
+import type { ModelMetadata, ProviderProtocol } from './provider.js';
 
 export type { PlanType, ToolConfig, PlatformId };
 
+/**
+ * Outcome of probing a provider with an API key
+ */
+export type KeyValidationStatus =
+  | 'valid'
+  | 'invalid_format'
+  | 'unauthorized'
+  | 'insufficient_balance'
+  | 'region_mismatch'
+  | 'rate_limited'
+  | 'network_error'
+  | 'tls_error'
+  | 'http_error'
+  | 'unknown_platform';
+
+export interface KeyValidationResult {
+  status: KeyValidationStatus;
+  valid: boolean;
+  /** Region (plan) whose endpoint was probed */
+  plan: PlanType;
+  /** Region that accepted the key, when it was rejected by the probed region */
+  suggestedPlan?: PlanType;
+  httpStatus?: number;
+  latencyMs?: number;
+  /** Provider error text or network error details */
+  message?: string;
+}
+
+/**
+ * Consumption within one quota window (e.g. the rolling 5-hour prompt limit)
+ */
+export interface UsageWindow {
+  name: string;
+  /** What is counted: tokens, prompts, requests... */
+  unit: string;
+  used?: number;
+  limit?: number;
+  remaining?: number;
+  /** ISO timestamp of the next reset */
+  resetsAt?: string;
+}
+
+export interface UsageReport {
+  platform: PlatformId;
+  plan: PlanType;
+  windows: UsageWindow[];
+  /** Prepaid account balance, for providers that report one */
+  balance?: { amount: number; currency: string };
+  fetchedAt: string;
+}
+
 export interface Platform {
   id: PlatformId;
   name: string;
+  description: string;
   globalUrl: string;
   chinaUrl: string;
+  protocols: ProviderProtocol[];
   models: string[];
   defaultModel: string;
   getApiDocsUrl(): string;
-  validateApiKey(key: string): Promise<boolean>;
-  getToolConfig(plan: PlanType, apiKey: string, endpoint: string): ToolConfig;
+  supportsProtocol(protocol: ProviderProtocol): boolean;
+  getEndpoint(plan: PlanType, protocol: ProviderProtocol): string | undefined;
+  resolveModelTiers(tiers?: ModelTierMap): Record<ModelTier, string>;
+  getModelInfo(model: string): ModelMetadata | undefined;
+  validateApiKey(key: string, plan?: PlanType): Promise<KeyValidationResult>;
+  /**
+   * Query the provider's model listing endpoint.
+   * Resolves to undefined when the provider does not declare one; rejects on network or HTTP errors.
+   */
+  fetchModels(plan: PlanType, apiKey: string): Promise<string[] | undefined>;
+  hasUsageEndpoint(): boolean;
+  /**
+   * Query the provider's coding plan usage endpoint.
+   * Resolves to undefined when the provider does not declare one; rejects on network, HTTP or API errors.
+   */
+  fetchUsage(plan: PlanType, apiKey: string, endpointOverride?: string): Promise<UsageReport | undefined>;
+  getToolConfig(
+    plan: PlanType,
+    apiKey: string,
+    endpoint: string,
+    protocol?: ProviderProtocol,
+    tiers?: ModelTierMap,
+    /** Replace the URL of each given protocol, e.g. with a local bridge */
+    baseUrls?: Partial<Record<ProviderProtocol, string>>
+  ): ToolConfig;
 }
 
 export interface PlatformInfo {
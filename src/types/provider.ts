@@ -0,0 +1,129 @@
+import type { PlanType } from './config.js';
+
+export type ProviderProtocol = 'anthropic' | 'openai';
+export type ProviderSource = 'builtin' | 'user';
+
+/**
+ * Endpoints for one region (plan) of a provider, keyed by protocol:
+ * `anthropic` is the Messages API base URL, `openai` the chat-completions base URL
+ */
+export type ProviderRegion = Partial<Record<ProviderProtocol, string>>;
+
+/**
+ * HTTP probe used to check whether an API key is accepted.
+ * `url` and header values are templates (see renderTemplate).
+ */
+export interface ProviderValidationProbe {
+  url: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+}
+
+export type ModelSpeedTier = 'standard' | 'fast';
+export type ModelModality = 'text' | 'image';
+export type ModelCapability = 'tools' | 'thinking';
+
+/**
+ * Known limits and features of a model; unset fields are unknown
+ */
+export interface ModelMetadata {
+  contextLength?: number;
+  maxOutputTokens?: number;
+  speed?: ModelSpeedTier;
+  /** Accepted input modalities ('image' means vision support) */
+  modalities?: ModelModality[];
+  capabilities?: ModelCapability[];
+  deprecated?: boolean;
+}
+
+/**
+ * Model listing endpoint; the response is expected in the OpenAI/Anthropic
+ * `{ "data": [{ "id": ... }] }` shape. `url` and header values are templates.
+ */
+export interface ProviderCatalogSource {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Maps a list in the usage response to quota windows. `path` points at the list;
+ * the other fields are dotted paths inside each entry. `labels` renames raw window
+ * names (and their unit); entries without a name are named after `unit`.
+ */
+export interface ProviderUsageWindows {
+  path: string;
+  unit: string;
+  name?: string;
+  labels?: Record<string, { name: string; unit?: string }>;
+  used?: string;
+  limit?: string;
+  remaining?: string;
+  /** Reset time as epoch milliseconds or an ISO date */
+  resetsAt?: string;
+}
+
+/**
+ * Prepaid balance in the usage response; `amount` and `currency` are dotted paths
+ */
+export interface ProviderUsageBalance {
+  amount: string;
+  currency?: string;
+  /** Currency code used when the response does not name one */
+  defaultCurrency?: string;
+}
+
+/**
+ * Error status reported inside a 200 response: any `code` value outside `ok` is a
+ * failure described by `message`. Both are dotted paths.
+ */
+export interface ProviderUsageError {
+  code: string;
+  ok: string[];
+  message?: string;
+}
+
+/**
+ * Coding plan usage endpoint for `cpa usage`. `url` and header values are templates.
+ */
+export interface ProviderUsageSource {
+  url: string;
+  headers?: Record<string, string>;
+  error?: ProviderUsageError;
+  windows?: ProviderUsageWindows;
+  balance?: ProviderUsageBalance;
+}
+
+/**
+ * Claude Code skill the platform offers as an MCP service, installed under
+ * ~/.claude/skills/<skill>
+ */
+export interface ProviderMcpService {
+  id: string;
+  name: string;
+  description: string;
+  skill: string;
+}
+
+/**
+ * Declarative description of an Anthropic/OpenAI-compatible coding platform.
+ * Built-in definitions ship in src/providers, user definitions live in
+ * ~/.unified-coding-helper/providers (YAML or JSON).
+ */
+export interface ProviderDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  apiDocsUrl: string;
+  regions: Partial<Record<PlanType, ProviderRegion>>;
+  protocols: ProviderProtocol[];
+  models: string[];
+  defaultModel: string;
+  /** Metadata keyed by model id; may also describe models only returned by the live listing */
+  modelInfo?: Record<string, ModelMetadata>;
+  /** Environment variables written into tool configs; values are templates */
+  env: Record<string, string>;
+  validation: ProviderValidationProbe;
+  catalog?: ProviderCatalogSource;
+  usage?: ProviderUsageSource;
+  mcp?: ProviderMcpService[];
+}
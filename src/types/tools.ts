@@ -1,4 +1,5 @@
 import type { PlatformId } from './config.js';
+import type { ProviderProtocol } from './provider.js';
 
 export type { PlatformId };
 
@@ -9,6 +10,8 @@ export interface ToolInfo {
   installCommand: string;
   configPath: string;
   displayName: string;
+  /** API protocol the tool speaks when pointed at a custom endpoint */
+  protocol?: ProviderProtocol;
   hidden?: boolean;
   supported: boolean;
 }